@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import {
   Bike,
   Play,
@@ -11,224 +11,768 @@ import {
   Clock,
   ArrowUp,
   TrendingUp,
-  Search,
-  ChevronRight,
   RefreshCw,
-  Award
+  Award,
+  X,
+  Upload,
+  Pause,
+  Settings,
+  Flag,
+  Mountain,
+  Route,
+  TriangleAlert,
+  Ghost,
+  Timer,
+  Zap,
+  Gauge,
+  Flame,
+  Dumbbell,
+  ChartColumn,
+  CloudOff,
+  Volume2,
+  VolumeX
 } from 'lucide-react';
-import { RoutePoint, RideStats, AIInsight, GroundingLink, GPSStatus } from './types';
-import { calculateDistance, formatDuration } from './utils/geo';
+import { RoutePoint, RideStats, AIInsight, GPSStatus, NearbyStops, SavedRide, PauseState, GhostComparison, InsightNote, ChatMessage } from './types';
+import { cumulativeDistances } from './utils/geo';
+import { createFormatter, withUnit } from './utils/format';
+import { importRideFile } from './utils/rideImport';
+import { RideSession, RideSessionConfig, createRideSession, summarizeTrack } from './utils/rideSession';
+import { SPLIT_DISTANCES, computeLaps, computeSplits } from './utils/splits';
+import { CourseProgress, CourseTrack, CourseTracker, courseAhead, createCourseTracker, indexAtDistance } from './utils/course';
+import { GhostRace, GhostStatus, GhostTrack, createGhostRace, ghostPositionAt } from './utils/ghost';
+import { CueConfig, createCueTracker } from './utils/cues';
+import { SharedRide, parseShareLink } from './utils/shareLink';
 import StatsCard from './components/StatsCard';
 import RouteVisualizer from './components/RouteVisualizer';
-import { getAIAnalysis, findNearbyStops } from './services/gemini';
+import RideHistory from './components/RideHistory';
+import ExportButtons from './components/ExportButtons';
+import SettingsPanel from './components/SettingsPanel';
+import SplitsTable from './components/SplitsTable';
+import ProfileChart from './components/ProfileChart';
+import CoursePanel from './components/CoursePanel';
+import GhostPanel from './components/GhostPanel';
+import SegmentsPanel from './components/SegmentsPanel';
+import SegmentEfforts from './components/SegmentEfforts';
+import InsightBreakdown from './components/InsightBreakdown';
+import CoachChat from './components/CoachChat';
+import TrendsPanel from './components/TrendsPanel';
+import NearbyStopsPanel, { SearchScope, placeLabel } from './components/NearbyStopsPanel';
+import ShareButtons from './components/ShareButtons';
+import SharedRideView from './components/SharedRideView';
+import { getAIAnalysis, findNearbyStops, streamCoachReply } from './services/ai';
+import { AnalysisRequest, MAX_SEARCH_POINTS, NearbyRequest, ReviewRequest } from './server/contract';
+import { createRide, updateRide } from './services/rideRepository';
+import { scanRide } from './services/segmentRepository';
+import { AppSettings, loadSettings, saveSettings } from './services/settings';
+import { DeliveredRequest, QueuedRequest, countQueued, enqueueRequest, flushQueue, isConnectionError } from './services/requestQueue';
+import { createScreenWakeLock } from './services/wakeLock';
+import { createCuePlayer } from './services/audioCues';
+import { LocationProvider, LocationFix, LocationError, createLocationProvider } from './services/location';
+import {
+  SessionCheckpoint,
+  beginCheckpoint,
+  checkpointPoint,
+  checkpointStats,
+  loadCheckpoint,
+  clearCheckpoint
+} from './services/sessionCheckpoint';
+
+const createEmptyStats = (startTime: number | null = null): RideStats => ({
+  totalDistance: 0,
+  avgSpeed: 0,
+  maxSpeed: 0,
+  duration: 0,
+  movingTime: 0,
+  startTime,
+  elevationGain: 0,
+  elevationLoss: 0,
+  maxGrade: 0,
+  calories: 0,
+  avgPower: 0,
+  normalizedPower: 0,
+  work: 0,
+  intensityFactor: 0,
+  trainingLoad: 0,
+});
+
+const toSessionConfig = ({ autoPause, trackFilter, profile }: AppSettings): RideSessionConfig => ({
+  autoPause,
+  trackFilter,
+  profile,
+});
+
+const toCueConfig = ({ cues, splitUnit, display }: AppSettings): CueConfig => ({
+  settings: cues,
+  splitDistance: SPLIT_DISTANCES[splitUnit],
+  display,
+});
+
+// Positions usually stop arriving while the page is in the background; a
+// silence this long after coming back is treated as a gap in the track
+const BACKGROUND_GAP = 30 * 1000; // ms
 
 const App: React.FC = () => {
   const [isRecording, setIsRecording] = useState(false);
   const [gpsStatus, setGpsStatus] = useState<GPSStatus>('inactive');
   const [route, setRoute] = useState<RoutePoint[]>([]);
-  const [stats, setStats] = useState<RideStats>({
-    totalDistance: 0,
-    avgSpeed: 0,
-    maxSpeed: 0,
-    duration: 0,
-    startTime: null,
-    elevationGain: 0,
-  });
+  const [stats, setStats] = useState<RideStats>(() => createEmptyStats());
   const [aiInsight, setAiInsight] = useState<AIInsight | null>(null);
-  const [nearbyStops, setNearbyStops] = useState<{ text: string, links: GroundingLink[] } | null>(null);
+  const [nearbyStops, setNearbyStops] = useState<NearbyStops | null>(null);
   const [isLoadingAI, setIsLoadingAI] = useState(false);
   const [isLoadingStops, setIsLoadingStops] = useState(false);
+  const [aiView, setAiView] = useState<'insights' | 'coach'>('insights');
+  const [coachChat, setCoachChat] = useState<ChatMessage[]>([]);
+  const [coachDraft, setCoachDraft] = useState<string | null>(null);
+  const [activeRide, setActiveRide] = useState<SavedRide | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [showTrends, setShowTrends] = useState(false);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [queuedCount, setQueuedCount] = useState(0);
+  const [interruptedRide, setInterruptedRide] = useState<SessionCheckpoint | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [pauseState, setPauseState] = useState<PauseState>('running');
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const format = useMemo(() => createFormatter(settings.display), [settings.display]);
+  const [showSettings, setShowSettings] = useState(false);
+  // Point picked on a profile chart, mirrored on the map
+  const [highlightIndex, setHighlightIndex] = useState<number | null>(null);
+  const [course, setCourse] = useState<CourseTrack | null>(null);
+  const [courseProgress, setCourseProgress] = useState<CourseProgress | null>(null);
+  const [showCourse, setShowCourse] = useState(false);
+  const [ghost, setGhost] = useState<GhostTrack | null>(null);
+  const [ghostStatus, setGhostStatus] = useState<GhostStatus | null>(null);
+  const [ghostComparison, setGhostComparison] = useState<GhostComparison | null>(null);
+  const [showGhost, setShowGhost] = useState(false);
+  const [showSegments, setShowSegments] = useState(false);
+  const [segmentVersion, setSegmentVersion] = useState(0);
+  // A ride opened from a share link replaces the app until dismissed
+  const [sharedRide, setSharedRide] = useState<SharedRide | null>(() => parseShareLink(window.location.hash));
 
-  const watchIdRef = useRef<number | null>(null);
-  const lastPointRef = useRef<RoutePoint | null>(null);
+  const stopLocationRef = useRef<(() => void) | null>(null);
+  const sessionRef = useRef<RideSession | null>(null);
+  const courseTrackerRef = useRef<CourseTracker | null>(null);
+  const ghostRaceRef = useRef<GhostRace | null>(null);
   const timerRef = useRef<number | null>(null);
-  const wakeLockRef = useRef<any>(null);
+  const wakeLockRef = useRef(createScreenWakeLock());
+  const cueTrackerRef = useRef(createCueTracker(toCueConfig(settings)));
+  const cuePlayerRef = useRef(createCuePlayer());
+  // Set when the page is hidden mid-ride; the next fix checks for a gap
+  const backgroundedRef = useRef(false);
+  const lastFixAtRef = useRef<number | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  const nearbyAbortRef = useRef<AbortController | null>(null);
+  const coachAbortRef = useRef<AbortController | null>(null);
+  // Mirror of state for callbacks memoized once (beginTracking, startRecording)
+  const settingsRef = useRef<AppSettings>(settings);
+  const activeRideRef = useRef<SavedRide | null>(activeRide);
+  // Stops found mid-ride have no saved ride to go to until the ride is stored
+  const nearbyStopsRef = useRef<NearbyStops | null>(nearbyStops);
+
+  useEffect(() => {
+    settingsRef.current = settings;
+    sessionRef.current?.updateConfig(toSessionConfig(settings));
+    cueTrackerRef.current.updateConfig(toCueConfig(settings));
+  }, [settings]);
+
+  useEffect(() => {
+    activeRideRef.current = activeRide;
+  }, [activeRide]);
+
+  useEffect(() => {
+    nearbyStopsRef.current = nearbyStops;
+  }, [nearbyStops]);
+
+  // A link opened in a tab that already runs the app only changes the hash
+  useEffect(() => {
+    const handleHashChange = () => {
+      const shared = parseShareLink(window.location.hash);
+      if (shared) setSharedRide(shared);
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
 
-  // Request wake lock to keep screen on
-  const requestWakeLock = async () => {
+  const closeSharedRide = () => {
+    history.replaceState(null, '', window.location.pathname + window.location.search);
+    setSharedRide(null);
+  };
+
+  // Offer to pick up a ride whose tab was killed mid-recording
+  useEffect(() => {
+    loadCheckpoint()
+      .then((checkpoint) => {
+        if (checkpoint && (checkpoint.route.length > 0 || checkpoint.stats.duration > 0)) {
+          setInterruptedRide(checkpoint);
+        }
+      })
+      .catch((err) => console.warn('Failed to load checkpoint:', err));
+  }, []);
+
+  useEffect(() => {
+    if (!isRecording) return;
+    checkpointStats(stats).catch((err) => console.warn('Checkpoint write failed:', err));
+  }, [isRecording, stats]);
+
+  // Cues follow the published session, so they hear every fix and clock tick
+  useEffect(() => {
+    if (!isRecording) return;
+    const cues = cueTrackerRef.current.update({
+      distance: stats.totalDistance,
+      duration: stats.duration,
+      movingTime: stats.movingTime,
+      speed: route.length > 0 ? route[route.length - 1].speed : 0,
+      gpsStatus,
+      pauseState,
+    });
+    const { enabled, quiet } = settingsRef.current.cues;
+    if (enabled) cues.forEach((cue) => cuePlayerRef.current.play(cue, quiet));
+  }, [isRecording, stats, route, gpsStatus, pauseState]);
+
+  // A new course (or alert distance) starts matching from scratch
+  useEffect(() => {
+    courseTrackerRef.current = course ? createCourseTracker(course, settings.offCourseDistance) : null;
+    setCourseProgress(null);
+  }, [course, settings.offCourseDistance]);
+
+  useEffect(() => {
+    ghostRaceRef.current = ghost ? createGhostRace(ghost, settings.offCourseDistance) : null;
+    setGhostStatus(null);
+  }, [ghost, settings.offCourseDistance]);
+
+  const refreshQueuedCount = () => {
+    countQueued()
+      .then(setQueuedCount)
+      .catch((err) => console.warn('Failed to count queued requests:', err));
+  };
+
+  // Answers to requests queued offline are already saved; this shows them if
+  // their ride is still on screen
+  const handleDelivered = (delivered: DeliveredRequest) => {
+    setHistoryVersion((v) => v + 1);
+    if (delivered.kind === 'review') return;
+    const current = activeRideRef.current;
+    if (delivered.kind === 'analysis') {
+      if (current?.id !== delivered.ride.id) return;
+      setActiveRide(delivered.ride);
+      setAiInsight(delivered.ride.aiInsight);
+    } else if (current?.id === delivered.ride.id) {
+      setActiveRide(delivered.ride);
+      setNearbyStops(delivered.stops);
+    }
+  };
+
+  // Sends AI requests queued while offline once the connection is back
+  useEffect(() => {
+    const flush = () => flushQueue(handleDelivered).finally(refreshQueuedCount);
+    const handleOnline = () => {
+      setIsOnline(true);
+      flush();
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    if (navigator.onLine) flush();
+    else refreshQueuedCount();
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  const queueRequest = async (item: QueuedRequest, what: string) => {
     try {
-      if ('wakeLock' in navigator) {
-        wakeLockRef.current = await (navigator as any).wakeLock.request('screen');
-        console.log('Wake Lock active');
-      }
+      await enqueueRequest(item);
+      refreshQueuedCount();
+      alert(`You're offline. ${what} will be sent when the connection returns.`);
     } catch (err) {
-      console.warn('Wake Lock request failed:', err);
+      console.error(err);
+      alert("You're offline, and the request could not be saved for later.");
     }
   };
 
-  const releaseWakeLock = () => {
-    if (wakeLockRef.current) {
-      wakeLockRef.current.release().then(() => {
-        wakeLockRef.current = null;
-        console.log('Wake Lock released');
-      });
-    }
+  const handleQueueReview = (request: ReviewRequest) => queueRequest({ kind: 'review', request }, 'The training review');
+
+  // The session owns the live ride; React state mirrors it for rendering
+  const publishSession = (session: RideSession) => {
+    const snapshot = session.getSnapshot();
+    setRoute(snapshot.route);
+    setStats(snapshot.stats);
+    setPauseState(snapshot.pauseState);
   };
 
-  const startRecording = useCallback(async () => {
-    if (!navigator.geolocation) {
-      alert("Geolocation is not supported by your browser.");
-      return;
-    }
+  const updateSettings = (next: AppSettings) => {
+    setSettings(next);
+    saveSettings(next);
+  };
 
-    // Attempt to keep screen on
-    await requestWakeLock();
+  // Wires up GPS and the ride clock; shared by fresh starts and resumed rides
+  const beginTracking = useCallback(async (provider: LocationProvider, session: RideSession) => {
+    await wakeLockRef.current.acquire();
+    backgroundedRef.current = false;
+    lastFixAtRef.current = null;
 
+    sessionRef.current = session;
+    courseTrackerRef.current?.reset();
+    setCourseProgress(null);
+    ghostRaceRef.current?.reset();
+    setGhostStatus(null);
+    cueTrackerRef.current.reset();
+    session.tick(Date.now());
+    publishSession(session);
     setIsRecording(true);
     setGpsStatus('searching');
-    setRoute([]);
-    setStats({
-      totalDistance: 0,
-      avgSpeed: 0,
-      maxSpeed: 0,
-      duration: 0,
-      startTime: Date.now(),
-      elevationGain: 0,
-    });
-    setAiInsight(null);
-    setNearbyStops(null);
 
-    // GPS Warm-up: Initial request to wake up hardware
-    navigator.geolocation.getCurrentPosition(
-      (position) => {
-        setGpsStatus('active');
-        const firstPoint: RoutePoint = {
-          latitude: position.coords.latitude,
-          longitude: position.coords.longitude,
-          timestamp: position.timestamp,
-          speed: position.coords.speed || 0,
-          altitude: position.coords.altitude,
-        };
-        setRoute([firstPoint]);
-        lastPointRef.current = firstPoint;
-      },
-      (error) => console.log("Initial GPS lock failed, waiting for watchPosition..."),
-      { enableHighAccuracy: true, timeout: 5000 }
-    );
-
-    watchIdRef.current = navigator.geolocation.watchPosition(
-      (position) => {
-        setGpsStatus('active');
-        const newPoint: RoutePoint = {
-          latitude: position.coords.latitude,
-          longitude: position.coords.longitude,
-          timestamp: position.timestamp,
-          speed: position.coords.speed || 0,
-          altitude: position.coords.altitude,
-        };
-
-        setRoute((prev) => {
-          // Prevent duplicates from same timestamp
-          if (prev.length > 0 && prev[prev.length - 1].timestamp === newPoint.timestamp) return prev;
-          return [...prev, newPoint];
-        });
-
-        if (lastPointRef.current) {
-          const distance = calculateDistance(lastPointRef.current, newPoint);
-          const elev = (newPoint.altitude || 0) - (lastPointRef.current.altitude || 0);
-
-          setStats((prev) => {
-            const newDist = prev.totalDistance + distance;
-            const newMaxSpd = Math.max(prev.maxSpeed, newPoint.speed);
-            const newElev = elev > 0 ? prev.elevationGain + elev : prev.elevationGain;
-            return {
-              ...prev,
-              totalDistance: newDist,
-              maxSpeed: newMaxSpd,
-              elevationGain: newElev,
-            };
-          });
+    const handleFix = (fix: LocationFix) => {
+      setGpsStatus('active');
+      if (backgroundedRef.current && document.visibilityState === 'visible') {
+        backgroundedRef.current = false;
+        const lastFixAt = lastFixAtRef.current;
+        if (lastFixAt !== null && fix.timestamp - lastFixAt >= BACKGROUND_GAP) {
+          console.info(`No GPS for ${Math.round((fix.timestamp - lastFixAt) / 1000)} s while in the background`);
+          session.breakSegment();
         }
-        lastPointRef.current = newPoint;
-      },
-      (error) => {
-        console.error("GPS Error:", error);
-        if (error.code === error.PERMISSION_DENIED) {
-          setGpsStatus('denied');
-          alert("GPS Permission denied. Please enable location services.");
-          stopRecording();
-        } else if (error.code === error.TIMEOUT) {
-          setGpsStatus('searching');
-        } else {
-          setGpsStatus('error');
-        }
-      },
-      {
-        enableHighAccuracy: true,
-        timeout: 10000,
-        maximumAge: 0
       }
-    );
+      lastFixAtRef.current = fix.timestamp;
+      const newPoint = session.addFix({
+        latitude: fix.latitude,
+        longitude: fix.longitude,
+        timestamp: fix.timestamp,
+        speed: fix.speed || 0,
+        altitude: fix.altitude,
+        accuracy: fix.accuracy,
+      });
+      if (!newPoint) return;
+      checkpointPoint(newPoint).catch((err) => console.warn('Checkpoint write failed:', err));
+      publishSession(session);
+      if (courseTrackerRef.current) setCourseProgress(courseTrackerRef.current.update(newPoint));
+      if (ghostRaceRef.current) setGhostStatus(ghostRaceRef.current.update(newPoint, session.getSnapshot().stats.movingTime));
+    };
+
+    const handleError = (error: LocationError) => {
+      console.error("GPS Error:", error);
+      if (error.code === 'PERMISSION_DENIED') {
+        setGpsStatus('denied');
+        alert("GPS Permission denied. Please enable location services.");
+        stopRecording();
+      } else if (error.code === 'TIMEOUT') {
+        setGpsStatus('searching');
+      } else {
+        setGpsStatus('error');
+      }
+    };
 
+    stopLocationRef.current = provider.start(handleFix, handleError);
+
+    // Ticks re-evaluate auto-pause too, so a stop is noticed even when the
+    // GPS stops reporting new positions.
     timerRef.current = window.setInterval(() => {
-      setStats((prev) => ({ ...prev, duration: prev.duration + 1 }));
+      session.tick(Date.now());
+      publishSession(session);
     }, 1000);
   }, []);
 
+  const prepareLocationProvider = async (): Promise<LocationProvider | null> => {
+    const { locationSource, simulator } = settingsRef.current;
+    try {
+      const provider = await createLocationProvider(locationSource, simulator);
+      if (provider.isSupported()) return provider;
+    } catch (err) {
+      console.error(err);
+    }
+    alert(locationSource === 'gps'
+      ? "Geolocation is not supported by your browser."
+      : "The GPS simulator could not load its track.");
+    return null;
+  };
+
+  const startRecording = useCallback(async () => {
+    const provider = await prepareLocationProvider();
+    if (!provider) return;
+
+    const session = createRideSession(toSessionConfig(settingsRef.current), Date.now());
+    cancelAIRequests();
+    setAiInsight(null);
+    setNearbyStops(null);
+    setCoachChat([]);
+    setGhostComparison(null);
+    setActiveRide(null);
+    setInterruptedRide(null);
+    beginCheckpoint(session.getSnapshot().stats).catch((err) => console.warn('Checkpoint start failed:', err));
+
+    await beginTracking(provider, session);
+  }, [beginTracking]);
+
+  // Continues an interrupted ride. `duration` resumes from the last checkpoint,
+  // so the time the tab was dead is not counted as riding time, and the first
+  // new fix starts a fresh segment instead of being joined to the old track.
+  const resumeRecording = async () => {
+    if (!interruptedRide) return;
+    const provider = await prepareLocationProvider();
+    if (!provider) return;
+
+    const session = createRideSession(toSessionConfig(settings), null, interruptedRide);
+    cancelAIRequests();
+    setAiInsight(null);
+    setNearbyStops(null);
+    setCoachChat([]);
+    setGhostComparison(null);
+    setActiveRide(null);
+    setInterruptedRide(null);
+
+    await beginTracking(provider, session);
+  };
+
+  const markLap = () => {
+    sessionRef.current?.lap();
+  };
+
+  const togglePause = () => {
+    const session = sessionRef.current;
+    if (!session) return;
+    if (session.getSnapshot().pauseState === 'paused') session.resume();
+    else session.pause();
+    publishSession(session);
+  };
+
+  const discardInterruptedRide = () => {
+    setInterruptedRide(null);
+    clearCheckpoint().catch((err) => console.warn('Failed to clear checkpoint:', err));
+  };
+
+  // Finds efforts on every known segment; a failure here never blocks saving
+  const matchSegments = (ride: SavedRide) => {
+    scanRide(ride)
+      .then(() => setSegmentVersion((v) => v + 1))
+      .catch((err) => console.warn('Segment matching failed:', err));
+  };
+
   const stopRecording = useCallback(() => {
-    releaseWakeLock();
+    wakeLockRef.current.release();
+    cuePlayerRef.current.stop();
     setGpsStatus('inactive');
-    if (watchIdRef.current !== null) {
-      navigator.geolocation.clearWatch(watchIdRef.current);
-      watchIdRef.current = null;
+    if (stopLocationRef.current) {
+      stopLocationRef.current();
+      stopLocationRef.current = null;
     }
     if (timerRef.current) {
       clearInterval(timerRef.current);
       timerRef.current = null;
     }
     setIsRecording(false);
-    lastPointRef.current = null;
+    setPauseState('running');
+    setCourseProgress(null);
+    setGhostStatus(null);
+
+    const session = sessionRef.current;
+    sessionRef.current = null;
+    if (!session) return;
+    session.tick(Date.now());
+    const { route: finalRoute, stats: finalStats } = session.getSnapshot();
+    setRoute(finalRoute);
+    setStats(finalStats);
+    const comparison = ghostRaceRef.current?.summary() ?? null;
+    setGhostComparison(comparison);
+
+    if (finalRoute.length > 1) {
+      createRide({
+        source: 'recorded',
+        route: finalRoute,
+        stats: finalStats,
+        aiInsight: null,
+        nearbyStops: nearbyStopsRef.current,
+        ghostComparison: comparison,
+      })
+        .then((saved) => {
+          setActiveRide(saved);
+          setHistoryVersion((v) => v + 1);
+          matchSegments(saved);
+          // Only drop the checkpoint once the ride is safely in history
+          return clearCheckpoint();
+        })
+        .catch((err) => {
+          console.error('Failed to save ride:', err);
+          alert("This ride could not be saved to your history.");
+        });
+    } else {
+      clearCheckpoint().catch((err) => console.warn('Failed to clear checkpoint:', err));
+    }
   }, []);
 
-  const handleGetAIAnalysis = async () => {
-    if (route.length < 5) {
+  // Persists results against the ride being viewed so history stays in sync
+  const saveToActiveRide = async (changes: Partial<Pick<SavedRide, 'aiInsight' | 'nearbyStops' | 'coachChat'>>, rideId = activeRide?.id) => {
+    if (!rideId) return;
+    try {
+      const updated = await updateRide(rideId, changes);
+      setActiveRide(updated);
+      setHistoryVersion((v) => v + 1);
+    } catch (err) {
+      console.error('Failed to update saved ride:', err);
+    }
+  };
+
+  // Answers for a ride that is no longer on screen would land on the wrong one
+  const cancelAIRequests = () => {
+    analysisAbortRef.current?.abort();
+    nearbyAbortRef.current?.abort();
+    coachAbortRef.current?.abort();
+    analysisAbortRef.current = null;
+    nearbyAbortRef.current = null;
+    coachAbortRef.current = null;
+    setIsLoadingAI(false);
+    setIsLoadingStops(false);
+    setCoachDraft(null);
+  };
+
+  const openRide = (ride: SavedRide) => {
+    if (isRecording) return;
+    cancelAIRequests();
+    setActiveRide(ride);
+    setRoute(ride.route);
+    setStats(ride.stats);
+    setAiInsight(ride.aiInsight);
+    setNearbyStops(ride.nearbyStops);
+    setCoachChat(ride.coachChat ?? []);
+    setGhostComparison(ride.ghostComparison ?? null);
+  };
+
+  const closeRide = () => {
+    cancelAIRequests();
+    setActiveRide(null);
+    setRoute([]);
+    setStats(createEmptyStats());
+    setAiInsight(null);
+    setNearbyStops(null);
+    setCoachChat([]);
+    setGhostComparison(null);
+  };
+
+  // Imported files go through the same save/open path as recorded rides
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || isRecording) return;
+    setIsImporting(true);
+    try {
+      const track = await importRideFile(file);
+      const { route, stats } = summarizeTrack(track.route, toSessionConfig(settings));
+      const saved = await createRide({
+        name: track.name ?? undefined,
+        source: 'imported',
+        route,
+        stats,
+        aiInsight: null,
+        nearbyStops: null,
+      });
+      openRide(saved);
+      setHistoryVersion((v) => v + 1);
+      matchSegments(saved);
+    } catch (err) {
+      console.error(err);
+      alert(err instanceof Error ? err.message : "Failed to import ride.");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleRideDeleted = (id: string) => {
+    if (activeRide?.id === id) closeRide();
+    setSegmentVersion((v) => v + 1);
+  };
+
+  const handleRideChanged = (ride: SavedRide) => {
+    if (activeRide?.id === ride.id) setActiveRide(ride);
+  };
+
+  // What the AI features know about a ride: its stats, track, pacing, the rider and any ghost race
+  const rideContext = (rideStats: RideStats, rideRoute: RoutePoint[], comparison: GhostComparison | null): AnalysisRequest => {
+    const { splitUnit, trackFilter, profile, display } = settings;
+    return {
+      stats: rideStats,
+      route: rideRoute,
+      pacing: {
+        unit: splitUnit,
+        splits: computeSplits(rideRoute, SPLIT_DISTANCES[splitUnit], trackFilter.elevationThreshold),
+        laps: computeLaps(rideRoute, trackFilter.elevationThreshold),
+      },
+      rider: profile,
+      ghost: comparison,
+      locale: { units: display.units, language: display.language },
+    };
+  };
+
+  const analyzeRide = async (rideStats: RideStats, rideRoute: RoutePoint[], rideId = activeRide?.id, comparison = ghostComparison) => {
+    if (rideRoute.length < 5) {
       alert("Ride longer to get meaningful AI insights!");
       return;
     }
+    analysisAbortRef.current?.abort();
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
     setIsLoadingAI(true);
+    const request = rideContext(rideStats, rideRoute, comparison);
     try {
-      const insight = await getAIAnalysis(stats, route);
+      const insight = await getAIAnalysis(request, controller.signal);
       setAiInsight(insight);
+      await saveToActiveRide({ aiInsight: insight }, rideId);
     } catch (err) {
+      if (controller.signal.aborted) return;
+      if (isConnectionError(err) && rideId) {
+        await queueRequest({ kind: 'analysis', rideId, request }, 'The analysis');
+        return;
+      }
       console.error(err);
-      alert("Failed to generate AI insights.");
+      alert(err instanceof Error ? err.message : "Failed to generate AI insights.");
     } finally {
-      setIsLoadingAI(false);
+      if (analysisAbortRef.current === controller) {
+        analysisAbortRef.current = null;
+        setIsLoadingAI(false);
+      }
     }
   };
 
-  const handleFindNearby = async () => {
+  const handleCancelAnalysis = () => {
+    analysisAbortRef.current?.abort();
+    analysisAbortRef.current = null;
+    setIsLoadingAI(false);
+  };
+
+  const handleGetAIAnalysis = () => analyzeRide(stats, route);
+
+  const handleReanalyzeRide = (ride: SavedRide) => {
+    if (isRecording) return;
+    openRide(ride);
+    analyzeRide(ride.stats, ride.route, ride.id, ride.ghostComparison ?? null);
+  };
+
+  // The reply streams into `coachDraft` and joins the conversation once it ends.
+  // Stopping keeps what arrived; switching rides discards it.
+  const askCoach = async (question: string) => {
+    if (route.length < 5) {
+      alert("Ride longer to chat with the coach!");
+      return;
+    }
+    const rideId = activeRide?.id;
+    coachAbortRef.current?.abort();
+    const controller = new AbortController();
+    coachAbortRef.current = controller;
+    const asked: ChatMessage[] = [...coachChat, { role: 'user', text: question, createdAt: Date.now() }];
+    setCoachChat(asked);
+    setCoachDraft('');
+    let reply = '';
+    try {
+      await streamCoachReply(rideContext(stats, route, ghostComparison), asked, (text) => {
+        reply = text;
+        setCoachDraft(text);
+      }, controller.signal);
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error(err);
+        alert(isConnectionError(err)
+          ? "You're offline. The coach can answer once the connection returns."
+          : err instanceof Error ? err.message : "The coach could not answer.");
+      }
+    }
+    if (coachAbortRef.current !== controller) return;
+    coachAbortRef.current = null;
+    setCoachDraft(null);
+    if (!reply.trim()) {
+      setCoachChat(coachChat);
+      return;
+    }
+    const conversation: ChatMessage[] = [...asked, { role: 'coach', text: reply, createdAt: Date.now() }];
+    setCoachChat(conversation);
+    await saveToActiveRide({ coachChat: conversation }, rideId);
+  };
+
+  const handleStopCoach = () => {
+    coachAbortRef.current?.abort();
+  };
+
+  const handleSelectNote = (note: InsightNote) => {
+    if (route.length > 0) setHighlightIndex(indexAtDistance(routeDistances, note.distance));
+  };
+
+  const handleFindNearby = async (scope: SearchScope, radius: number) => {
     if (route.length === 0) return;
     const last = route[route.length - 1];
+    const here = { latitude: last.latitude, longitude: last.longitude };
+    const request: NearbyRequest = {
+      path: scope === 'ahead' && course && courseProgress
+        ? [here, ...courseAhead(course, courseProgress.distanceAlong, MAX_SEARCH_POINTS - 1).map(({ latitude, longitude }) => ({ latitude, longitude }))]
+        : [here],
+      radius,
+      locale: { units: settings.display.units, language: settings.display.language },
+    };
+    nearbyAbortRef.current?.abort();
+    const controller = new AbortController();
+    nearbyAbortRef.current = controller;
     setIsLoadingStops(true);
     try {
-      const stops = await findNearbyStops(last.latitude, last.longitude);
+      const stops = await findNearbyStops(request, controller.signal);
       setNearbyStops(stops);
+      await saveToActiveRide({ nearbyStops: stops });
     } catch (err) {
+      if (controller.signal.aborted) return;
+      if (isConnectionError(err)) {
+        // Mid-ride the stops would arrive after the rider has moved on, and
+        // there is no saved ride to put them on yet
+        if (!isRecording && activeRide) await queueRequest({ kind: 'nearby', rideId: activeRide.id, request }, 'The search');
+        else alert("You're offline. Search again once you have a connection.");
+        return;
+      }
       console.error(err);
-      alert("Failed to find nearby stops.");
+      alert(err instanceof Error ? err.message : "Failed to find nearby stops.");
     } finally {
-      setIsLoadingStops(false);
+      if (nearbyAbortRef.current === controller) {
+        nearbyAbortRef.current = null;
+        setIsLoadingStops(false);
+      }
     }
   };
 
+  const handleCancelNearby = () => {
+    nearbyAbortRef.current?.abort();
+  };
+
+  // The wake lock takes itself again on return; this only notes the absence
   useEffect(() => {
-    const handleVisibilityChange = async () => {
-      if (isRecording && document.visibilityState === 'visible') {
-        await requestWakeLock();
-      }
+    const handleVisibilityChange = () => {
+      if (isRecording && document.visibilityState === 'hidden') backgroundedRef.current = true;
     };
     document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [isRecording]);
+
+  // Tear down tracking only on unmount; tying this to `isRecording` would kill
+  // the watch and the clock as soon as a ride starts.
+  useEffect(() => {
     return () => {
-      document.removeEventListener('visibilitychange', handleVisibilityChange);
-      if (watchIdRef.current) navigator.geolocation.clearWatch(watchIdRef.current);
+      stopLocationRef.current?.();
       if (timerRef.current) clearInterval(timerRef.current);
-      releaseWakeLock();
+      wakeLockRef.current.release();
     };
-  }, [isRecording]);
+  }, []);
 
-  const currentSpeedKmH = route.length > 0 ? (route[route.length - 1].speed * 3.6).toFixed(1) : "0.0";
-  const avgSpeedKmH = stats.duration > 0 ? ((stats.totalDistance / stats.duration) * 3.6).toFixed(1) : "0.0";
+  const currentSpeed = format.speed(route.length > 0 ? route[route.length - 1].speed : 0);
+  const avgSpeed = format.speed(stats.avgSpeed);
+  const distance = format.distance(stats.totalDistance);
+  const pace = settings.display.speedDisplay === 'pace';
+  const lapCount = useMemo(() => route.filter((p) => p.lapEnd).length, [route]);
+  const routeDistances = useMemo(() => cumulativeDistances(route), [route]);
+  const nearbyPlaces = useMemo(
+    () => nearbyStops?.places?.map((place, i) => ({ latitude: place.latitude, longitude: place.longitude, label: placeLabel(i) })),
+    [nearbyStops],
+  );
+  const ghostPosition = useMemo(
+    () => (isRecording && ghost ? ghostPositionAt(ghost, stats.movingTime) : null),
+    [isRecording, ghost, stats.movingTime],
+  );
+  const courseEta = courseProgress && stats.avgSpeed > 0 ? Date.now() + (courseProgress.remaining / stats.avgSpeed) * 1000 : null;
+
+  // Recording carries on underneath; closing the shared ride returns to it
+  if (sharedRide) return <SharedRideView ride={sharedRide} format={format} onClose={closeSharedRide} />;
 
   return (
     <div className="min-h-screen bg-slate-950 p-4 md:p-8 max-w-5xl mx-auto space-y-6 pb-24">
@@ -243,6 +787,14 @@ const App: React.FC = () => {
           </div>
         </div>
         <div className="flex items-center gap-4">
+          {(!isOnline || queuedCount > 0) && (
+            <div className="flex items-center gap-2 px-3 py-1 bg-slate-500/10 border border-slate-500/20 rounded-full">
+              <CloudOff className="w-3 h-3 text-slate-400" />
+              <span className="text-[10px] font-bold text-slate-400 uppercase tracking-tighter">
+                {isOnline ? 'Sending' : 'Offline'}{queuedCount > 0 ? ` · ${queuedCount} queued` : ''}
+              </span>
+            </div>
+          )}
           {isRecording && (
             <>
               <div className={`flex items-center gap-2 px-3 py-1 rounded-full border ${gpsStatus === 'active' ? 'bg-emerald-500/10 border-emerald-500/20' :
@@ -257,32 +809,121 @@ const App: React.FC = () => {
                   gpsStatus === 'searching' ? 'text-yellow-500' :
                     'text-red-500'
                   }`}>
-                  {gpsStatus === 'active' ? 'GPS Lock' :
+                  {gpsStatus === 'active' ? (settings.locationSource === 'simulator' ? 'Sim Lock' : 'GPS Lock') :
                     gpsStatus === 'searching' ? 'Searching GPS' :
                       gpsStatus === 'denied' ? 'GPS Denied' : 'GPS Error'}
                 </span>
               </div>
-              <div className="flex items-center gap-2 px-3 py-1 bg-red-500/10 border border-red-500/20 rounded-full">
-                <span className="w-2 h-2 bg-red-500 rounded-full animate-pulse"></span>
-                <span className="text-xs font-bold text-red-500 uppercase tracking-tighter">Live</span>
-              </div>
+              {pauseState === 'running' ? (
+                <div className="flex items-center gap-2 px-3 py-1 bg-red-500/10 border border-red-500/20 rounded-full">
+                  <span className="w-2 h-2 bg-red-500 rounded-full animate-pulse"></span>
+                  <span className="text-xs font-bold text-red-500 uppercase tracking-tighter">Live</span>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2 px-3 py-1 bg-yellow-500/10 border border-yellow-500/20 rounded-full">
+                  <Pause className="w-3 h-3 text-yellow-500" />
+                  <span className="text-xs font-bold text-yellow-500 uppercase tracking-tighter">{pauseState === 'paused' ? 'Paused' : 'Auto-Paused'}</span>
+                </div>
+              )}
             </>
           )}
-          <button className="w-10 h-10 rounded-full glass flex items-center justify-center text-slate-400 hover:text-white transition-colors">
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".gpx,.tcx,.fit"
+            className="hidden"
+            onChange={handleImportFile}
+          />
+          <button
+            onClick={() => importInputRef.current?.click()}
+            disabled={isRecording || isImporting}
+            aria-label="Import ride file"
+            title="Import GPX, TCX or FIT"
+            className="w-10 h-10 rounded-full glass flex items-center justify-center text-slate-400 hover:text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isImporting ? <RefreshCw className="w-5 h-5 animate-spin" /> : <Upload className="w-5 h-5" />}
+          </button>
+          <button
+            onClick={() => setShowCourse((v) => !v)}
+            aria-label="Course"
+            className={`w-10 h-10 rounded-full glass flex items-center justify-center transition-colors ${showCourse || course ? 'text-neon' : 'text-slate-400 hover:text-white'}`}
+          >
+            <Route className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => setShowGhost((v) => !v)}
+            aria-label="Ghost"
+            className={`w-10 h-10 rounded-full glass flex items-center justify-center transition-colors ${showGhost || ghost ? 'text-neon' : 'text-slate-400 hover:text-white'}`}
+          >
+            <Ghost className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => setShowSegments((v) => !v)}
+            aria-label="Segments"
+            className={`w-10 h-10 rounded-full glass flex items-center justify-center transition-colors ${showSegments ? 'text-neon' : 'text-slate-400 hover:text-white'}`}
+          >
+            <Timer className="w-5 h-5" />
+          </button>
+          {settings.cues.enabled && (
+            <button
+              onClick={() => updateSettings({ ...settings, cues: { ...settings.cues, quiet: !settings.cues.quiet } })}
+              aria-label={settings.cues.quiet ? 'Turn voice cues on' : 'Quiet mode'}
+              title={settings.cues.quiet ? 'Vibration only' : 'Voice and vibration'}
+              className={`w-10 h-10 rounded-full glass flex items-center justify-center transition-colors ${settings.cues.quiet ? 'text-slate-400 hover:text-white' : 'text-neon'}`}
+            >
+              {settings.cues.quiet ? <VolumeX className="w-5 h-5" /> : <Volume2 className="w-5 h-5" />}
+            </button>
+          )}
+          <button
+            onClick={() => setShowSettings((v) => !v)}
+            aria-label="Settings"
+            className={`w-10 h-10 rounded-full glass flex items-center justify-center transition-colors ${showSettings ? 'text-neon' : 'text-slate-400 hover:text-white'}`}
+          >
+            <Settings className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => setShowHistory((v) => !v)}
+            aria-label="Ride history"
+            className={`w-10 h-10 rounded-full glass flex items-center justify-center transition-colors ${showHistory ? 'text-neon' : 'text-slate-400 hover:text-white'}`}
+          >
             <Activity className="w-5 h-5" />
           </button>
+          <button
+            onClick={() => setShowTrends((v) => !v)}
+            aria-label="Training trends"
+            className={`w-10 h-10 rounded-full glass flex items-center justify-center transition-colors ${showTrends ? 'text-neon' : 'text-slate-400 hover:text-white'}`}
+          >
+            <ChartColumn className="w-5 h-5" />
+          </button>
         </div>
       </header>
 
       <section className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         <div className="lg:col-span-2 space-y-6">
           <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
-            <StatsCard label="Speed" value={currentSpeedKmH} unit="km/h" icon={<TrendingUp className="w-3 h-3" />} />
-            <StatsCard label="Distance" value={(stats.totalDistance / 1000).toFixed(2)} unit="km" icon={<Navigation className="w-3 h-3" />} />
-            <StatsCard label="Time" value={formatDuration(stats.duration)} icon={<Clock className="w-3 h-3" />} />
-            <StatsCard label="Avg Spd" value={avgSpeedKmH} unit="km/h" icon={<Activity className="w-3 h-3" />} />
+            <StatsCard label={pace ? 'Pace' : 'Speed'} value={currentSpeed.value} unit={currentSpeed.unit} icon={<TrendingUp className="w-3 h-3" />} />
+            <StatsCard label="Distance" value={distance.value} unit={distance.unit} icon={<Navigation className="w-3 h-3" />} />
+            <StatsCard label="Moving" value={format.duration(stats.movingTime)} icon={<Clock className="w-3 h-3" />} />
+            <StatsCard label={pace ? 'Avg Pace' : 'Avg Spd'} value={avgSpeed.value} unit={avgSpeed.unit} icon={<Activity className="w-3 h-3" />} />
           </div>
 
+          {/* Estimated from speed, gradient and the rider profile */}
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+            <StatsCard label="Avg Power" value={format.number(stats.avgPower)} unit="W" icon={<Zap className="w-3 h-3" />} />
+            <StatsCard label="NP" value={format.number(stats.normalizedPower)} unit="W" icon={<Gauge className="w-3 h-3" />} />
+            <StatsCard label="Work" value={format.number(stats.work)} unit="kJ" icon={<Zap className="w-3 h-3" />} />
+            <StatsCard label="Calories" value={format.number(stats.calories)} unit="kcal" icon={<Flame className="w-3 h-3" />} />
+            <StatsCard label="IF" value={format.number(stats.intensityFactor, 2)} icon={<Gauge className="w-3 h-3" />} />
+            <StatsCard label="Load" value={format.number(stats.trainingLoad)} unit="TSS" icon={<Dumbbell className="w-3 h-3" />} />
+          </div>
+
+          {!isRecording && route.length > 1 && (
+            <div className="flex flex-wrap items-center gap-x-6 gap-y-3">
+              <ExportButtons ride={{ name: activeRide?.name ?? 'VeloAI Ride', route, stats }} />
+              <ShareButtons ride={{ name: activeRide?.name ?? 'VeloAI Ride', title: aiInsight?.title ?? null, route, stats }} format={format} />
+            </div>
+          )}
+
           {isRecording && gpsStatus === 'searching' && (
             <div className="p-4 bg-yellow-500/10 border border-yellow-500/20 rounded-2xl flex items-center gap-3 animate-in fade-in slide-in-from-top-2">
               <div className="w-8 h-8 rounded-full bg-yellow-500/20 flex items-center justify-center flex-shrink-0">
@@ -295,21 +936,142 @@ const App: React.FC = () => {
             </div>
           )}
 
-          <RouteVisualizer route={route} />
+          {isRecording && courseProgress?.offCourse && (
+            <div className="p-4 bg-red-500/10 border border-red-500/30 rounded-2xl flex items-center gap-3 animate-in fade-in slide-in-from-top-2">
+              <div className="w-8 h-8 rounded-full bg-red-500/20 flex items-center justify-center flex-shrink-0">
+                <TriangleAlert className="w-4 h-4 text-red-500 animate-pulse" />
+              </div>
+              <p className="text-xs text-red-200/80 leading-tight">
+                <span className="font-bold text-red-500 block mb-0.5 uppercase tracking-tighter">Off Course</span>
+                You are {withUnit(format.shortDistance(courseProgress.offset))} from the planned route.
+              </p>
+            </div>
+          )}
+
+          {!isRecording && interruptedRide && (
+            <div className="p-4 bg-yellow-500/10 border border-yellow-500/20 rounded-2xl space-y-3">
+              <p className="text-xs text-yellow-200/80 leading-tight">
+                <span className="font-bold text-yellow-500 block mb-0.5 uppercase tracking-tighter">Interrupted Ride Found</span>
+                {withUnit(format.distance(interruptedRide.stats.totalDistance))} in {format.duration(interruptedRide.stats.duration)}, last saved {format.time(interruptedRide.updatedAt)}. The time since then won't count as riding time.
+              </p>
+              <div className="flex gap-2">
+                <button
+                  onClick={resumeRecording}
+                  className="flex-1 py-2 rounded-xl bg-neon text-slate-950 text-xs font-bold uppercase tracking-wider flex items-center justify-center gap-2 hover:scale-[1.02] active:scale-95 transition-all"
+                >
+                  <Play className="w-3 h-3 fill-current" /> Resume
+                </button>
+                <button
+                  onClick={discardInterruptedRide}
+                  className="flex-1 py-2 rounded-xl bg-slate-900 text-slate-300 text-xs font-bold uppercase tracking-wider border border-slate-800 hover:bg-slate-800 transition-colors"
+                >
+                  Discard
+                </button>
+              </div>
+            </div>
+          )}
+
+          {!isRecording && activeRide && (
+            <div className="p-4 glass rounded-2xl border border-slate-700/50 flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <span className="text-[10px] font-bold text-slate-500 uppercase tracking-tighter block">Saved Ride</span>
+                <span className="text-sm font-bold text-white truncate block">{activeRide.name}</span>
+              </div>
+              <button onClick={closeRide} aria-label="Close ride" className="p-2 text-slate-500 hover:text-white transition-colors">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+
+          <RouteVisualizer route={route} highlightIndex={highlightIndex} course={(course ?? ghost)?.route} ghost={ghostPosition} pins={aiInsight?.notes} places={nearbyPlaces} />
+
+          {route.length > 1 && (
+            <div className="glass p-6 rounded-3xl border border-slate-700/50 space-y-4">
+              <h3 className="text-sm font-bold text-slate-400 uppercase tracking-widest flex items-center gap-2">
+                <Mountain className="w-4 h-4 text-neon" /> Profile
+              </h3>
+              <ProfileChart route={route} distances={routeDistances} metric="elevation" highlightIndex={highlightIndex} onHighlight={setHighlightIndex} format={format} />
+              <ProfileChart route={route} distances={routeDistances} metric="speed" highlightIndex={highlightIndex} onHighlight={setHighlightIndex} format={format} />
+            </div>
+          )}
+
+          {!isRecording && route.length > 1 && (
+            <SplitsTable route={route} unit={settings.splitUnit} elevationThreshold={settings.trackFilter.elevationThreshold} format={format} />
+          )}
+
+          {!isRecording && activeRide && <SegmentEfforts rideId={activeRide.id} refreshKey={segmentVersion} format={format} />}
         </div>
 
         <div className="space-y-6">
+          {showSettings && <SettingsPanel settings={settings} onChange={updateSettings} />}
+
+          {(showCourse || course) && (
+            <CoursePanel course={course} progress={courseProgress} eta={courseEta} onChange={setCourse} format={format} />
+          )}
+
+          {(showGhost || ghost || ghostComparison) && (
+            <GhostPanel ghost={ghost} status={ghostStatus} comparison={ghostComparison} disabled={isRecording} onChange={setGhost} format={format} />
+          )}
+
+          {showSegments && (
+            <SegmentsPanel
+              ride={isRecording ? null : activeRide}
+              refreshKey={segmentVersion}
+              disabled={isRecording}
+              onHighlight={setHighlightIndex}
+              onChanged={() => setSegmentVersion((v) => v + 1)}
+              format={format}
+            />
+          )}
+
+          {showHistory && (
+            <RideHistory
+              activeRideId={activeRide?.id ?? null}
+              refreshKey={historyVersion}
+              disabled={isRecording}
+              onOpen={openRide}
+              onAnalyze={handleReanalyzeRide}
+              onChanged={handleRideChanged}
+              onDeleted={handleRideDeleted}
+              format={format}
+            />
+          )}
+
+          {showTrends && <TrendsPanel refreshKey={historyVersion} profile={settings.profile} onQueue={handleQueueReview} format={format} />}
+
           <div className="glass p-6 rounded-3xl border border-slate-700/50">
-            <h3 className="text-sm font-bold text-slate-400 uppercase tracking-widest mb-6 flex items-center gap-2">
-              <Cpu className="w-4 h-4 text-neon" /> AI Assistant
-            </h3>
+            <div className="flex items-center justify-between mb-6">
+              <h3 className="text-sm font-bold text-slate-400 uppercase tracking-widest flex items-center gap-2">
+                <Cpu className="w-4 h-4 text-neon" /> AI Assistant
+              </h3>
+              <div className="flex gap-1">
+                {(['insights', 'coach'] as const).map((v) => (
+                  <button
+                    key={v}
+                    onClick={() => setAiView(v)}
+                    className={`px-3 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wider border transition-colors ${aiView === v ? 'bg-neon/10 border-neon/30 text-neon' : 'bg-slate-900 border-slate-800 text-slate-400 hover:text-white'}`}
+                  >
+                    {v}
+                  </button>
+                ))}
+              </div>
+            </div>
 
-            {aiInsight ? (
+            {aiView === 'coach' ? (
+              <CoachChat
+                messages={coachChat}
+                draft={coachDraft}
+                disabled={isRecording || route.length < 5}
+                onAsk={askCoach}
+                onStop={handleStopCoach}
+              />
+            ) : aiInsight ? (
               <div className="space-y-4 animate-in fade-in slide-in-from-bottom-2 duration-500">
                 <div className="p-3 bg-neon/10 rounded-xl border border-neon/20">
                   <h4 className="text-lime-400 font-bold text-lg mb-1">{aiInsight.title}</h4>
                   <p className="text-slate-300 text-xs leading-relaxed">{aiInsight.summary}</p>
                 </div>
+                <InsightBreakdown insight={aiInsight} format={format} onSelectNote={handleSelectNote} />
                 <div className="space-y-2">
                   {aiInsight.recommendations.map((rec, i) => (
                     <div key={i} className="flex gap-3 p-2 rounded-lg bg-slate-900/50 border border-slate-800">
@@ -319,10 +1081,10 @@ const App: React.FC = () => {
                   ))}
                 </div>
                 <button
-                  onClick={handleGetAIAnalysis}
+                  onClick={isLoadingAI ? handleCancelAnalysis : handleGetAIAnalysis}
                   className="w-full py-3 rounded-xl glass border border-slate-700 text-xs font-bold uppercase tracking-wider flex items-center justify-center gap-2 hover:bg-slate-800 transition-colors"
                 >
-                  <RefreshCw className={`w-3 h-3 ${isLoadingAI ? 'animate-spin' : ''}`} /> Refresh Analysis
+                  <RefreshCw className={`w-3 h-3 ${isLoadingAI ? 'animate-spin' : ''}`} /> {isLoadingAI ? 'Cancel' : 'Refresh Analysis'}
                 </button>
               </div>
             ) : (
@@ -332,52 +1094,36 @@ const App: React.FC = () => {
                 </div>
                 <p className="text-slate-500 text-xs px-4 mb-6">Complete your ride to generate a professional AI analysis of your performance.</p>
                 <button
-                  disabled={isRecording || route.length < 5 || isLoadingAI}
-                  onClick={handleGetAIAnalysis}
+                  disabled={!isLoadingAI && (isRecording || route.length < 5)}
+                  onClick={isLoadingAI ? handleCancelAnalysis : handleGetAIAnalysis}
                   className="w-full py-4 rounded-2xl bg-white text-slate-950 font-bold text-sm hover:bg-neon transition-all shadow-[0_0_30px_rgba(255,255,255,0.1)] disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
                 >
                   {isLoadingAI ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Cpu className="w-4 h-4" />}
-                  {isLoadingAI ? 'Processing...' : 'Analyze My Ride'}
+                  {isLoadingAI ? 'Processing... Tap to cancel' : 'Analyze My Ride'}
                 </button>
               </div>
             )}
           </div>
 
-          <div className="glass p-6 rounded-3xl border border-slate-700/50">
-            <h3 className="text-sm font-bold text-slate-400 uppercase tracking-widest mb-4 flex items-center gap-2">
-              <Search className="w-4 h-4 text-blue-400" /> Nearby Stops
-            </h3>
-            {nearbyStops ? (
-              <div className="space-y-3">
-                <p className="text-xs text-slate-400 leading-relaxed italic">"{nearbyStops.text.slice(0, 100)}..."</p>
-                <div className="space-y-2">
-                  {nearbyStops.links.slice(0, 3).map((link, i) => (
-                    <a key={i} href={link.uri} target="_blank" rel="noopener noreferrer" className="block p-3 bg-slate-900 rounded-xl border border-slate-800 hover:border-blue-500/50 transition-all flex items-center justify-between group">
-                      <span className="text-xs font-medium text-slate-200">{link.title}</span>
-                      <ChevronRight className="w-3 h-3 text-slate-600 group-hover:text-blue-400 transform group-hover:translate-x-1 transition-all" />
-                    </a>
-                  ))}
-                </div>
-              </div>
-            ) : (
-              <button
-                onClick={handleFindNearby}
-                disabled={route.length === 0 || isLoadingStops}
-                className="w-full py-3 rounded-xl bg-slate-900 text-slate-300 text-xs font-bold border border-slate-800 hover:bg-slate-800 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
-              >
-                {isLoadingStops ? <RefreshCw className="w-3 h-3 animate-spin" /> : <Search className="w-3 h-3" />}
-                Locate Points of Interest
-              </button>
-            )}
-          </div>
+          <NearbyStopsPanel
+            stops={nearbyStops}
+            isLoading={isLoadingStops}
+            canSearch={route.length > 0}
+            canSearchAhead={course !== null && courseProgress !== null && !courseProgress.offCourse}
+            onSearch={handleFindNearby}
+            onCancel={handleCancelNearby}
+            format={format}
+          />
         </div>
       </section>
 
       <div className="fixed bottom-8 left-1/2 -translate-x-1/2 w-[90%] max-w-md">
         <div className="glass p-4 rounded-full border border-white/10 shadow-2xl flex items-center gap-4 justify-between">
           <div className="flex-1 flex flex-col pl-4">
-            <span className="text-[10px] font-bold text-slate-500 uppercase tracking-tighter">Current Trip</span>
-            <span className="text-lg font-bold text-white tabular-nums">{formatDuration(stats.duration)}</span>
+            <span className="text-[10px] font-bold text-slate-500 uppercase tracking-tighter">
+              {isRecording && lapCount > 0 ? `Lap ${lapCount + 1}` : 'Current Trip'}
+            </span>
+            <span className="text-lg font-bold text-white tabular-nums">{format.duration(stats.duration)}</span>
           </div>
 
           <div className="flex gap-2">
@@ -389,18 +1135,36 @@ const App: React.FC = () => {
                 <Play className="w-6 h-6 fill-current" />
               </button>
             ) : (
-              <button
-                onClick={stopRecording}
-                className="w-14 h-14 rounded-full bg-red-500 flex items-center justify-center text-white shadow-[0_0_20px_rgba(239,68,68,0.4)] hover:scale-105 active:scale-95 transition-all"
-              >
-                <Square className="w-6 h-6 fill-current" />
-              </button>
+              <>
+                <button
+                  onClick={togglePause}
+                  aria-label={pauseState === 'paused' ? 'Resume ride' : 'Pause ride'}
+                  className="w-14 h-14 rounded-full bg-slate-800 border border-slate-700 flex items-center justify-center text-white hover:scale-105 active:scale-95 transition-all"
+                >
+                  {pauseState === 'paused' ? <Play className="w-6 h-6 fill-current" /> : <Pause className="w-6 h-6 fill-current" />}
+                </button>
+                <button
+                  onClick={markLap}
+                  disabled={pauseState === 'paused' || route.length === 0}
+                  aria-label="Lap"
+                  className="w-14 h-14 rounded-full bg-slate-800 border border-slate-700 flex items-center justify-center text-white hover:scale-105 active:scale-95 transition-all disabled:opacity-50 disabled:hover:scale-100"
+                >
+                  <Flag className="w-6 h-6" />
+                </button>
+                <button
+                  onClick={stopRecording}
+                  aria-label="Finish ride"
+                  className="w-14 h-14 rounded-full bg-red-500 flex items-center justify-center text-white shadow-[0_0_20px_rgba(239,68,68,0.4)] hover:scale-105 active:scale-95 transition-all"
+                >
+                  <Square className="w-6 h-6 fill-current" />
+                </button>
+              </>
             )}
           </div>
 
           <div className="flex-1 flex flex-col items-end pr-4">
             <span className="text-[10px] font-bold text-slate-500 uppercase tracking-tighter">Distance</span>
-            <span className="text-lg font-bold text-white tabular-nums">{(stats.totalDistance / 1000).toFixed(2)}<span className="text-xs text-slate-500 ml-1">km</span></span>
+            <span className="text-lg font-bold text-white tabular-nums">{distance.value}<span className="text-xs text-slate-500 ml-1">{distance.unit}</span></span>
           </div>
         </div>
       </div>
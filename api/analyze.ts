@@ -0,0 +1,4 @@
+
+import { handleAnalyze } from "../server/routes";
+
+export const POST = (request: Request) => handleAnalyze(request);
@@ -0,0 +1,4 @@
+
+import { handleChat } from "../server/routes";
+
+export const POST = (request: Request) => handleChat(request);
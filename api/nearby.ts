@@ -0,0 +1,4 @@
+
+import { handleNearby } from "../server/routes";
+
+export const POST = (request: Request) => handleNearby(request);
@@ -0,0 +1,4 @@
+
+import { handleReview } from "../server/routes";
+
+export const POST = (request: Request) => handleReview(request);
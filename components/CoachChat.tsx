@@ -0,0 +1,110 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { CircleStop, Send } from 'lucide-react';
+import { ChatMessage } from '../types';
+
+interface Props {
+  messages: ChatMessage[];
+  draft: string | null; // the coach's reply as it streams in; null when idle
+  disabled: boolean;
+  onAsk: (question: string) => void;
+  onStop: () => void;
+}
+
+const SUGGESTIONS = [
+  'Why was my second half slower?',
+  'How did I pace the climbs?',
+  'What should I work on next?',
+];
+
+const CoachChat: React.FC<Props> = ({ messages, draft, disabled, onAsk, onStop }) => {
+  const [question, setQuestion] = useState('');
+  const endRef = useRef<HTMLDivElement>(null);
+  const replying = draft !== null;
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [messages, draft]);
+
+  const ask = (text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed || disabled || replying) return;
+    onAsk(trimmed);
+    setQuestion('');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    ask(question);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="max-h-80 overflow-y-auto space-y-2 pr-1">
+        {messages.length === 0 && !replying && (
+          <div className="space-y-2">
+            <p className="text-slate-500 text-xs">Ask the coach anything about this ride.</p>
+            {SUGGESTIONS.map((suggestion) => (
+              <button
+                key={suggestion}
+                onClick={() => ask(suggestion)}
+                disabled={disabled}
+                className="block w-full text-left p-2 rounded-lg bg-slate-900/50 border border-slate-800 text-xs text-slate-400 hover:text-white hover:border-neon/30 transition-colors disabled:opacity-50"
+              >
+                {suggestion}
+              </button>
+            ))}
+          </div>
+        )}
+        {messages.map((message, i) => (
+          <div key={i} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+            <p
+              className={`max-w-[85%] px-3 py-2 rounded-xl text-xs leading-relaxed whitespace-pre-wrap ${message.role === 'user' ? 'bg-neon/10 border border-neon/20 text-slate-200' : 'bg-slate-900/50 border border-slate-800 text-slate-400'}`}
+            >
+              {message.text}
+            </p>
+          </div>
+        ))}
+        {replying && (
+          <div className="flex justify-start">
+            <p className="max-w-[85%] px-3 py-2 rounded-xl text-xs leading-relaxed whitespace-pre-wrap bg-slate-900/50 border border-slate-800 text-slate-400">
+              {draft || <span className="animate-pulse">Thinking...</span>}
+            </p>
+          </div>
+        )}
+        <div ref={endRef} />
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          disabled={disabled}
+          placeholder={disabled ? 'Finish the ride to chat with the coach' : 'Ask a follow-up question...'}
+          className="flex-1 min-w-0 bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-xs text-white focus:outline-none focus:border-lime-500 disabled:opacity-50"
+        />
+        {replying ? (
+          <button
+            type="button"
+            onClick={onStop}
+            aria-label="Stop reply"
+            className="px-3 rounded-lg bg-slate-900 border border-slate-800 text-slate-300 hover:text-white transition-colors"
+          >
+            <CircleStop className="w-4 h-4" />
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={disabled || !question.trim()}
+            aria-label="Send"
+            className="px-3 rounded-lg bg-white text-slate-950 hover:bg-neon transition-colors disabled:opacity-50"
+          >
+            <Send className="w-4 h-4" />
+          </button>
+        )}
+      </form>
+    </div>
+  );
+};
+
+export default CoachChat;
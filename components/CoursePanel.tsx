@@ -0,0 +1,137 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Route, Upload, X, Mountain } from 'lucide-react';
+import { SavedRide } from '../types';
+import { CourseProgress, CourseTrack, prepareCourse } from '../utils/course';
+import { importRideFile } from '../utils/rideImport';
+import { Formatter, withUnit } from '../utils/format';
+import { listRides } from '../services/rideRepository';
+
+interface Props {
+  course: CourseTrack | null;
+  progress: CourseProgress | null;
+  eta: number | null; // timestamp
+  onChange: (course: CourseTrack | null) => void;
+  format: Formatter;
+}
+
+const CoursePanel: React.FC<Props> = ({ course, progress, eta, onChange, format }) => {
+  const [rides, setRides] = useState<SavedRide[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (course) return;
+    listRides()
+      .then(setRides)
+      .catch((err) => console.error('Failed to load rides for courses:', err));
+  }, [course]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsLoading(true);
+    try {
+      const track = await importRideFile(file);
+      onChange(prepareCourse(track.name ?? file.name.replace(/\.[^.]+$/, ''), track.route));
+    } catch (err) {
+      console.error(err);
+      alert(err instanceof Error ? err.message : "Failed to load course.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const selectRide = (id: string) => {
+    const ride = rides.find((r) => r.id === id);
+    if (ride) onChange(prepareCourse(ride.name, ride.route));
+  };
+
+  return (
+    <div className="glass p-6 rounded-3xl border border-slate-700/50">
+      <h3 className="text-sm font-bold text-slate-400 uppercase tracking-widest mb-4 flex items-center gap-2">
+        <Route className="w-4 h-4 text-neon" /> Course
+      </h3>
+
+      {course ? (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-3">
+            <div className="min-w-0">
+              <span className="text-sm font-bold text-white truncate block">{course.name}</span>
+              <span className="text-[10px] font-bold text-slate-500 uppercase tracking-tighter">
+                {withUnit(format.distance(course.length, 1))} · {course.climbs.length} {course.climbs.length === 1 ? 'climb' : 'climbs'}
+              </span>
+            </div>
+            <button
+              onClick={() => onChange(null)}
+              aria-label="Clear course"
+              className="p-2 text-slate-500 hover:text-white transition-colors"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          {progress && (
+            <>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="p-3 bg-slate-900/50 rounded-xl border border-slate-800">
+                  <span className="text-[10px] font-bold text-slate-500 uppercase tracking-tighter block">Remaining</span>
+                  <span className="text-lg font-bold text-white tabular-nums">{format.distance(progress.remaining, 1).value}<span className="text-xs text-slate-500 ml-1">{format.distanceUnit}</span></span>
+                </div>
+                <div className="p-3 bg-slate-900/50 rounded-xl border border-slate-800">
+                  <span className="text-[10px] font-bold text-slate-500 uppercase tracking-tighter block">ETA</span>
+                  <span className="text-lg font-bold text-white tabular-nums">
+                    {eta ? format.time(eta) : '--:--'}
+                  </span>
+                </div>
+              </div>
+
+              {progress.nextClimb && (
+                <div className="flex gap-3 p-3 rounded-xl bg-slate-900/50 border border-slate-800">
+                  <Mountain className="w-4 h-4 text-orange-400 flex-shrink-0 mt-0.5" />
+                  <p className="text-xs text-slate-400 leading-tight">
+                    <span className="font-bold text-slate-200 block mb-0.5">
+                      {progress.nextClimb.distanceTo > 0
+                        ? `Climb in ${withUnit(format.distance(progress.nextClimb.distanceTo, 1))}`
+                        : `On climb · ${withUnit(format.distance(progress.nextClimb.end - progress.distanceAlong, 1))} to the top`}
+                    </span>
+                    {withUnit(format.distance(progress.nextClimb.end - progress.nextClimb.start, 1))} at {format.number(progress.nextClimb.grade, 1)}%, +{withUnit(format.elevation(progress.nextClimb.gain))}
+                  </p>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <input ref={fileInputRef} type="file" accept=".gpx,.tcx,.fit" className="hidden" onChange={handleFile} />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isLoading}
+            className="w-full py-3 rounded-xl bg-slate-900 text-slate-300 text-xs font-bold border border-slate-800 hover:bg-slate-800 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+          >
+            <Upload className="w-3 h-3" /> Load Course File
+          </button>
+          {rides.length > 0 && (
+            <label className="block">
+              <span className="text-[10px] font-bold text-slate-500 uppercase tracking-tighter">Or follow a saved ride</span>
+              <select
+                value=""
+                onChange={(e) => selectRide(e.target.value)}
+                className="mt-1 w-full bg-slate-950 border border-slate-700 rounded-lg px-2 py-1 text-xs text-white focus:outline-none focus:border-lime-500"
+              >
+                <option value="" disabled>Choose a ride…</option>
+                {rides.map((ride) => (
+                  <option key={ride.id} value={ride.id}>{ride.name}</option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CoursePanel;
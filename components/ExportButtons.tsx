@@ -0,0 +1,41 @@
+
+import React from 'react';
+import { Download } from 'lucide-react';
+import { ExportableRide, ExportFormat, exportRide, exportFileName } from '../utils/rideExport';
+import { downloadBlob } from '../utils/download';
+
+interface Props {
+  ride: ExportableRide;
+}
+
+const FORMATS: ExportFormat[] = ['gpx', 'tcx', 'fit'];
+
+const ExportButtons: React.FC<Props> = ({ ride }) => {
+  const handleExport = (format: ExportFormat) => {
+    try {
+      downloadBlob(exportRide(ride, format), exportFileName(ride, format));
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to export ride as ${format.toUpperCase()}.`);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-[10px] font-bold text-slate-500 uppercase tracking-tighter flex items-center gap-1 mr-1">
+        <Download className="w-3 h-3" /> Export
+      </span>
+      {FORMATS.map((format) => (
+        <button
+          key={format}
+          onClick={() => handleExport(format)}
+          className="px-3 py-1.5 rounded-lg bg-slate-900 border border-slate-800 text-[10px] font-bold uppercase tracking-wider text-slate-300 hover:border-lime-500/50 hover:text-white transition-colors"
+        >
+          {format}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default ExportButtons;
@@ -0,0 +1,123 @@
+
+import React, { useEffect, useState } from 'react';
+import { Ghost, X } from 'lucide-react';
+import { GhostComparison, SavedRide } from '../types';
+import { GhostStatus, GhostTrack, formatGap, prepareGhost } from '../utils/ghost';
+import { Formatter, withUnit } from '../utils/format';
+import { listRides } from '../services/rideRepository';
+
+interface Props {
+  ghost: GhostTrack | null;
+  status: GhostStatus | null;
+  comparison: GhostComparison | null; // result of the last race, shown once the ride is over
+  disabled: boolean; // no switching ghosts mid-ride
+  onChange: (ghost: GhostTrack | null) => void;
+  format: Formatter;
+}
+
+const GhostPanel: React.FC<Props> = ({ ghost, status, comparison, disabled, onChange, format }) => {
+  const [rides, setRides] = useState<SavedRide[]>([]);
+
+  useEffect(() => {
+    if (ghost) return;
+    listRides()
+      .then(setRides)
+      .catch((err) => console.error('Failed to load rides for ghosts:', err));
+  }, [ghost]);
+
+  const selectRide = (id: string) => {
+    const ride = rides.find((r) => r.id === id);
+    if (!ride) return;
+    const track = prepareGhost(ride);
+    if (!track) {
+      alert("That ride has no timing data to race against.");
+      return;
+    }
+    onChange(track);
+  };
+
+  const behind = status ? status.timeGap > 0 : false;
+  const gap = format.shortDistance(status ? Math.abs(status.distanceGap) : 0);
+  const result = comparison ? comparison.riderTime - comparison.ghostTime : 0;
+
+  return (
+    <div className="glass p-6 rounded-3xl border border-slate-700/50">
+      <h3 className="text-sm font-bold text-slate-400 uppercase tracking-widest mb-4 flex items-center gap-2">
+        <Ghost className="w-4 h-4 text-neon" /> Ghost
+      </h3>
+
+      <div className="space-y-4">
+        {ghost ? (
+          <div className="flex items-center justify-between gap-3">
+            <div className="min-w-0">
+              <span className="text-sm font-bold text-white truncate block">{ghost.name}</span>
+              <span className="text-[10px] font-bold text-slate-500 uppercase tracking-tighter">
+                {withUnit(format.distance(ghost.length, 1))} in {format.duration(Math.round(ghost.elapsed[ghost.elapsed.length - 1]))}
+              </span>
+            </div>
+            <button
+              onClick={() => onChange(null)}
+              disabled={disabled}
+              aria-label="Clear ghost"
+              className="p-2 text-slate-500 hover:text-white transition-colors disabled:opacity-50"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        ) : rides.length > 0 ? (
+          <label className="block">
+            <span className="text-[10px] font-bold text-slate-500 uppercase tracking-tighter">Race a saved or imported ride</span>
+            <select
+              value=""
+              disabled={disabled}
+              onChange={(e) => selectRide(e.target.value)}
+              className="mt-1 w-full bg-slate-950 border border-slate-700 rounded-lg px-2 py-1 text-xs text-white focus:outline-none focus:border-lime-500 disabled:opacity-50"
+            >
+              <option value="" disabled>Choose a ride…</option>
+              {rides.map((ride) => (
+                <option key={ride.id} value={ride.id}>{ride.name}</option>
+              ))}
+            </select>
+          </label>
+        ) : (
+          <p className="text-xs text-slate-500">Record or import a ride to race against it next time.</p>
+        )}
+
+        {status && (
+          status.onRoute ? (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="p-3 bg-slate-900/50 rounded-xl border border-slate-800">
+                <span className="text-[10px] font-bold text-slate-500 uppercase tracking-tighter block">Time Gap</span>
+                <span className={`text-lg font-bold tabular-nums ${behind ? 'text-red-400' : 'text-lime-400'}`}>{formatGap(status.timeGap)}</span>
+              </div>
+              <div className="p-3 bg-slate-900/50 rounded-xl border border-slate-800">
+                <span className="text-[10px] font-bold text-slate-500 uppercase tracking-tighter block">{status.distanceGap > 0 ? 'Ghost Ahead' : 'Ghost Behind'}</span>
+                <span className="text-lg font-bold text-white tabular-nums">{gap.value}<span className="text-xs text-slate-500 ml-1">{gap.unit}</span></span>
+              </div>
+            </div>
+          ) : (
+            <p className="text-xs text-slate-500">Off the ghost's route; the gap resumes when you rejoin it.</p>
+          )
+        )}
+
+        {comparison && !status && (
+          <div className="p-3 bg-slate-900/50 rounded-xl border border-slate-800 space-y-2">
+            <span className="text-[10px] font-bold text-slate-500 uppercase tracking-tighter block">vs {comparison.ghostName}</span>
+            <p className="text-sm font-bold text-white">
+              {Math.abs(result) < 0.5 ? 'Dead heat' : `${format.duration(Math.round(Math.abs(result)))} ${result < 0 ? 'faster' : 'slower'}`}
+              <span className="text-xs text-slate-500 font-medium"> over {withUnit(format.distance(comparison.distance, 1))}</span>
+            </p>
+            <div className="grid grid-cols-2 gap-2 text-xs text-slate-400 tabular-nums">
+              <span>This ride {format.duration(Math.round(comparison.riderTime))}</span>
+              <span>Ghost {format.duration(Math.round(comparison.ghostTime))}</span>
+              <span>Best lead {format.duration(Math.round(comparison.maxLead))}</span>
+              <span>Worst deficit {format.duration(Math.round(comparison.maxDeficit))}</span>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GhostPanel;
@@ -0,0 +1,61 @@
+
+import React from 'react';
+import { MapPin } from 'lucide-react';
+import { AIInsight, InsightNote } from '../types';
+import { Formatter, withUnit } from '../utils/format';
+import { INSIGHT_DIMENSIONS } from '../server/contract';
+
+interface Props {
+  insight: AIInsight;
+  format: Formatter;
+  onSelectNote: (note: InsightNote) => void; // highlights the spot on the map and profile
+}
+
+// Per-dimension scores and place-specific notes; analyses saved before
+// these existed simply render nothing here
+const InsightBreakdown: React.FC<Props> = ({ insight, format, onSelectNote }) => {
+  const { scores, notes = [] } = insight;
+  if (!scores && notes.length === 0) return null;
+
+  return (
+    <div className="space-y-4">
+      {scores && (
+        <div className="grid grid-cols-2 gap-x-4 gap-y-2">
+          {INSIGHT_DIMENSIONS.map((dimension) => (
+            <div key={dimension}>
+              <div className="flex items-center justify-between">
+                <span className="text-[10px] font-bold text-slate-500 uppercase tracking-tighter">{dimension}</span>
+                <span className="text-[10px] font-bold text-slate-300">{scores[dimension]}/10</span>
+              </div>
+              <div className="mt-1 h-1.5 rounded-full bg-slate-800 overflow-hidden">
+                <div className="h-full rounded-full bg-neon" style={{ width: `${scores[dimension] * 10}%` }} />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {notes.length > 0 && (
+        <div className="space-y-2">
+          {notes.map((note, i) => (
+            <button
+              key={`${note.ref}-${i}`}
+              onClick={() => onSelectNote(note)}
+              className="w-full text-left flex gap-3 p-2 rounded-lg bg-slate-900/50 border border-slate-800 hover:border-amber-500/50 transition-colors"
+            >
+              <div className="flex-shrink-0 w-5 h-5 bg-amber-500/20 rounded flex items-center justify-center text-[10px] font-bold text-amber-400">{i + 1}</div>
+              <div className="min-w-0">
+                <span className="text-[10px] font-bold text-slate-500 uppercase tracking-tighter flex items-center gap-1">
+                  <MapPin className="w-3 h-3" /> {note.label} · {withUnit(format.distance(note.distance, 1))}
+                </span>
+                <p className="text-xs text-slate-400 leading-tight">{note.text}</p>
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InsightBreakdown;
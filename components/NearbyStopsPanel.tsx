@@ -0,0 +1,142 @@
+
+import React, { useState } from 'react';
+import { Binoculars, ChevronRight, Coffee, Droplet, MapPin, RefreshCw, Search, Toilet, Utensils, Wrench } from 'lucide-react';
+import { NearbyStops, PoiCategory } from '../types';
+import { Formatter, withUnit } from '../utils/format';
+
+export type SearchScope = 'here' | 'ahead';
+
+interface Props {
+  stops: NearbyStops | null;
+  isLoading: boolean;
+  canSearch: boolean;
+  canSearchAhead: boolean; // a course is loaded and the rider is on it
+  onSearch: (scope: SearchScope, radius: number) => void;
+  onCancel: () => void;
+  format: Formatter;
+}
+
+const CATEGORIES: Record<PoiCategory, { label: string; icon: React.ReactNode }> = {
+  cafe: { label: 'Cafe', icon: <Coffee className="w-3 h-3" /> },
+  food: { label: 'Food', icon: <Utensils className="w-3 h-3" /> },
+  bikeShop: { label: 'Bike shop', icon: <Wrench className="w-3 h-3" /> },
+  water: { label: 'Water', icon: <Droplet className="w-3 h-3" /> },
+  toilet: { label: 'Toilet', icon: <Toilet className="w-3 h-3" /> },
+  viewpoint: { label: 'Viewpoint', icon: <Binoculars className="w-3 h-3" /> },
+  other: { label: 'Stop', icon: <MapPin className="w-3 h-3" /> },
+};
+
+const SCOPES: { scope: SearchScope; label: string }[] = [
+  { scope: 'here', label: 'Around me' },
+  { scope: 'ahead', label: 'Course ahead' },
+];
+
+const RADII = [500, 1000, 2000, 5000]; // metres
+
+// Letters match the markers on the map
+export const placeLabel = (index: number) => String.fromCharCode(65 + index);
+
+const NearbyStopsPanel: React.FC<Props> = ({ stops, isLoading, canSearch, canSearchAhead, onSearch, onCancel, format }) => {
+  const [scope, setScope] = useState<SearchScope>('here');
+  const [radius, setRadius] = useState(1000);
+  const activeScope = canSearchAhead ? scope : 'here';
+
+  return (
+    <div className="glass p-6 rounded-3xl border border-slate-700/50">
+      <h3 className="text-sm font-bold text-slate-400 uppercase tracking-widest mb-4 flex items-center gap-2">
+        <Search className="w-4 h-4 text-blue-400" /> Nearby Stops
+      </h3>
+
+      <div className="space-y-3">
+        <div className="flex gap-1">
+          {SCOPES.map((s) => (
+            <button
+              key={s.scope}
+              onClick={() => setScope(s.scope)}
+              disabled={s.scope === 'ahead' && !canSearchAhead}
+              className={`flex-1 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wider border transition-colors disabled:opacity-50 ${activeScope === s.scope ? 'bg-blue-500/10 border-blue-500/30 text-blue-400' : 'bg-slate-900 border-slate-800 text-slate-400 hover:text-white'}`}
+            >
+              {s.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-[10px] font-bold text-slate-500 uppercase tracking-tighter">Within</span>
+          <div className="flex gap-1">
+            {RADII.map((r) => (
+              <button
+                key={r}
+                onClick={() => setRadius(r)}
+                className={`px-2 py-1 rounded-lg text-[10px] font-bold border transition-colors ${radius === r ? 'bg-blue-500/10 border-blue-500/30 text-blue-400' : 'bg-slate-900 border-slate-800 text-slate-400 hover:text-white'}`}
+              >
+                {withUnit(format.shortDistance(r))}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <button
+          onClick={isLoading ? onCancel : () => onSearch(activeScope, radius)}
+          disabled={!isLoading && !canSearch}
+          className="w-full py-3 rounded-xl bg-slate-900 text-slate-300 text-xs font-bold border border-slate-800 hover:bg-slate-800 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+        >
+          {isLoading ? <RefreshCw className="w-3 h-3 animate-spin" /> : <Search className="w-3 h-3" />}
+          {isLoading ? 'Searching... Tap to cancel' : 'Locate Points of Interest'}
+        </button>
+
+        {stops && (
+          <div className="space-y-3 pt-1">
+            <p className="text-xs text-slate-400 leading-relaxed">{stops.text}</p>
+            {stops.places ? (
+              stops.places.length === 0 ? (
+                <p className="text-xs text-slate-500">No places found in this area.</p>
+              ) : (
+                <div className="space-y-2">
+                  {stops.places.map((place, i) => {
+                    const category = CATEGORIES[place.category];
+                    const body = (
+                      <>
+                        <div className="flex-shrink-0 w-5 h-5 rounded-full bg-blue-500 flex items-center justify-center text-[10px] font-bold text-slate-950">
+                          {placeLabel(i)}
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <p className="text-xs font-medium text-slate-200 truncate">{place.name}</p>
+                          <p className="text-[10px] text-slate-500 flex items-center gap-1">
+                            {category.icon} {category.label} · {withUnit(format.shortDistance(place.distanceOffRoute))} off route
+                          </p>
+                          <p className="text-[10px] text-slate-400 leading-tight mt-0.5">{place.description}</p>
+                        </div>
+                      </>
+                    );
+                    return place.uri ? (
+                      <a key={i} href={place.uri} target="_blank" rel="noopener noreferrer" className="p-3 bg-slate-900 rounded-xl border border-slate-800 hover:border-blue-500/50 transition-all flex items-start gap-3 group">
+                        {body}
+                        <ChevronRight className="w-3 h-3 mt-1 text-slate-600 group-hover:text-blue-400 transform group-hover:translate-x-1 transition-all" />
+                      </a>
+                    ) : (
+                      <div key={i} className="p-3 bg-slate-900 rounded-xl border border-slate-800 flex items-start gap-3">
+                        {body}
+                      </div>
+                    );
+                  })}
+                </div>
+              )
+            ) : null}
+            {stops.links.length > 0 && (
+              <div className="space-y-1">
+                <span className="text-[10px] font-bold text-slate-500 uppercase tracking-tighter">Sources</span>
+                {stops.links.map((link, i) => (
+                  <a key={i} href={link.uri} target="_blank" rel="noopener noreferrer" className="block text-[10px] text-slate-500 hover:text-blue-400 truncate transition-colors">
+                    {link.title}
+                  </a>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NearbyStopsPanel;
@@ -0,0 +1,156 @@
+
+import React, { useMemo } from 'react';
+import { RoutePoint } from '../types';
+import { Formatter, withUnit } from '../utils/format';
+
+type ProfileMetric = 'elevation' | 'speed';
+
+interface Props {
+  route: RoutePoint[];
+  distances: number[]; // cumulative metres per point, from cumulativeDistances
+  metric: ProfileMetric;
+  highlightIndex: number | null;
+  onHighlight: (index: number | null) => void;
+  format: Formatter;
+}
+
+// Speed stays a speed in pace mode; pace plotted upside down reads badly
+const METRICS: Record<ProfileMetric, {
+  label: string;
+  color: string;
+  digits: number;
+  unit: (format: Formatter) => string;
+  value: (p: RoutePoint, format: Formatter) => number | null;
+}> = {
+  elevation: { label: 'Elevation', color: '#a78bfa', digits: 0, unit: (f) => f.elevationUnit, value: (p, f) => (p.altitude === null ? null : f.elevationValue(p.altitude)) },
+  speed: { label: 'Speed', color: '#84cc16', digits: 1, unit: (f) => f.speedUnit, value: (p, f) => f.speedValue(p.speed) },
+};
+
+const WIDTH = 300;
+const HEIGHT = 80;
+// More points than this are thinned out; the chart is only a few hundred pixels wide
+const MAX_SAMPLES = 600;
+
+// Nearest point at a given distance along the track
+const indexAtDistance = (distances: number[], target: number): number => {
+  let lo = 0;
+  let hi = distances.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (distances[mid] < target) lo = mid + 1;
+    else hi = mid;
+  }
+  if (lo > 0 && target - distances[lo - 1] < distances[lo] - target) return lo - 1;
+  return lo;
+};
+
+const ProfileChart: React.FC<Props> = ({ route, distances, metric, highlightIndex, onHighlight, format }) => {
+  const { label, color, digits } = METRICS[metric];
+  const unit = METRICS[metric].unit(format);
+  const value = useMemo(() => (p: RoutePoint) => METRICS[metric].value(p, format), [metric, format]);
+  const total = distances[distances.length - 1] ?? 0;
+
+  const chart = useMemo(() => {
+    const stride = Math.max(1, Math.ceil(route.length / MAX_SAMPLES));
+    let min = Infinity;
+    let max = -Infinity;
+    route.forEach((p) => {
+      const v = value(p);
+      if (v === null) return;
+      min = Math.min(min, v);
+      max = Math.max(max, v);
+    });
+    if (min === Infinity || total <= 0) return null;
+    const range = max - min || 1;
+    const x = (i: number) => (distances[i] / total) * WIDTH;
+    // A few units of headroom so the line never sits on the border
+    const y = (v: number) => HEIGHT - 4 - ((v - min) / range) * (HEIGHT - 8);
+
+    // A missing value or a recording gap breaks the line. Thinning never skips
+    // the points either side of a gap, or the final point.
+    const runs: { line: string; area: string }[] = [];
+    let line = '';
+    let x0 = 0;
+    let x1 = 0;
+    const closeRun = () => {
+      if (line) runs.push({ line, area: `${line} L ${x1} ${HEIGHT} L ${x0} ${HEIGHT} Z` });
+      line = '';
+    };
+    route.forEach((p, i) => {
+      const keep = i % stride === 0 || i === route.length - 1 || p.segmentStart || route[i + 1]?.segmentStart;
+      if (!keep) return;
+      const v = value(p);
+      if (v === null || p.segmentStart) closeRun();
+      if (v === null) return;
+      if (!line) {
+        line = `M ${x(i)} ${y(v)}`;
+        x0 = x(i);
+      } else {
+        line += ` L ${x(i)} ${y(v)}`;
+      }
+      x1 = x(i);
+    });
+    closeRun();
+    return { runs, min, max, x };
+  }, [route, distances, total, value]);
+
+  const handlePointer = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (route.length === 0 || total <= 0) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fraction = Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1);
+    onHighlight(indexAtDistance(distances, fraction * total));
+  };
+
+  const highlighted = highlightIndex !== null && highlightIndex < route.length ? highlightIndex : null;
+  const highlightedValue = highlighted !== null ? value(route[highlighted]) : null;
+
+  return (
+    <div>
+      <div className="flex items-baseline justify-between mb-1">
+        <span className="text-[10px] font-bold text-slate-500 uppercase tracking-tighter">{label}</span>
+        <span className="text-xs font-bold text-white tabular-nums">
+          {highlighted !== null
+            ? `${highlightedValue !== null ? `${format.number(highlightedValue, digits)} ${unit}` : '—'} @ ${withUnit(format.distance(distances[highlighted]))}`
+            : chart ? `${format.number(chart.min)}–${format.number(chart.max)} ${unit}` : ''}
+        </span>
+      </div>
+      {chart ? (
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          preserveAspectRatio="none"
+          className="w-full h-20 cursor-crosshair"
+          style={{ touchAction: 'pan-y' }}
+          onPointerDown={(e) => {
+            e.currentTarget.setPointerCapture(e.pointerId);
+            handlePointer(e);
+          }}
+          onPointerMove={handlePointer}
+          onPointerLeave={() => onHighlight(null)}
+          onPointerCancel={() => onHighlight(null)}
+        >
+          {chart.runs.map((run, i) => (
+            <g key={i}>
+              <path d={run.area} fill={color} fillOpacity="0.15" />
+              <path d={run.line} fill="none" stroke={color} strokeWidth="1.5" vectorEffect="non-scaling-stroke" />
+            </g>
+          ))}
+          {highlighted !== null && (
+            <line
+              x1={chart.x(highlighted)}
+              x2={chart.x(highlighted)}
+              y1="0"
+              y2={HEIGHT}
+              stroke="#fff"
+              strokeWidth="1"
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+        </svg>
+      ) : (
+        <div className="h-20 flex items-center justify-center text-xs text-slate-600">No {label.toLowerCase()} data</div>
+      )}
+    </div>
+  );
+};
+
+export default ProfileChart;
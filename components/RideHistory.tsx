@@ -0,0 +1,130 @@
+
+import React, { useEffect, useState } from 'react';
+import { Check, Cpu, Pencil, Trash2, X, History } from 'lucide-react';
+import { SavedRide } from '../types';
+import { Formatter, withUnit } from '../utils/format';
+import { listRides, renameRide, deleteRide } from '../services/rideRepository';
+
+interface Props {
+  activeRideId: string | null;
+  refreshKey: number;
+  disabled?: boolean;
+  onOpen: (ride: SavedRide) => void;
+  onAnalyze: (ride: SavedRide) => void;
+  onChanged: (ride: SavedRide) => void;
+  onDeleted: (id: string) => void;
+  format: Formatter;
+}
+
+const RideHistory: React.FC<Props> = ({ activeRideId, refreshKey, disabled, onOpen, onAnalyze, onChanged, onDeleted, format }) => {
+  const [rides, setRides] = useState<SavedRide[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    listRides()
+      .then((list) => { if (!cancelled) setRides(list); })
+      .catch((err) => console.error('Failed to load ride history:', err))
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [refreshKey]);
+
+  const startEditing = (ride: SavedRide) => {
+    setEditingId(ride.id);
+    setDraftName(ride.name);
+  };
+
+  const commitRename = async () => {
+    if (!editingId) return;
+    const name = draftName.trim();
+    if (name) {
+      try {
+        const updated = await renameRide(editingId, name);
+        setRides((prev) => prev.map((r) => (r.id === updated.id ? updated : r)));
+        onChanged(updated);
+      } catch (err) {
+        console.error(err);
+        alert("Failed to rename ride.");
+      }
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = async (ride: SavedRide) => {
+    if (!confirm(`Delete "${ride.name}"? This cannot be undone.`)) return;
+    try {
+      await deleteRide(ride.id);
+      setRides((prev) => prev.filter((r) => r.id !== ride.id));
+      onDeleted(ride.id);
+    } catch (err) {
+      console.error(err);
+      alert("Failed to delete ride.");
+    }
+  };
+
+  return (
+    <div className="glass p-6 rounded-3xl border border-slate-700/50">
+      <h3 className="text-sm font-bold text-slate-400 uppercase tracking-widest mb-4 flex items-center gap-2">
+        <History className="w-4 h-4 text-neon" /> Ride History
+      </h3>
+
+      {isLoading ? (
+        <p className="text-xs text-slate-500">Loading rides...</p>
+      ) : rides.length === 0 ? (
+        <p className="text-xs text-slate-500">No saved rides yet. Finished rides are stored on this device.</p>
+      ) : (
+        <div className="space-y-2">
+          {rides.map((ride) => (
+            <div
+              key={ride.id}
+              className={`p-3 rounded-xl border bg-slate-900/50 transition-colors ${ride.id === activeRideId ? 'border-lime-500/40' : 'border-slate-800 hover:border-slate-700'}`}
+            >
+              {editingId === ride.id ? (
+                <div className="flex items-center gap-2">
+                  <input
+                    autoFocus
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="flex-1 min-w-0 bg-slate-950 border border-slate-700 rounded-lg px-2 py-1 text-xs text-white focus:outline-none focus:border-lime-500"
+                  />
+                  <button onClick={commitRename} className="p-1 text-lime-500 hover:text-lime-400" aria-label="Save name">
+                    <Check className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => setEditingId(null)} className="p-1 text-slate-500 hover:text-white" aria-label="Cancel rename">
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2">
+                  <button onClick={() => onOpen(ride)} disabled={disabled} className="flex-1 min-w-0 text-left disabled:cursor-not-allowed">
+                    <span className="block text-xs font-bold text-slate-200 truncate">{ride.name}</span>
+                    <span className="block text-[10px] text-slate-500 tabular-nums mt-0.5">
+                      {format.date(ride.createdAt)} {format.time(ride.createdAt)} · {withUnit(format.distance(ride.stats.totalDistance))} · {format.duration(ride.stats.duration)}
+                    </span>
+                  </button>
+                  <button onClick={() => onAnalyze(ride)} disabled={disabled} className="p-1 text-slate-500 hover:text-neon disabled:opacity-50 disabled:cursor-not-allowed" aria-label="Re-analyze ride" title="Re-analyze">
+                    <Cpu className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => startEditing(ride)} className="p-1 text-slate-500 hover:text-white" aria-label="Rename ride" title="Rename">
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => handleDelete(ride)} className="p-1 text-slate-500 hover:text-red-500" aria-label="Delete ride" title="Delete">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RideHistory;
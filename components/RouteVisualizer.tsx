@@ -1,52 +1,316 @@
 
-import React, { useMemo } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Crosshair, Maximize, Minus, Plus } from 'lucide-react';
 import { RoutePoint } from '../types';
+import { cumulativeDistances, pointGradients } from '../utils/geo';
+import { MapBounds, createTrackGeometry, projectMercator } from '../utils/mapGeometry';
+import { RouteColorMode, PLAIN_ROUTE_COLOR, colorRuns, gradientColor, speedColor } from '../utils/routeColors';
 
 interface Props {
   route: RoutePoint[];
+  highlightIndex?: number | null;
+  course?: RoutePoint[] | null; // planned route drawn underneath the ride
+  ghost?: Pick<RoutePoint, 'latitude' | 'longitude'> | null; // where a past ride was at this point in time
+  pins?: Pick<RoutePoint, 'latitude' | 'longitude'>[]; // numbered places, e.g. AI coaching notes
+  places?: (Pick<RoutePoint, 'latitude' | 'longitude'> & { label: string })[]; // points of interest
 }
 
-const RouteVisualizer: React.FC<Props> = ({ route }) => {
-  const svgPath = useMemo(() => {
-    if (route.length < 2) return "";
-
-    const lats = route.map(p => p.latitude);
-    const lngs = route.map(p => p.longitude);
-    const minLat = Math.min(...lats);
-    const maxLat = Math.max(...lats);
-    const minLng = Math.min(...lngs);
-    const maxLng = Math.max(...lngs);
-
-    const padding = 20;
-    const width = 300;
-    const height = 300;
-
-    const scaleX = (val: number) => padding + ((val - minLng) / (maxLng - minLng || 1)) * (width - 2 * padding);
-    const scaleY = (val: number) => height - (padding + ((val - minLat) / (maxLat - minLat || 1)) * (height - 2 * padding));
-
-    return route.map((p, i) => {
-      const x = scaleX(p.longitude);
-      const y = scaleY(p.latitude);
-      return `${i === 0 ? 'M' : 'L'} ${x} ${y}`;
-    }).join(' ');
+const COLOR_MODES: { mode: RouteColorMode; label: string }[] = [
+  { mode: 'plain', label: 'Route' },
+  { mode: 'speed', label: 'Speed' },
+  { mode: 'gradient', label: 'Grade' },
+];
+
+interface MapView {
+  cx: number; // metres, relative to the track origin
+  cy: number;
+  scale: number; // view box units per metre
+}
+
+// 'fit' tracks the whole ride, 'follow' keeps the rider centred, 'free' is
+// wherever the user panned or zoomed to.
+type ViewMode = 'fit' | 'follow' | 'free';
+
+const SIZE = 300;
+const PADDING = 20;
+const MIN_SCALE = 0.0005; // ~600 km across
+const MAX_SCALE = 20; // ~15 m across
+const FOLLOW_SCALE = 0.3; // ~1 km across
+// Simplify to about this many view box units; finer detail isn't visible
+const PIXEL_TOLERANCE = 0.5;
+
+const clampScale = (scale: number) => Math.min(Math.max(scale, MIN_SCALE), MAX_SCALE);
+
+const fitView = (bounds: MapBounds | null): MapView => {
+  if (!bounds) return { cx: 0, cy: 0, scale: FOLLOW_SCALE };
+  const width = bounds.maxX - bounds.minX;
+  const height = bounds.maxY - bounds.minY;
+  const scale = (SIZE - 2 * PADDING) / Math.max(width, height, 1);
+  return { cx: (bounds.minX + bounds.maxX) / 2, cy: (bounds.minY + bounds.maxY) / 2, scale: clampScale(scale) };
+};
+
+const unionBounds = (a: MapBounds | null, b: MapBounds | null): MapBounds | null => {
+  if (!a || !b) return a ?? b;
+  return {
+    minX: Math.min(a.minX, b.minX),
+    minY: Math.min(a.minY, b.minY),
+    maxX: Math.max(a.maxX, b.maxX),
+    maxY: Math.max(a.maxY, b.maxY),
+  };
+};
+
+const shiftBounds = (bounds: MapBounds | null, dx: number, dy: number): MapBounds | null =>
+  bounds && { minX: bounds.minX + dx, minY: bounds.minY + dy, maxX: bounds.maxX + dx, maxY: bounds.maxY + dy };
+
+const NO_PINS: NonNullable<Props['pins']> = [];
+const NO_PLACES: NonNullable<Props['places']> = [];
+
+const RouteVisualizer: React.FC<Props> = ({ route, highlightIndex = null, course = null, ghost = null, pins = NO_PINS, places = NO_PLACES }) => {
+  const [colorMode, setColorMode] = useState<RouteColorMode>('plain');
+  const [viewMode, setViewMode] = useState<ViewMode>('fit');
+  const [freeView, setFreeView] = useState<MapView>(() => fitView(null));
+  const [followScale, setFollowScale] = useState(FOLLOW_SCALE);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const geometryRef = useRef(createTrackGeometry());
+  const courseGeometryRef = useRef(createTrackGeometry());
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+  const viewRef = useRef<MapView>(freeView);
+
+  // Incremental: appending a fix projects one point rather than the whole ride
+  const { points, routeBounds, routeOrigin } = useMemo(() => {
+    const geometry = geometryRef.current;
+    geometry.sync(route);
+    return { points: geometry.points(), routeBounds: geometry.bounds(), routeOrigin: geometry.origin() };
   }, [route]);
 
+  const courseTrack = useMemo(() => {
+    const geometry = courseGeometryRef.current;
+    geometry.sync(course ?? []);
+    return { points: geometry.points(), bounds: geometry.bounds(), origin: geometry.origin() };
+  }, [course]);
+
+  // Map coordinates are relative to the ride's first point; the course is
+  // drawn shifted by the difference between the two origins.
+  const courseOffset = useMemo(() => {
+    if (!courseTrack.origin || !routeOrigin) return { x: 0, y: 0 };
+    return { x: courseTrack.origin.x - routeOrigin.x, y: courseTrack.origin.y - routeOrigin.y };
+  }, [courseTrack, routeOrigin]);
+
+  const bounds = useMemo(
+    () => unionBounds(routeBounds, shiftBounds(courseTrack.bounds, courseOffset.x, courseOffset.y)),
+    [routeBounds, courseTrack, courseOffset],
+  );
+
+  const lastPoint = points[points.length - 1];
+  const view = useMemo<MapView>(() => {
+    if (viewMode === 'fit') return fitView(bounds);
+    if (viewMode === 'follow' && lastPoint) return { cx: lastPoint.x, cy: lastPoint.y, scale: followScale };
+    return freeView;
+  }, [viewMode, bounds, lastPoint, followScale, freeView]);
+  viewRef.current = view;
+
+  // Tolerance snaps to powers of two so zooming reuses cached simplifications
+  const tolerance = Math.pow(2, Math.floor(Math.log2(PIXEL_TOLERANCE / view.scale)));
+
+  // Cull with some margin so panning doesn't reveal missing chunks
+  const visible = useMemo<MapBounds>(() => {
+    const half = SIZE / view.scale;
+    return { minX: view.cx - half, maxX: view.cx + half, minY: view.cy - half, maxY: view.cy + half };
+  }, [view]);
+
+  const runs = useMemo(() => {
+    if (points.length < 2) return [];
+    return geometryRef.current.visibleRuns(tolerance, visible);
+  }, [points, route, tolerance, visible]);
+
+  const coursePath = useMemo(() => {
+    const { points: coursePoints } = courseTrack;
+    if (coursePoints.length < 2) return '';
+    const courseRuns = courseGeometryRef.current.visibleRuns(tolerance, shiftBounds(visible, -courseOffset.x, -courseOffset.y)!);
+    return courseRuns
+      .map((run) => run.map((index, j) => `${j === 0 ? 'M' : 'L'}${coursePoints[index].x.toFixed(1)} ${coursePoints[index].y.toFixed(1)}`).join(''))
+      .join('');
+  }, [courseTrack, courseOffset, tolerance, visible]);
+
+  const gradients = useMemo(() => {
+    return colorMode === 'gradient' ? pointGradients(route, cumulativeDistances(route)) : [];
+  }, [colorMode, route]);
+
+  const maxSpeed = useMemo(() => route.reduce((max, p) => Math.max(max, p.speed), 0), [route]);
+
+  const paths = useMemo(() => {
+    const toPath = (indices: number[]) =>
+      indices.map((index, j) => `${j === 0 ? 'M' : 'L'}${points[index].x.toFixed(1)} ${points[index].y.toFixed(1)}`).join('');
+    if (colorMode === 'plain') return [{ color: PLAIN_ROUTE_COLOR, d: runs.map(toPath).join('') }];
+    const colorAt = colorMode === 'speed'
+      ? (i: number) => speedColor(route[i].speed, maxSpeed)
+      : (i: number) => gradientColor(gradients[i]);
+    return colorRuns(runs, colorAt).map((run) => ({ color: run.color, d: toPath(run.indices) }));
+  }, [runs, points, colorMode, route, maxSpeed, gradients]);
+
+  const toScreen = (index: number) => ({
+    x: SIZE / 2 + (points[index].x - view.cx) * view.scale,
+    y: SIZE / 2 + (points[index].y - view.cy) * view.scale,
+  });
+
+  const zoomAround = (factor: number, anchor = { x: SIZE / 2, y: SIZE / 2 }) => {
+    const current = viewRef.current;
+    const scale = clampScale(current.scale * factor);
+    if (viewMode === 'follow') {
+      setFollowScale(scale);
+      return;
+    }
+    // Keep the map position under the anchor fixed while zooming
+    const worldX = current.cx + (anchor.x - SIZE / 2) / current.scale;
+    const worldY = current.cy + (anchor.y - SIZE / 2) / current.scale;
+    setFreeView({ cx: worldX - (anchor.x - SIZE / 2) / scale, cy: worldY - (anchor.y - SIZE / 2) / scale, scale });
+    setViewMode('free');
+  };
+
+  const toViewBox = (clientX: number, clientY: number) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return { x: ((clientX - rect.left) / rect.width) * SIZE, y: ((clientY - rect.top) / rect.height) * SIZE };
+  };
+
+  // Wheel zoom needs a non-passive listener to stop the page scrolling
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      zoomAround(Math.exp(-e.deltaY * 0.002), toViewBox(e.clientX, e.clientY));
+    };
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  });
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointersRef.current.set(e.pointerId, toViewBox(e.clientX, e.clientY));
+  };
+
+  // One pointer pans, two pinch-zoom around their midpoint
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const pointers = pointersRef.current;
+    const previous = pointers.get(e.pointerId);
+    if (!previous) return;
+    const next = toViewBox(e.clientX, e.clientY);
+
+    if (pointers.size === 1) {
+      const current = viewRef.current;
+      setFreeView({
+        cx: current.cx - (next.x - previous.x) / current.scale,
+        cy: current.cy - (next.y - previous.y) / current.scale,
+        scale: current.scale,
+      });
+      setViewMode('free');
+    } else if (pointers.size === 2) {
+      const other = [...pointers.entries()].find(([id]) => id !== e.pointerId)![1];
+      const before = Math.hypot(previous.x - other.x, previous.y - other.y);
+      const after = Math.hypot(next.x - other.x, next.y - other.y);
+      if (before > 0) zoomAround(after / before, { x: (next.x + other.x) / 2, y: (next.y + other.y) / 2 });
+    }
+    pointers.set(e.pointerId, next);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+    pointersRef.current.delete(e.pointerId);
+  };
+
+  const start = points.length > 0 ? toScreen(0) : null;
+  const end = points.length > 0 ? toScreen(points.length - 1) : null;
+  // Positions that aren't track points, in map coordinates
+  const origin = routeOrigin ?? courseTrack.origin;
+  const toMap = useCallback((position: Pick<RoutePoint, 'latitude' | 'longitude'>) => {
+    if (!origin) return null;
+    const projected = projectMercator(position.latitude, position.longitude);
+    return { x: projected.x - origin.x, y: projected.y - origin.y };
+  }, [origin]);
+  const ghostPoint = useMemo(() => (ghost ? toMap(ghost) : null), [ghost, toMap]);
+  const pinPoints = useMemo(() => pins.map(toMap), [pins, toMap]);
+  const placePoints = useMemo(() => places.map(toMap), [places, toMap]);
+  const mapToScreen = (point: { x: number; y: number }) => ({
+    x: SIZE / 2 + (point.x - view.cx) * view.scale,
+    y: SIZE / 2 + (point.y - view.cy) * view.scale,
+  });
+  const ghostMarker = ghostPoint && mapToScreen(ghostPoint);
+  const highlight = highlightIndex !== null && highlightIndex < points.length ? toScreen(highlightIndex) : null;
+  const hasMap = route.length > 1 || courseTrack.points.length > 1;
+
   return (
     <div className="relative w-full aspect-square glass rounded-3xl overflow-hidden border border-slate-700 flex items-center justify-center">
-      {route.length > 1 ? (
-        <svg viewBox="0 0 300 300" className="w-full h-full drop-shadow-[0_0_8px_rgba(132,204,22,0.4)]">
-          <path
-            d={svgPath}
-            fill="none"
-            stroke="#84cc16"
-            strokeWidth="3"
-            strokeLinecap="round"
-            strokeLinejoin="round"
-          />
+      {hasMap ? (
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${SIZE} ${SIZE}`}
+          className="w-full h-full drop-shadow-[0_0_8px_rgba(132,204,22,0.4)] cursor-grab active:cursor-grabbing"
+          style={{ touchAction: 'none' }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          <g transform={`translate(${SIZE / 2} ${SIZE / 2}) scale(${view.scale}) translate(${-view.cx} ${-view.cy})`}>
+            {coursePath && (
+              <path
+                d={coursePath}
+                transform={`translate(${courseOffset.x} ${courseOffset.y})`}
+                fill="none"
+                stroke="#94a3b8"
+                strokeOpacity="0.5"
+                strokeWidth="6"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                vectorEffect="non-scaling-stroke"
+              />
+            )}
+            {paths.map((path, i) => (
+              <path
+                key={i}
+                d={path.d}
+                fill="none"
+                stroke={path.color}
+                strokeWidth="3"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                vectorEffect="non-scaling-stroke"
+              />
+            ))}
+          </g>
           {/* Start Point */}
-          <circle cx={svgPath.split(' ')[1]} cy={svgPath.split(' ')[2]} r="5" fill="#3b82f6" />
+          {start && <circle cx={start.x} cy={start.y} r="5" fill="#3b82f6" />}
+          {/* Ghost */}
+          {ghostMarker && (
+            <circle cx={ghostMarker.x} cy={ghostMarker.y} r="6" fill="#a78bfa" fillOpacity="0.6" stroke="#ede9fe" strokeWidth="1.5" />
+          )}
+          {/* Points of interest */}
+          {placePoints.map((point, i) => {
+            if (!point) return null;
+            const marker = mapToScreen(point);
+            return (
+              <g key={i}>
+                <circle cx={marker.x} cy={marker.y} r="7" fill="#3b82f6" stroke="#0f172a" strokeWidth="1.5" />
+                <text x={marker.x} y={marker.y} textAnchor="middle" dominantBaseline="central" fontSize="8" fontWeight="bold" fill="#0f172a">{places[i].label}</text>
+              </g>
+            );
+          })}
+          {/* Pins */}
+          {pinPoints.map((point, i) => {
+            if (!point) return null;
+            const pin = mapToScreen(point);
+            return (
+              <g key={i}>
+                <circle cx={pin.x} cy={pin.y} r="7" fill="#f59e0b" stroke="#0f172a" strokeWidth="1.5" />
+                <text x={pin.x} y={pin.y} textAnchor="middle" dominantBaseline="central" fontSize="8" fontWeight="bold" fill="#0f172a">{i + 1}</text>
+              </g>
+            );
+          })}
           {/* End Point */}
-          <circle cx={svgPath.split(' ').slice(-2)[0]} cy={svgPath.split(' ').slice(-1)[0]} r="6" fill="#ef4444" className="animate-pulse" />
+          {end && <circle cx={end.x} cy={end.y} r="6" fill="#ef4444" className="animate-pulse" />}
+          {/* Position picked on a profile chart */}
+          {highlight && (
+            <circle cx={highlight.x} cy={highlight.y} r="7" fill="none" stroke="#fff" strokeWidth="2" />
+          )}
         </svg>
       ) : (
         <div className="text-slate-500 text-sm font-medium flex flex-col items-center gap-2">
@@ -54,10 +318,52 @@ const RouteVisualizer: React.FC<Props> = ({ route }) => {
             Waiting for GPS signal...
         </div>
       )}
-      
+
       <div className="absolute top-4 left-4 flex gap-2">
          <div className="px-3 py-1 bg-slate-900/80 rounded-full text-[10px] font-bold uppercase tracking-widest text-lime-500 border border-lime-500/30">Live Map</div>
       </div>
+
+      {hasMap && (
+        <>
+          <div className="absolute top-4 right-4 flex gap-1 p-1 bg-slate-900/80 rounded-full border border-slate-700/50">
+            {COLOR_MODES.map(({ mode, label }) => (
+              <button
+                key={mode}
+                onClick={() => setColorMode(mode)}
+                className={`px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-wider transition-colors ${colorMode === mode ? 'bg-neon text-slate-950' : 'text-slate-400 hover:text-white'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          <div className="absolute bottom-4 right-4 flex flex-col gap-1 p-1 bg-slate-900/80 rounded-2xl border border-slate-700/50">
+            <button onClick={() => zoomAround(2)} aria-label="Zoom in" className="w-8 h-8 rounded-xl flex items-center justify-center text-slate-400 hover:text-white transition-colors">
+              <Plus className="w-4 h-4" />
+            </button>
+            <button onClick={() => zoomAround(0.5)} aria-label="Zoom out" className="w-8 h-8 rounded-xl flex items-center justify-center text-slate-400 hover:text-white transition-colors">
+              <Minus className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setViewMode('fit')}
+              aria-label="Show whole route"
+              className={`w-8 h-8 rounded-xl flex items-center justify-center transition-colors ${viewMode === 'fit' ? 'text-neon' : 'text-slate-400 hover:text-white'}`}
+            >
+              <Maximize className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => {
+                if (viewMode !== 'follow') setFollowScale(Math.max(view.scale, FOLLOW_SCALE));
+                setViewMode(viewMode === 'follow' ? 'fit' : 'follow');
+              }}
+              aria-label="Follow rider"
+              className={`w-8 h-8 rounded-xl flex items-center justify-center transition-colors ${viewMode === 'follow' ? 'text-neon' : 'text-slate-400 hover:text-white'}`}
+            >
+              <Crosshair className="w-4 h-4" />
+            </button>
+          </div>
+        </>
+      )}
     </div>
   );
 };
@@ -0,0 +1,63 @@
+
+import React, { useEffect, useState } from 'react';
+import { Medal, Timer } from 'lucide-react';
+import { Formatter, withUnit } from '../utils/format';
+import { RankedEffort, listRideEfforts } from '../services/segmentRepository';
+
+interface Props {
+  rideId: string;
+  refreshKey: number;
+  format: Formatter;
+}
+
+const RANK_BADGES: Record<number, { label: string; className: string }> = {
+  1: { label: 'PR', className: 'bg-yellow-500/10 border-yellow-500/30 text-yellow-400' },
+  2: { label: '2nd', className: 'bg-slate-400/10 border-slate-400/30 text-slate-300' },
+  3: { label: '3rd', className: 'bg-orange-500/10 border-orange-500/30 text-orange-400' },
+};
+
+// Segment efforts on one ride, ranked against every other attempt
+const SegmentEfforts: React.FC<Props> = ({ rideId, refreshKey, format }) => {
+  const [efforts, setEfforts] = useState<RankedEffort[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    listRideEfforts(rideId)
+      .then((list) => { if (!cancelled) setEfforts(list); })
+      .catch((err) => console.error('Failed to load segment efforts:', err));
+    return () => { cancelled = true; };
+  }, [rideId, refreshKey]);
+
+  if (efforts.length === 0) return null;
+
+  return (
+    <div className="glass p-6 rounded-3xl border border-slate-700/50">
+      <h3 className="text-sm font-bold text-slate-400 uppercase tracking-widest mb-4 flex items-center gap-2">
+        <Timer className="w-4 h-4 text-neon" /> Segment Efforts
+      </h3>
+      <div className="space-y-2">
+        {efforts.map(({ segment, effort, rank, attempts }) => {
+          const badge = RANK_BADGES[rank];
+          return (
+            <div key={effort.id} className="flex items-center gap-3 p-3 rounded-xl bg-slate-900/50 border border-slate-800">
+              <div className="flex-1 min-w-0">
+                <span className="block text-xs font-bold text-slate-200 truncate">{segment.name}</span>
+                <span className="block text-[10px] text-slate-500 tabular-nums mt-0.5">
+                  {withUnit(format.speed(effort.avgSpeed))} · VAM {Math.round(effort.vam)} · {rank} of {attempts}
+                </span>
+              </div>
+              <span className="text-sm font-bold text-white tabular-nums">{format.duration(Math.round(effort.duration))}</span>
+              {badge && (
+                <span className={`flex items-center gap-1 px-2 py-0.5 rounded-full border text-[10px] font-bold uppercase tracking-wider ${badge.className}`}>
+                  <Medal className="w-3 h-3" /> {badge.label}
+                </span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default SegmentEfforts;
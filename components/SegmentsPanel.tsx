@@ -0,0 +1,215 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { ChevronRight, Plus, Timer, Trash2 } from 'lucide-react';
+import { SavedRide, Segment, SegmentEffort } from '../types';
+import { cumulativeDistances } from '../utils/geo';
+import { Formatter, withUnit } from '../utils/format';
+import { defineSegment } from '../utils/segments';
+import { createSegment, deleteSegment, listSegmentEfforts, listSegments } from '../services/segmentRepository';
+
+interface Props {
+  ride: SavedRide | null; // stored ride new segments are drawn on
+  refreshKey: number;
+  disabled?: boolean;
+  onHighlight: (index: number | null) => void;
+  onChanged: () => void;
+  format: Formatter;
+}
+
+const SegmentsPanel: React.FC<Props> = ({ ride, refreshKey, disabled, onHighlight, onChanged, format }) => {
+  const [segments, setSegments] = useState<Segment[]>([]);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [efforts, setEfforts] = useState<SegmentEffort[]>([]);
+  const [draft, setDraft] = useState<{ name: string; start: number; end: number } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    listSegments()
+      .then(setSegments)
+      .catch((err) => console.error('Failed to load segments:', err));
+  }, [refreshKey]);
+
+  useEffect(() => {
+    if (!openId) return;
+    let cancelled = false;
+    setEfforts([]);
+    listSegmentEfforts(openId)
+      .then((list) => { if (!cancelled) setEfforts(list); })
+      .catch((err) => console.error('Failed to load segment efforts:', err));
+    return () => { cancelled = true; };
+  }, [openId, refreshKey]);
+
+  // A draft belongs to the ride it was started on
+  useEffect(() => setDraft(null), [ride?.id]);
+
+  const distances = useMemo(() => (ride ? cumulativeDistances(ride.route) : []), [ride]);
+  const shape = ride && draft ? defineSegment(ride.route, draft.start, draft.end) : null;
+
+  const startDraft = () => {
+    if (!ride) return;
+    setDraft({ name: '', start: 0, end: ride.route.length - 1 });
+  };
+
+  const updateDraft = (changes: Partial<{ name: string; start: number; end: number }>) => {
+    setDraft((prev) => prev && { ...prev, ...changes });
+    if (changes.start !== undefined) onHighlight(changes.start);
+    if (changes.end !== undefined) onHighlight(changes.end);
+  };
+
+  const saveDraft = async () => {
+    if (!ride || !draft || !shape || !draft.name.trim()) return;
+    setIsSaving(true);
+    try {
+      const segment = await createSegment(draft.name, ride.id, shape);
+      setDraft(null);
+      onHighlight(null);
+      setOpenId(segment.id);
+      onChanged();
+    } catch (err) {
+      console.error(err);
+      alert("Failed to save segment.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (segment: Segment) => {
+    if (!confirm(`Delete segment "${segment.name}" and all its efforts?`)) return;
+    try {
+      await deleteSegment(segment.id);
+      if (openId === segment.id) setOpenId(null);
+      onChanged();
+    } catch (err) {
+      console.error(err);
+      alert("Failed to delete segment.");
+    }
+  };
+
+  return (
+    <div className="glass p-6 rounded-3xl border border-slate-700/50">
+      <h3 className="text-sm font-bold text-slate-400 uppercase tracking-widest mb-4 flex items-center gap-2">
+        <Timer className="w-4 h-4 text-neon" /> Segments
+      </h3>
+
+      <div className="space-y-2">
+        {segments.length === 0 && !draft && (
+          <p className="text-xs text-slate-500">Open a saved ride and mark a start and finish to time every ride over that stretch.</p>
+        )}
+
+        {segments.map((segment) => (
+          <div key={segment.id} className="rounded-xl border border-slate-800 bg-slate-900/50">
+            <div className="flex items-center gap-2 p-3">
+              <button onClick={() => setOpenId(openId === segment.id ? null : segment.id)} className="flex-1 min-w-0 text-left flex items-center gap-2">
+                <ChevronRight className={`w-3 h-3 text-slate-500 transition-transform ${openId === segment.id ? 'rotate-90' : ''}`} />
+                <span className="min-w-0">
+                  <span className="block text-xs font-bold text-slate-200 truncate">{segment.name}</span>
+                  <span className="block text-[10px] text-slate-500 tabular-nums mt-0.5">
+                    {withUnit(format.distance(segment.distance))} · {segment.elevationGain >= 0 ? '+' : ''}{withUnit(format.elevation(segment.elevationGain))}
+                  </span>
+                </span>
+              </button>
+              <button onClick={() => handleDelete(segment)} disabled={disabled} className="p-1 text-slate-500 hover:text-red-500 disabled:opacity-50" aria-label="Delete segment" title="Delete">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+
+            {openId === segment.id && (
+              efforts.length === 0 ? (
+                <p className="px-3 pb-3 text-[10px] text-slate-500">No efforts yet.</p>
+              ) : (
+                <table className="w-full text-xs tabular-nums mb-2">
+                  <thead>
+                    <tr className="text-[10px] font-bold text-slate-500 uppercase tracking-tighter text-right">
+                      <th className="text-left pl-3 pb-1">#</th>
+                      <th className="text-left pb-1">Date</th>
+                      <th className="pb-1">Time</th>
+                      <th className="pb-1">{format.display.speedDisplay === 'pace' ? `/${format.distanceUnit}` : format.speedUnit}</th>
+                      <th className="pr-3 pb-1">VAM</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {efforts.map((effort, i) => (
+                      <tr key={effort.id} className={`border-t border-slate-800 text-right ${effort.rideId === ride?.id ? 'text-neon' : 'text-slate-300'}`}>
+                        <td className="text-left pl-3 py-1.5 font-bold text-slate-500">{i + 1}</td>
+                        <td className="text-left py-1.5">{format.date(effort.startTime)}</td>
+                        <td className="py-1.5 font-bold">{format.duration(Math.round(effort.duration))}</td>
+                        <td className="py-1.5">{format.speed(effort.avgSpeed).value}</td>
+                        <td className="pr-3 py-1.5">{Math.round(effort.vam)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )
+            )}
+          </div>
+        ))}
+
+        {draft && ride ? (
+          <div className="p-3 rounded-xl border border-lime-500/30 bg-slate-900/50 space-y-3">
+            <label className="block">
+              <span className="text-[10px] font-bold text-slate-500 uppercase tracking-tighter">Name</span>
+              <input
+                autoFocus
+                value={draft.name}
+                onChange={(e) => updateDraft({ name: e.target.value })}
+                placeholder="e.g. Col de la Madone"
+                className="mt-1 w-full bg-slate-950 border border-slate-700 rounded-lg px-2 py-1 text-xs text-white focus:outline-none focus:border-lime-500"
+              />
+            </label>
+            <label className="block">
+              <span className="text-[10px] font-bold text-slate-500 uppercase tracking-tighter">Start · {withUnit(format.distance(distances[draft.start]))}</span>
+              <input
+                type="range"
+                min={0}
+                max={ride.route.length - 1}
+                value={draft.start}
+                onChange={(e) => updateDraft({ start: Math.min(Number(e.target.value), draft.end - 1) })}
+                className="w-full accent-lime-500"
+              />
+            </label>
+            <label className="block">
+              <span className="text-[10px] font-bold text-slate-500 uppercase tracking-tighter">Finish · {withUnit(format.distance(distances[draft.end]))}</span>
+              <input
+                type="range"
+                min={0}
+                max={ride.route.length - 1}
+                value={draft.end}
+                onChange={(e) => updateDraft({ end: Math.max(Number(e.target.value), draft.start + 1) })}
+                className="w-full accent-lime-500"
+              />
+            </label>
+            <p className="text-[10px] text-slate-500">
+              {shape
+                ? `${withUnit(format.distance(shape.distance))}, ${shape.elevationGain >= 0 ? '+' : ''}${withUnit(format.elevation(shape.elevationGain))}`
+                : 'Too short for a segment.'}
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={saveDraft}
+                disabled={!shape || !draft.name.trim() || isSaving}
+                className="flex-1 py-2 rounded-xl bg-neon text-slate-950 text-xs font-bold uppercase tracking-wider disabled:opacity-50"
+              >
+                {isSaving ? 'Saving...' : 'Save'}
+              </button>
+              <button
+                onClick={() => { setDraft(null); onHighlight(null); }}
+                className="flex-1 py-2 rounded-xl bg-slate-900 text-slate-300 text-xs font-bold uppercase tracking-wider border border-slate-800 hover:bg-slate-800 transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : ride && !disabled && (
+          <button
+            onClick={startDraft}
+            className="w-full py-3 rounded-xl bg-slate-900 text-slate-300 text-xs font-bold border border-slate-800 hover:bg-slate-800 transition-colors flex items-center justify-center gap-2"
+          >
+            <Plus className="w-3 h-3" /> New Segment From This Ride
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SegmentsPanel;
@@ -0,0 +1,400 @@
+
+import React, { useEffect, useState } from 'react';
+import { Settings } from 'lucide-react';
+import { SavedRide } from '../types';
+import { AppSettings } from '../services/settings';
+import { SimulatedError } from '../services/location';
+import { listRides } from '../services/rideRepository';
+import { RiderProfile } from '../utils/power';
+import { DisplaySettings, LANGUAGES, createFormatter } from '../utils/format';
+import { CueKind } from '../utils/cues';
+
+interface Props {
+  settings: AppSettings;
+  onChange: (settings: AppSettings) => void;
+}
+
+const SIMULATOR_SPEEDS = [1, 5, 10, 30];
+
+const SIMULATED_ERRORS: { label: string; error: SimulatedError }[] = [
+  { label: 'Signal timeout at 0:20 for 15 s', error: { at: 20, code: 'TIMEOUT', duration: 15 } },
+  { label: 'Position unavailable at 0:45 for 10 s', error: { at: 45, code: 'POSITION_UNAVAILABLE', duration: 10 } },
+  { label: 'Permission revoked at 1:30', error: { at: 90, code: 'PERMISSION_DENIED' } },
+];
+
+const PROFILE_FIELDS: { key: keyof RiderProfile; label: string; min: number; max: number; step: number }[] = [
+  { key: 'riderMass', label: 'Rider mass (kg)', min: 30, max: 200, step: 1 },
+  { key: 'bikeMass', label: 'Bike mass (kg)', min: 3, max: 40, step: 0.5 },
+  { key: 'cda', label: 'CdA (m²)', min: 0.15, max: 0.8, step: 0.01 },
+  { key: 'crr', label: 'Crr', min: 0.001, max: 0.02, step: 0.001 },
+  { key: 'ftp', label: 'FTP (W, 0 = estimate)', min: 0, max: 600, step: 5 },
+];
+
+const DISPLAY_OPTIONS: { key: Exclude<keyof DisplaySettings, 'language'>; options: { value: string; label: string }[] }[] = [
+  { key: 'units', options: [{ value: 'metric', label: 'Metric' }, { value: 'imperial', label: 'Imperial' }] },
+  { key: 'speedDisplay', options: [{ value: 'speed', label: 'Speed' }, { value: 'pace', label: 'Pace' }] },
+  { key: 'clock', options: [{ value: '24h', label: '24 h' }, { value: '12h', label: '12 h' }] },
+];
+
+const CUE_EVENTS: { kind: CueKind; label: string }[] = [
+  { kind: 'split', label: 'Each split' },
+  { kind: 'time', label: 'Elapsed time' },
+  { kind: 'gps', label: 'GPS lost or back' },
+  { kind: 'speed', label: 'Off target speed' },
+  { kind: 'autoPause', label: 'Auto-pause' },
+];
+
+const sameError = (a: SimulatedError, b: SimulatedError) => a.at === b.at && a.code === b.code;
+
+const SettingsPanel: React.FC<Props> = ({ settings, onChange }) => {
+  const { autoPause, trackFilter, locationSource, simulator, profile, display, cues } = settings;
+  const format = createFormatter(display);
+  const [replayableRides, setReplayableRides] = useState<SavedRide[]>([]);
+
+  useEffect(() => {
+    if (locationSource !== 'simulator') return;
+    listRides()
+      .then(setReplayableRides)
+      .catch((err) => console.error('Failed to load rides for replay:', err));
+  }, [locationSource]);
+
+  const updateAutoPause = (changes: Partial<AppSettings['autoPause']>) =>
+    onChange({ ...settings, autoPause: { ...autoPause, ...changes } });
+
+  const updateTrackFilter = (changes: Partial<AppSettings['trackFilter']>) =>
+    onChange({ ...settings, trackFilter: { ...trackFilter, ...changes } });
+
+  const updateSimulator = (changes: Partial<AppSettings['simulator']>) =>
+    onChange({ ...settings, simulator: { ...simulator, ...changes } });
+
+  const updateDisplay = (changes: Partial<DisplaySettings>) =>
+    onChange({ ...settings, display: { ...display, ...changes } });
+
+  const updateCues = (changes: Partial<AppSettings['cues']>) =>
+    onChange({ ...settings, cues: { ...cues, ...changes } });
+
+  const updateProfile = (changes: Partial<RiderProfile>) =>
+    onChange({ ...settings, profile: { ...profile, ...changes } });
+
+  const toggleSimulatedError = (error: SimulatedError, enabled: boolean) => {
+    const others = simulator.errors.filter((e) => !sameError(e, error));
+    updateSimulator({ errors: enabled ? [...others, error] : others });
+  };
+
+  return (
+    <div className="glass p-6 rounded-3xl border border-slate-700/50">
+      <h3 className="text-sm font-bold text-slate-400 uppercase tracking-widest mb-4 flex items-center gap-2">
+        <Settings className="w-4 h-4 text-neon" /> Settings
+      </h3>
+
+      <div className="space-y-4">
+        <div className="space-y-3">
+          <span className="text-xs font-bold text-slate-200">
+            Units &amp; language
+            <span className="block text-[10px] font-medium text-slate-500 mt-0.5">Used on every screen and in AI coaching</span>
+          </span>
+          {DISPLAY_OPTIONS.map(({ key, options }) => (
+            <div key={key} className="flex gap-1">
+              {options.map(({ value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => updateDisplay({ [key]: value })}
+                  className={`flex-1 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wider border transition-colors ${display[key] === value ? 'bg-neon/10 border-neon/30 text-neon' : 'bg-slate-900 border-slate-800 text-slate-400 hover:text-white'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          ))}
+          <label className="block">
+            <span className="text-[10px] font-bold text-slate-500 uppercase tracking-tighter">Language</span>
+            <select
+              value={display.language}
+              onChange={(e) => updateDisplay({ language: e.target.value })}
+              className="mt-1 w-full bg-slate-950 border border-slate-700 rounded-lg px-2 py-1 text-xs text-white focus:outline-none focus:border-lime-500"
+            >
+              {LANGUAGES.map(({ tag, name }) => (
+                <option key={tag} value={tag}>{name}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <label className="flex items-center justify-between gap-3 cursor-pointer pt-4 border-t border-slate-800">
+          <span className="text-xs font-bold text-slate-200">
+            Auto-pause
+            <span className="block text-[10px] font-medium text-slate-500 mt-0.5">Stop the moving-time clock when you stop riding</span>
+          </span>
+          <input
+            type="checkbox"
+            checked={autoPause.enabled}
+            onChange={(e) => updateAutoPause({ enabled: e.target.checked })}
+            className="w-4 h-4 accent-lime-500"
+          />
+        </label>
+
+        <div className={`grid grid-cols-2 gap-3 ${autoPause.enabled ? '' : 'opacity-50 pointer-events-none'}`}>
+          <label className="block">
+            <span className="text-[10px] font-bold text-slate-500 uppercase tracking-tighter">Below ({format.speedUnit})</span>
+            <input
+              type="number"
+              min={1}
+              max={15}
+              step={0.5}
+              value={+format.speedValue(autoPause.speedThreshold).toFixed(1)}
+              onChange={(e) => {
+                const speed = parseFloat(e.target.value);
+                if (speed > 0) updateAutoPause({ speedThreshold: speed / format.speedValue(1) });
+              }}
+              className="mt-1 w-full bg-slate-950 border border-slate-700 rounded-lg px-2 py-1 text-xs text-white tabular-nums focus:outline-none focus:border-lime-500"
+            />
+          </label>
+          <label className="block">
+            <span className="text-[10px] font-bold text-slate-500 uppercase tracking-tighter">For (seconds)</span>
+            <input
+              type="number"
+              min={2}
+              max={60}
+              step={1}
+              value={autoPause.stopDelay}
+              onChange={(e) => {
+                const seconds = parseInt(e.target.value, 10);
+                if (seconds > 0) updateAutoPause({ stopDelay: seconds });
+              }}
+              className="mt-1 w-full bg-slate-950 border border-slate-700 rounded-lg px-2 py-1 text-xs text-white tabular-nums focus:outline-none focus:border-lime-500"
+            />
+          </label>
+        </div>
+
+        <div className="pt-4 border-t border-slate-800 space-y-4">
+          <label className="flex items-center justify-between gap-3 cursor-pointer">
+            <span className="text-xs font-bold text-slate-200">
+              Smooth GPS track
+              <span className="block text-[10px] font-medium text-slate-500 mt-0.5">Filter out jitter when stopped or under trees</span>
+            </span>
+            <input
+              type="checkbox"
+              checked={trackFilter.smoothing}
+              onChange={(e) => updateTrackFilter({ smoothing: e.target.checked })}
+              className="w-4 h-4 accent-lime-500"
+            />
+          </label>
+
+          <label className="block">
+            <span className="text-[10px] font-bold text-slate-500 uppercase tracking-tighter">Ignore fixes less accurate than (m)</span>
+            <input
+              type="number"
+              min={5}
+              max={200}
+              step={5}
+              value={trackFilter.maxAccuracy}
+              onChange={(e) => {
+                const metres = parseInt(e.target.value, 10);
+                if (metres > 0) updateTrackFilter({ maxAccuracy: metres });
+              }}
+              className="mt-1 w-full bg-slate-950 border border-slate-700 rounded-lg px-2 py-1 text-xs text-white tabular-nums focus:outline-none focus:border-lime-500"
+            />
+          </label>
+        </div>
+
+        <div className="pt-4 border-t border-slate-800">
+          <label className="block">
+            <span className="text-[10px] font-bold text-slate-500 uppercase tracking-tighter">Automatic splits every</span>
+            <select
+              value={settings.splitUnit}
+              onChange={(e) => onChange({ ...settings, splitUnit: e.target.value as AppSettings['splitUnit'] })}
+              className="mt-1 w-full bg-slate-950 border border-slate-700 rounded-lg px-2 py-1 text-xs text-white focus:outline-none focus:border-lime-500"
+            >
+              <option value="km">Kilometre</option>
+              <option value="mi">Mile</option>
+            </select>
+          </label>
+          <label className="block mt-3">
+            <span className="text-[10px] font-bold text-slate-500 uppercase tracking-tighter">Off-course alert after (m)</span>
+            <input
+              type="number"
+              min={10}
+              max={500}
+              step={10}
+              value={settings.offCourseDistance}
+              onChange={(e) => {
+                const metres = parseInt(e.target.value, 10);
+                if (metres > 0) onChange({ ...settings, offCourseDistance: metres });
+              }}
+              className="mt-1 w-full bg-slate-950 border border-slate-700 rounded-lg px-2 py-1 text-xs text-white tabular-nums focus:outline-none focus:border-lime-500"
+            />
+          </label>
+        </div>
+
+        <div className="pt-4 border-t border-slate-800 space-y-4">
+          <label className="flex items-center justify-between gap-3 cursor-pointer">
+            <span className="text-xs font-bold text-slate-200">
+              Voice &amp; vibration cues
+              <span className="block text-[10px] font-medium text-slate-500 mt-0.5">Hear how the ride is going without looking at the screen (spoken in English)</span>
+            </span>
+            <input
+              type="checkbox"
+              checked={cues.enabled}
+              onChange={(e) => updateCues({ enabled: e.target.checked })}
+              className="w-4 h-4 accent-lime-500"
+            />
+          </label>
+
+          <div className={`space-y-4 ${cues.enabled ? '' : 'opacity-50 pointer-events-none'}`}>
+            <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={cues.quiet}
+                onChange={(e) => updateCues({ quiet: e.target.checked })}
+                className="w-3 h-3 accent-lime-500"
+              />
+              Quiet mode (vibrate only)
+            </label>
+
+            <div className="space-y-2">
+              <span className="text-[10px] font-bold text-slate-500 uppercase tracking-tighter">Announce</span>
+              {CUE_EVENTS.map(({ kind, label }) => (
+                <label key={kind} className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={cues.events[kind]}
+                    onChange={(e) => updateCues({ events: { ...cues.events, [kind]: e.target.checked } })}
+                    className="w-3 h-3 accent-lime-500"
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <label className="block">
+                <span className="text-[10px] font-bold text-slate-500 uppercase tracking-tighter">Every (min)</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={120}
+                  step={1}
+                  value={cues.timeInterval}
+                  onChange={(e) => {
+                    const minutes = parseInt(e.target.value, 10);
+                    if (minutes > 0) updateCues({ timeInterval: minutes });
+                  }}
+                  className="mt-1 w-full bg-slate-950 border border-slate-700 rounded-lg px-2 py-1 text-xs text-white tabular-nums focus:outline-none focus:border-lime-500"
+                />
+              </label>
+              {(['minSpeed', 'maxSpeed'] as const).map((key) => (
+                <label key={key} className="block">
+                  <span className="text-[10px] font-bold text-slate-500 uppercase tracking-tighter">
+                    {key === 'minSpeed' ? 'Min' : 'Max'} ({format.speedUnit})
+                  </span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step={0.5}
+                    value={+format.speedValue(cues[key]).toFixed(1)}
+                    onChange={(e) => {
+                      const speed = parseFloat(e.target.value);
+                      if (speed >= 0) updateCues({ [key]: speed / format.speedValue(1) });
+                    }}
+                    className="mt-1 w-full bg-slate-950 border border-slate-700 rounded-lg px-2 py-1 text-xs text-white tabular-nums focus:outline-none focus:border-lime-500"
+                  />
+                </label>
+              ))}
+            </div>
+            <p className="text-[10px] text-slate-500">Target speeds of 0 are ignored.</p>
+          </div>
+        </div>
+
+        <div className="pt-4 border-t border-slate-800">
+          <span className="text-xs font-bold text-slate-200">
+            Rider profile
+            <span className="block text-[10px] font-medium text-slate-500 mt-0.5">Used to estimate power, energy and training load</span>
+          </span>
+          <div className="grid grid-cols-2 gap-3 mt-3">
+            {PROFILE_FIELDS.map(({ key, label, min, max, step }) => (
+              <label key={key} className="block">
+                <span className="text-[10px] font-bold text-slate-500 uppercase tracking-tighter">{label}</span>
+                <input
+                  type="number"
+                  min={min}
+                  max={max}
+                  step={step}
+                  value={profile[key]}
+                  onChange={(e) => {
+                    const value = parseFloat(e.target.value);
+                    if (value >= min && value <= max) updateProfile({ [key]: value });
+                  }}
+                  className="mt-1 w-full bg-slate-950 border border-slate-700 rounded-lg px-2 py-1 text-xs text-white tabular-nums focus:outline-none focus:border-lime-500"
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="pt-4 border-t border-slate-800 space-y-4">
+          <label className="block">
+            <span className="text-[10px] font-bold text-slate-500 uppercase tracking-tighter">Location source</span>
+            <select
+              value={locationSource}
+              onChange={(e) => onChange({ ...settings, locationSource: e.target.value as AppSettings['locationSource'] })}
+              className="mt-1 w-full bg-slate-950 border border-slate-700 rounded-lg px-2 py-1 text-xs text-white focus:outline-none focus:border-lime-500"
+            >
+              <option value="gps">Device GPS</option>
+              <option value="simulator">GPS simulator</option>
+            </select>
+          </label>
+
+          {locationSource === 'simulator' && (
+            <>
+              <div className="grid grid-cols-2 gap-3">
+                <label className="block">
+                  <span className="text-[10px] font-bold text-slate-500 uppercase tracking-tighter">Replay</span>
+                  <select
+                    value={simulator.rideId ?? ''}
+                    onChange={(e) => updateSimulator({ rideId: e.target.value || null })}
+                    className="mt-1 w-full bg-slate-950 border border-slate-700 rounded-lg px-2 py-1 text-xs text-white focus:outline-none focus:border-lime-500"
+                  >
+                    <option value="">Synthetic loop</option>
+                    {replayableRides.map((ride) => (
+                      <option key={ride.id} value={ride.id}>{ride.name}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="block">
+                  <span className="text-[10px] font-bold text-slate-500 uppercase tracking-tighter">Speed</span>
+                  <select
+                    value={simulator.speedFactor}
+                    onChange={(e) => updateSimulator({ speedFactor: parseFloat(e.target.value) })}
+                    className="mt-1 w-full bg-slate-950 border border-slate-700 rounded-lg px-2 py-1 text-xs text-white focus:outline-none focus:border-lime-500"
+                  >
+                    {SIMULATOR_SPEEDS.map((factor) => (
+                      <option key={factor} value={factor}>{factor}×</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+
+              <div className="space-y-2">
+                <span className="text-[10px] font-bold text-slate-500 uppercase tracking-tighter">Inject errors</span>
+                {SIMULATED_ERRORS.map(({ label, error }) => (
+                  <label key={label} className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={simulator.errors.some((e) => sameError(e, error))}
+                      onChange={(e) => toggleSimulatedError(error, e.target.checked)}
+                      className="w-3 h-3 accent-lime-500"
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,70 @@
+
+import React, { useState } from 'react';
+import { RefreshCw, Share2 } from 'lucide-react';
+import { RoutePoint } from '../types';
+import { Formatter } from '../utils/format';
+import { SharedStats, createShareLink } from '../utils/shareLink';
+import { renderShareCard } from '../utils/shareCard';
+import { exportFileName } from '../utils/rideExport';
+import { shareImage, shareLink } from '../services/share';
+
+interface Props {
+  ride: {
+    name: string;
+    title: string | null; // AI insight title
+    route: RoutePoint[];
+    stats: SharedStats;
+  };
+  format: Formatter;
+}
+
+const ShareButtons: React.FC<Props> = ({ ride, format }) => {
+  const [busy, setBusy] = useState<'card' | 'link' | null>(null);
+
+  const handleCard = async () => {
+    setBusy('card');
+    try {
+      const blob = await renderShareCard(ride, format);
+      await shareImage(blob, exportFileName(ride, 'png'), ride.name);
+    } catch (err) {
+      console.error(err);
+      alert(err instanceof Error ? err.message : "Failed to create the ride card.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleLink = async () => {
+    setBusy('link');
+    try {
+      const url = createShareLink(ride, window.location.href);
+      if (await shareLink(url, ride.name) === 'copied') alert("Link copied. Anyone can open it to see this ride.");
+    } catch (err) {
+      console.error(err);
+      alert(err instanceof Error ? err.message : "Failed to share the ride link.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-[10px] font-bold text-slate-500 uppercase tracking-tighter flex items-center gap-1 mr-1">
+        <Share2 className="w-3 h-3" /> Share
+      </span>
+      {([['card', 'Card', handleCard], ['link', 'Link', handleLink]] as const).map(([kind, label, onClick]) => (
+        <button
+          key={kind}
+          onClick={onClick}
+          disabled={busy !== null}
+          className="px-3 py-1.5 rounded-lg bg-slate-900 border border-slate-800 text-[10px] font-bold uppercase tracking-wider text-slate-300 hover:border-lime-500/50 hover:text-white transition-colors disabled:opacity-50 flex items-center gap-1"
+        >
+          {busy === kind && <RefreshCw className="w-3 h-3 animate-spin" />}
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default ShareButtons;
@@ -0,0 +1,85 @@
+
+import React, { useMemo } from 'react';
+import { Activity, ArrowUp, Bike, Clock, Eye, Navigation, TrendingUp, Timer } from 'lucide-react';
+import { RoutePoint } from '../types';
+import { Formatter } from '../utils/format';
+import { SharedRide } from '../utils/shareLink';
+import StatsCard from './StatsCard';
+import RouteVisualizer from './RouteVisualizer';
+import ShareButtons from './ShareButtons';
+
+interface Props {
+  ride: SharedRide;
+  format: Formatter;
+  onClose: () => void;
+}
+
+// A ride opened from a share link: only what the link carries, nothing saved
+const SharedRideView: React.FC<Props> = ({ ride, format, onClose }) => {
+  const { stats } = ride;
+  const route = useMemo<RoutePoint[]>(
+    () => ride.route.map(({ latitude, longitude }) => ({ latitude, longitude, timestamp: 0, speed: 0, altitude: null })),
+    [ride.route],
+  );
+  const pace = format.display.speedDisplay === 'pace';
+  const distance = format.distance(stats.totalDistance);
+  const avgSpeed = format.speed(stats.avgSpeed);
+  const maxSpeed = format.speed(stats.maxSpeed);
+  const climb = format.elevation(stats.elevationGain);
+
+  return (
+    <div className="min-h-screen bg-slate-950 p-4 md:p-8 max-w-3xl mx-auto space-y-6">
+      <header className="flex justify-between items-center py-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-neon rounded-xl flex items-center justify-center shadow-[0_0_20px_rgba(132,204,22,0.3)]">
+            <Bike className="text-slate-900 w-6 h-6" />
+          </div>
+          <div>
+            <h1 className="text-xl font-extrabold tracking-tight text-white leading-none">VELO<span className="text-neon">AI</span></h1>
+            <p className="text-[10px] uppercase tracking-widest text-slate-500 font-bold mt-1">Shared Ride</p>
+          </div>
+        </div>
+        <button
+          onClick={onClose}
+          className="px-4 py-2 rounded-xl glass border border-slate-700 text-xs font-bold uppercase tracking-wider text-slate-300 hover:text-white transition-colors"
+        >
+          Open VeloAI
+        </button>
+      </header>
+
+      <div className="glass p-6 rounded-3xl border border-slate-700/50 space-y-1">
+        <div className="flex items-center justify-between gap-3">
+          <h2 className="text-lg font-bold text-white truncate">{ride.name}</h2>
+          <span className="flex-shrink-0 flex items-center gap-1 px-2 py-0.5 rounded-full border border-slate-700 text-[10px] font-bold uppercase tracking-wider text-slate-400">
+            <Eye className="w-3 h-3" /> Read only
+          </span>
+        </div>
+        {ride.title && <p className="text-sm font-bold text-lime-400">{ride.title}</p>}
+        {stats.startTime !== null && (
+          <p className="text-[10px] font-bold text-slate-500 uppercase tracking-tighter">
+            {format.date(stats.startTime)} {format.time(stats.startTime)}
+          </p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+        <StatsCard label="Distance" value={distance.value} unit={distance.unit} icon={<Navigation className="w-3 h-3" />} />
+        <StatsCard label="Moving" value={format.duration(Math.round(stats.movingTime))} icon={<Clock className="w-3 h-3" />} />
+        <StatsCard label={pace ? 'Avg Pace' : 'Avg Spd'} value={avgSpeed.value} unit={avgSpeed.unit} icon={<Activity className="w-3 h-3" />} />
+        <StatsCard label="Climb" value={climb.value} unit={climb.unit} icon={<ArrowUp className="w-3 h-3" />} />
+        <StatsCard label={pace ? 'Best Pace' : 'Max Spd'} value={maxSpeed.value} unit={maxSpeed.unit} icon={<TrendingUp className="w-3 h-3" />} />
+        <StatsCard label="Elapsed" value={format.duration(Math.round(stats.duration))} icon={<Timer className="w-3 h-3" />} />
+      </div>
+
+      {route.length > 1 ? (
+        <RouteVisualizer route={route} />
+      ) : (
+        <p className="text-xs text-slate-500">This link has no track to show.</p>
+      )}
+
+      <ShareButtons ride={{ name: ride.name, title: ride.title, route, stats }} format={format} />
+    </div>
+  );
+};
+
+export default SharedRideView;
@@ -0,0 +1,81 @@
+
+import React, { useMemo, useState } from 'react';
+import { ListOrdered } from 'lucide-react';
+import { RoutePoint } from '../types';
+import { Formatter } from '../utils/format';
+import { SplitUnit, SPLIT_DISTANCES, computeLaps, computeSplits } from '../utils/splits';
+
+interface Props {
+  route: RoutePoint[];
+  unit: SplitUnit;
+  elevationThreshold: number;
+  format: Formatter;
+}
+
+const SplitsTable: React.FC<Props> = ({ route, unit, elevationThreshold, format }) => {
+  const [view, setView] = useState<'splits' | 'laps'>('splits');
+  const splits = useMemo(() => computeSplits(route, SPLIT_DISTANCES[unit], elevationThreshold), [route, unit, elevationThreshold]);
+  const laps = useMemo(() => computeLaps(route, elevationThreshold), [route, elevationThreshold]);
+
+  const rows = view === 'laps' && laps.length > 0 ? laps : splits;
+  if (splits.length === 0) return null;
+
+  // Shade each row's avg speed against the fastest so pacing is visible at a glance
+  const fastest = Math.max(...rows.map((r) => r.avgSpeed), 0);
+  const pace = format.display.speedDisplay === 'pace';
+
+  return (
+    <div className="glass p-6 rounded-3xl border border-slate-700/50">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-bold text-slate-400 uppercase tracking-widest flex items-center gap-2">
+          <ListOrdered className="w-4 h-4 text-neon" /> {view === 'laps' && laps.length > 0 ? 'Laps' : 'Splits'}
+        </h3>
+        {laps.length > 0 && (
+          <div className="flex gap-1">
+            {(['splits', 'laps'] as const).map((v) => (
+              <button
+                key={v}
+                onClick={() => setView(v)}
+                className={`px-3 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wider border transition-colors ${view === v ? 'bg-neon/10 border-neon/30 text-neon' : 'bg-slate-900 border-slate-800 text-slate-400 hover:text-white'}`}
+              >
+                {v}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <table className="w-full text-xs tabular-nums">
+        <thead>
+          <tr className="text-[10px] font-bold text-slate-500 uppercase tracking-tighter text-right">
+            <th className="text-left pb-2">#</th>
+            <th className="pb-2">Dist ({unit})</th>
+            <th className="pb-2">Time</th>
+            <th className="pb-2">Avg</th>
+            <th className="pb-2">Max</th>
+            <th className="pb-2">Climb ({format.elevationUnit})</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.index} className="border-t border-slate-800 text-right text-slate-300">
+              <td className="text-left py-2 font-bold text-slate-500">{row.index}</td>
+              <td className="py-2">{format.number(row.distance / SPLIT_DISTANCES[unit], 2)}</td>
+              <td className="py-2">{format.duration(Math.round(row.duration))}</td>
+              <td className="py-2">
+                <span className={`font-bold ${fastest > 0 && row.avgSpeed >= fastest * 0.95 ? 'text-neon' : 'text-white'}`}>
+                  {format.speed(row.avgSpeed).value}
+                </span>
+              </td>
+              <td className="py-2">{format.speed(row.maxSpeed).value}</td>
+              <td className="py-2">{format.elevation(row.elevationGain).value}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-[10px] text-slate-500 mt-3">{pace ? `Pace in min/${format.distanceUnit}.` : `Speeds in ${format.speedUnit}.`}</p>
+    </div>
+  );
+};
+
+export default SplitsTable;
@@ -0,0 +1,293 @@
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ChartColumn, Cpu, RefreshCw, Target } from 'lucide-react';
+import { WorkoutIntensity } from '../types';
+import { RiderProfile } from '../utils/power';
+import { Formatter } from '../utils/format';
+import { RideSummary, TrendBucket, TrendPeriod, buildTrends, summarizeRide } from '../utils/trends';
+import { listRides } from '../services/rideRepository';
+import { getTrainingReview } from '../services/ai';
+import { isConnectionError } from '../services/requestQueue';
+import { StoredReview, loadReview, saveReview } from '../services/trainingReview';
+import { MAX_REVIEW_RIDES, REVIEW_WEEKS, ReviewRequest } from '../server/contract';
+
+type TrendMetric = 'distance' | 'time' | 'elevation' | 'speed';
+
+interface Props {
+  refreshKey: number;
+  profile: RiderProfile;
+  onQueue: (request: ReviewRequest) => void; // offline: send it when the connection returns
+  format: Formatter;
+}
+
+const METRICS: Record<TrendMetric, {
+  label: string;
+  color: string;
+  digits: number;
+  unit: (format: Formatter) => string;
+  value: (b: TrendBucket, format: Formatter) => number;
+}> = {
+  distance: { label: 'Distance', color: '#84cc16', digits: 0, unit: (f) => f.distanceUnit, value: (b, f) => f.distanceValue(b.distance) },
+  time: { label: 'Time', color: '#38bdf8', digits: 1, unit: () => 'h', value: (b) => b.movingTime / 3600 },
+  elevation: { label: 'Elevation', color: '#a78bfa', digits: 0, unit: (f) => f.elevationUnit, value: (b, f) => f.elevationValue(b.elevationGain) },
+  speed: { label: 'Speed', color: '#fbbf24', digits: 1, unit: (f) => f.speedUnit, value: (b, f) => f.speedValue(b.avgSpeed) },
+};
+
+const PERIODS: TrendPeriod[] = ['week', 'month'];
+const BUCKETS = 12;
+
+const WIDTH = 300;
+const HEIGHT = 80;
+const BAR_GAP = 0.25; // fraction of each slot left empty
+
+const INTENSITY_STYLES: Record<WorkoutIntensity, string> = {
+  rest: 'text-slate-500',
+  easy: 'text-sky-400',
+  moderate: 'text-amber-400',
+  hard: 'text-red-400',
+};
+
+const periodLabel = (start: number, period: TrendPeriod, format: Formatter) =>
+  format.date(start, period === 'month' ? { month: 'short' } : { month: 'short', day: 'numeric' });
+
+const TrendsPanel: React.FC<Props> = ({ refreshKey, profile, onQueue, format }) => {
+  const [rides, setRides] = useState<RideSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [period, setPeriod] = useState<TrendPeriod>('week');
+  const [metric, setMetric] = useState<TrendMetric>('distance');
+  const [selected, setSelected] = useState<number | null>(null);
+  const [review, setReview] = useState<StoredReview | null>(loadReview);
+  const [isReviewing, setIsReviewing] = useState(false);
+  const reviewAbortRef = useRef<AbortController | null>(null);
+
+  // A review queued while offline may have arrived since
+  useEffect(() => {
+    setReview(loadReview());
+    let cancelled = false;
+    listRides()
+      .then((list) => { if (!cancelled) setRides(list.map(summarizeRide)); })
+      .catch((err) => console.error('Failed to load rides for trends:', err))
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [refreshKey]);
+
+  useEffect(() => () => reviewAbortRef.current?.abort(), []);
+
+  const buckets = useMemo(() => buildTrends(rides, period, BUCKETS), [rides, period]);
+  const { color, digits } = METRICS[metric];
+  const unit = METRICS[metric].unit(format);
+  const value = useMemo(() => (b: TrendBucket) => METRICS[metric].value(b, format), [metric, format]);
+
+  const chart = useMemo(() => {
+    const values = buckets.map(value);
+    const max = Math.max(...values) || 1;
+    const slot = WIDTH / values.length;
+    const y = (v: number) => HEIGHT - (v / max) * (HEIGHT - 4);
+    // Speed is an average, so it reads as a line; empty periods break it
+    const segments: string[] = [];
+    let line = '';
+    values.forEach((v, i) => {
+      if (buckets[i].movingTime <= 0) {
+        if (line) segments.push(line);
+        line = '';
+        return;
+      }
+      line += `${line ? ' L' : 'M'} ${slot * (i + 0.5)} ${y(v)}`;
+    });
+    if (line) segments.push(line);
+    return { values, slot, y, segments };
+  }, [buckets, value]);
+
+  const shown = selected !== null && selected < buckets.length ? selected : buckets.length - 1;
+
+  const handleReview = async () => {
+    if (isReviewing) {
+      reviewAbortRef.current?.abort();
+      return;
+    }
+    const weeks = buildTrends(rides, 'week', REVIEW_WEEKS);
+    const request: ReviewRequest = {
+      weeks,
+      rides: rides
+        .filter((ride) => ride.date >= weeks[0].start)
+        .sort((a, b) => a.date - b.date)
+        .slice(-MAX_REVIEW_RIDES),
+      rider: profile,
+      locale: { units: format.display.units, language: format.display.language },
+    };
+    if (request.rides.length === 0) {
+      alert(`Record or import a ride from the last ${REVIEW_WEEKS} weeks to get a training review.`);
+      return;
+    }
+
+    const controller = new AbortController();
+    reviewAbortRef.current = controller;
+    setIsReviewing(true);
+    try {
+      const stored = { review: await getTrainingReview(request, controller.signal), createdAt: Date.now() };
+      setReview(stored);
+      saveReview(stored);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      if (isConnectionError(err)) {
+        onQueue(request);
+        return;
+      }
+      console.error(err);
+      alert(err instanceof Error ? err.message : "Failed to get a training review.");
+    } finally {
+      if (reviewAbortRef.current === controller) reviewAbortRef.current = null;
+      setIsReviewing(false);
+    }
+  };
+
+  return (
+    <div className="glass p-6 rounded-3xl border border-slate-700/50">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-bold text-slate-400 uppercase tracking-widest flex items-center gap-2">
+          <ChartColumn className="w-4 h-4 text-neon" /> Trends
+        </h3>
+        <div className="flex gap-1">
+          {PERIODS.map((p) => (
+            <button
+              key={p}
+              onClick={() => { setPeriod(p); setSelected(null); }}
+              className={`px-3 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wider border transition-colors ${period === p ? 'bg-neon/10 border-neon/30 text-neon' : 'bg-slate-900 border-slate-800 text-slate-400 hover:text-white'}`}
+            >
+              {p}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <p className="text-xs text-slate-500">Loading rides...</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex gap-1">
+            {(Object.keys(METRICS) as TrendMetric[]).map((m) => (
+              <button
+                key={m}
+                onClick={() => setMetric(m)}
+                className={`flex-1 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wider border transition-colors ${metric === m ? 'bg-neon/10 border-neon/30 text-neon' : 'bg-slate-900 border-slate-800 text-slate-400 hover:text-white'}`}
+              >
+                {METRICS[m].label}
+              </button>
+            ))}
+          </div>
+
+          <div>
+            <div className="flex items-baseline justify-between mb-1">
+              <span className="text-[10px] font-bold text-slate-500 uppercase tracking-tighter">
+                {period === 'week' ? 'Week of ' : ''}{periodLabel(buckets[shown].start, period, format)} · {buckets[shown].rides} rides
+              </span>
+              <span className="text-xs font-bold text-white tabular-nums">
+                {format.number(chart.values[shown], digits)} {unit}
+              </span>
+            </div>
+            <svg
+              viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+              preserveAspectRatio="none"
+              className="w-full h-20 cursor-pointer"
+              onPointerLeave={() => setSelected(null)}
+            >
+              {chart.values.map((v, i) => (
+                <rect
+                  key={i}
+                  x={chart.slot * i}
+                  y="0"
+                  width={chart.slot}
+                  height={HEIGHT}
+                  fill={i === shown ? '#fff' : 'transparent'}
+                  fillOpacity="0.05"
+                  onPointerEnter={() => setSelected(i)}
+                  onPointerDown={() => setSelected(i)}
+                />
+              ))}
+              {metric === 'speed'
+                ? chart.segments.map((d, i) => (
+                    <path key={i} d={d} fill="none" stroke={color} strokeWidth="1.5" vectorEffect="non-scaling-stroke" pointerEvents="none" />
+                  ))
+                : chart.values.map((v, i) => (
+                    <rect
+                      key={i}
+                      x={chart.slot * (i + BAR_GAP / 2)}
+                      y={chart.y(v)}
+                      width={chart.slot * (1 - BAR_GAP)}
+                      height={HEIGHT - chart.y(v)}
+                      fill={color}
+                      fillOpacity={i === shown ? 0.9 : 0.5}
+                      pointerEvents="none"
+                    />
+                  ))}
+            </svg>
+            <div className="flex justify-between text-[10px] text-slate-600 mt-1">
+              <span>{periodLabel(buckets[0].start, period, format)}</span>
+              <span>{period === 'week' ? 'This week' : 'This month'}</span>
+            </div>
+          </div>
+
+          <div className="pt-4 border-t border-slate-800 space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="text-[10px] font-bold text-slate-500 uppercase tracking-tighter">Weekly Review</span>
+              {review && (
+                <span className="text-[10px] text-slate-600">
+                  {format.date(review.createdAt, { month: 'short', day: 'numeric' })}
+                </span>
+              )}
+            </div>
+
+            {review && (
+              <div className="space-y-3">
+                <div className="p-3 bg-neon/10 rounded-xl border border-neon/20">
+                  <h4 className="text-lime-400 font-bold mb-1">{review.review.title}</h4>
+                  <p className="text-slate-300 text-xs leading-relaxed">{review.review.summary}</p>
+                </div>
+                {review.review.highlights.length > 0 && (
+                  <ul className="space-y-1">
+                    {review.review.highlights.map((highlight, i) => (
+                      <li key={i} className="text-xs text-slate-400 leading-tight">• {highlight}</li>
+                    ))}
+                  </ul>
+                )}
+                <div className="space-y-2">
+                  {review.review.goals.map((goal, i) => (
+                    <div key={i} className="flex gap-3 p-2 rounded-lg bg-slate-900/50 border border-slate-800">
+                      <Target className="flex-shrink-0 w-4 h-4 text-neon" />
+                      <div>
+                        <p className="text-xs font-bold text-slate-200">{goal.title}</p>
+                        <p className="text-[10px] text-slate-500">{goal.target}</p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                <div className="rounded-xl border border-slate-800 divide-y divide-slate-800">
+                  {review.review.plan.map((day, i) => (
+                    <div key={i} className="flex items-start gap-3 px-3 py-2 text-xs">
+                      <span className="w-8 flex-shrink-0 font-bold text-slate-400">{day.day.slice(0, 3)}</span>
+                      <span className="flex-1 text-slate-300 leading-tight">{day.workout}</span>
+                      <span className={`flex-shrink-0 text-[10px] font-bold uppercase ${INTENSITY_STYLES[day.intensity]}`}>
+                        {day.minutes > 0 ? `${day.minutes} min` : day.intensity}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <button
+              onClick={handleReview}
+              disabled={!isReviewing && rides.length === 0}
+              className="w-full py-3 rounded-xl glass border border-slate-700 text-xs font-bold uppercase tracking-wider flex items-center justify-center gap-2 hover:bg-slate-800 transition-colors disabled:opacity-50"
+            >
+              {isReviewing ? <RefreshCw className="w-3 h-3 animate-spin" /> : <Cpu className="w-3 h-3" />}
+              {isReviewing ? 'Reviewing... Tap to cancel' : review ? 'Refresh Review' : 'Review My Training'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TrendsPanel;
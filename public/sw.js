@@ -0,0 +1,65 @@
+// Offline support for the installed app. The app shell and built assets are
+// cached so the app starts without a connection; API calls always go to the
+// network, and the app queues AI requests itself (services/requestQueue.ts).
+
+// Written by the build (vite.config.ts): the hashed asset list and a version
+// that changes with it, which also makes the browser install this worker anew
+importScripts("/precache-manifest.js");
+
+const CACHE = `velo-ai-${self.PRECACHE_VERSION}`;
+const SHELL = ["/", "/manifest.webmanifest", "/icon.svg"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE)
+      .then((cache) => cache.addAll([...SHELL, ...self.PRECACHE_FILES]))
+      .then(() => self.skipWaiting())
+  );
+});
+
+// Assets from older builds are dropped once this version takes over
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key.startsWith("velo-ai-") && key !== CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const putInCache = (request, response) => {
+  // Opaque responses (cross-origin fonts) can't be checked but are still usable
+  if (response.ok || response.type === "opaque") {
+    const copy = response.clone();
+    caches.open(CACHE).then((cache) => cache.put(request, copy));
+  }
+  return response;
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+  if (url.origin === self.location.origin && url.pathname.startsWith("/api/")) return;
+
+  // Pages: the network when it answers, so a new build shows up straight away
+  if (request.mode === "navigate") {
+    event.respondWith(
+      fetch(request)
+        .then((response) => putInCache("/", response))
+        .catch(() => caches.match("/").then((cached) => cached ?? Response.error()))
+    );
+    return;
+  }
+
+  // Everything else: the cached copy, refreshed in the background
+  event.respondWith(
+    caches.match(request).then((cached) => {
+      const network = fetch(request).then((response) => putInCache(request, response));
+      if (!cached) return network;
+      network.catch(() => {});
+      return cached;
+    })
+  );
+});
@@ -0,0 +1,72 @@
+
+import { RideStats } from "../../types";
+import { DEFAULT_RIDER_PROFILE } from "../../utils/power";
+import { syntheticTrack } from "../../utils/__fixtures__/syntheticTracks";
+import { AnalysisRequest, ChatRequest, ReviewRequest } from "../contract";
+
+// Well-formed request bodies for the API tests; each test breaks the part it
+// is about.
+
+const stats: RideStats = {
+  totalDistance: 960,
+  avgSpeed: 8,
+  maxSpeed: 8,
+  duration: 120,
+  movingTime: 120,
+  startTime: Date.parse("2024-05-04T07:30:00Z"),
+  elevationGain: 0,
+  elevationLoss: 0,
+  maxGrade: 0,
+  calories: 40,
+  avgPower: 150,
+  normalizedPower: 155,
+  work: 18,
+  intensityFactor: 0.6,
+  trainingLoad: 1.2,
+};
+
+export const analysisBody = (): AnalysisRequest => ({
+  stats,
+  route: syntheticTrack({ seconds: 120, speed: 8 }),
+  pacing: {
+    unit: "km",
+    splits: [{ index: 1, distance: 960, duration: 120, avgSpeed: 8, maxSpeed: 8, elevationGain: 0 }],
+    laps: [],
+  },
+  rider: DEFAULT_RIDER_PROFILE,
+  ghost: null,
+  locale: { units: "metric", language: "en" },
+});
+
+export const chatBody = (): ChatRequest => ({
+  ...analysisBody(),
+  messages: [{ role: "user", text: "How was my pacing?" }],
+});
+
+export const reviewBody = (): ReviewRequest => ({
+  weeks: [
+    {
+      start: Date.parse("2024-04-29T00:00:00Z"),
+      rides: 1,
+      distance: 960,
+      movingTime: 120,
+      elevationGain: 0,
+      avgSpeed: 8,
+      trainingLoad: 1.2,
+    },
+  ],
+  rides: [
+    {
+      date: stats.startTime!,
+      name: "Saturday Loop",
+      distance: 960,
+      movingTime: 120,
+      elevationGain: 0,
+      avgSpeed: 8,
+      normalizedPower: 155,
+      trainingLoad: 1.2,
+    },
+  ],
+  rider: DEFAULT_RIDER_PROFILE,
+  locale: { units: "metric", language: "en" },
+});
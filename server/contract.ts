@@ -0,0 +1,80 @@
+
+import { ChatMessage, GhostComparison, InsightDimension, PoiCategory, RideStats, RoutePoint, WorkoutIntensity } from "../types";
+import { Split, SplitUnit } from "../utils/splits";
+import { RiderProfile } from "../utils/power";
+import { RideSummary, TrendBucket } from "../utils/trends";
+import { DisplaySettings } from "../utils/format";
+
+// Shapes shared by the browser client (services/ai.ts) and the API routes
+
+export const API_ROUTES = {
+  analyze: "/api/analyze",
+  nearby: "/api/nearby",
+  chat: "/api/chat",
+  review: "/api/review",
+} as const;
+
+export const INSIGHT_DIMENSIONS: InsightDimension[] = ["pacing", "climbing", "sprinting", "endurance"];
+
+// Longer rides are thinned by the client before sending
+export const MAX_ROUTE_POINTS = 10000;
+
+// How the rider reads numbers and text. Request data stays metric; the model
+// converts when it writes.
+export type AnswerLocale = Pick<DisplaySettings, "units" | "language">;
+
+export interface RidePacing {
+  unit: SplitUnit;
+  splits: Split[];
+  laps: Split[];
+}
+
+export interface AnalysisRequest {
+  stats: RideStats;
+  route: RoutePoint[];
+  pacing: RidePacing;
+  rider: RiderProfile;
+  ghost: GhostComparison | null;
+  locale: AnswerLocale;
+}
+
+export type ChatTurn = Pick<ChatMessage, "role" | "text">;
+
+// Only the most recent turns are sent; older ones stay in the ride's history
+export const MAX_CHAT_TURNS = 40;
+
+// The ride is the coach's context, sent again with every question
+export interface ChatRequest extends AnalysisRequest {
+  messages: ChatTurn[]; // oldest first, ending with the rider's question
+}
+
+export const WEEKDAYS = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"];
+
+export const WORKOUT_INTENSITIES: WorkoutIntensity[] = ["rest", "easy", "moderate", "hard"];
+
+export const REVIEW_WEEKS = 8;
+export const MAX_REVIEW_RIDES = 200;
+
+export interface ReviewRequest {
+  weeks: TrendBucket[]; // the last REVIEW_WEEKS weeks in the rider's time zone, oldest first
+  rides: RideSummary[]; // the rides in those weeks
+  rider: RiderProfile;
+  locale: AnswerLocale;
+}
+
+export const POI_CATEGORIES: PoiCategory[] = ["cafe", "food", "bikeShop", "water", "toilet", "viewpoint", "other"];
+
+export const MAX_SEARCH_POINTS = 50;
+export const MIN_SEARCH_RADIUS = 100; // metres
+export const MAX_SEARCH_RADIUS = 10000;
+
+export interface NearbyRequest {
+  // One point searches around it; more search along the line through them
+  path: Pick<RoutePoint, "latitude" | "longitude">[];
+  radius: number; // metres from the point or line
+  locale: AnswerLocale;
+}
+
+export interface ApiErrorBody {
+  error: string;
+}
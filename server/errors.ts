@@ -0,0 +1,12 @@
+
+// Errors that map straight onto an HTTP response
+export interface HttpError extends Error {
+  status: number;
+  retryAfter?: number; // seconds, for 429s
+}
+
+export const httpError = (status: number, message: string, retryAfter?: number): HttpError =>
+  Object.assign(new Error(message), { status, retryAfter });
+
+export const isHttpError = (err: unknown): err is HttpError =>
+  err instanceof Error && typeof (err as HttpError).status === "number";
@@ -0,0 +1,71 @@
+
+import { ApiError, GoogleGenAI } from "@google/genai";
+import { GroundingLink } from "../types";
+import { ChatTurn } from "./contract";
+import { AIProvider, parseJsonText, providerError, statusIsRetryable } from "./provider";
+
+const asProviderError = (err: unknown) =>
+  err instanceof ApiError ? providerError(err.message, statusIsRetryable(err.status)) : err;
+
+// Runs server-side only; the key never reaches the browser. One client is
+// shared by every request the provider serves.
+export const createGeminiProvider = (apiKey: string, model: string): AIProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const generateJson: AIProvider["generateJson"] = async (prompt, schema, signal) => {
+    try {
+      const response = await ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          responseMimeType: "application/json",
+          responseJsonSchema: schema,
+          abortSignal: signal,
+        },
+      });
+      return parseJsonText(response.text);
+    } catch (err) {
+      throw asProviderError(err);
+    }
+  };
+
+  const generateGrounded: AIProvider["generateGrounded"] = async (prompt, signal) => {
+    try {
+      const response = await ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          tools: [{ googleSearch: {} }],
+          abortSignal: signal,
+        },
+      });
+      const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks ?? [];
+      const links: GroundingLink[] = chunks.flatMap(({ web }) =>
+        web?.uri ? [{ title: web.title || "Search Result", uri: web.uri }] : []
+      );
+      return { text: response.text ?? "", links };
+    } catch (err) {
+      throw asProviderError(err);
+    }
+  };
+
+  async function* streamChat(system: string, turns: ChatTurn[], signal: AbortSignal) {
+    try {
+      const stream = await ai.models.generateContentStream({
+        model,
+        contents: turns.map(({ role, text }) => ({ role: role === "coach" ? "model" : "user", parts: [{ text }] })),
+        config: {
+          systemInstruction: system,
+          abortSignal: signal,
+        },
+      });
+      for await (const chunk of stream) {
+        if (chunk.text) yield chunk.text;
+      }
+    } catch (err) {
+      throw asProviderError(err);
+    }
+  }
+
+  return { name: "gemini", generateJson, generateGrounded, streamChat };
+};
@@ -0,0 +1,44 @@
+
+import { describe, expect, it } from "vitest";
+import { createMockProvider } from "./mockProvider";
+import { JsonSchema } from "./provider";
+
+const schema: JsonSchema = {
+  type: "object",
+  properties: {
+    title: { type: "string" },
+    mood: { type: "string", enum: ["calm", "keen"] },
+    score: { type: "integer", minimum: 1, maximum: 10 },
+    tips: { type: "array", items: { type: "string" }, minItems: 1, maxItems: 5 },
+  },
+  required: ["title", "mood", "score", "tips"],
+};
+
+const signal = () => new AbortController().signal;
+
+describe("createMockProvider", () => {
+  it("fills a schema with the same answer for the same prompt", async () => {
+    const provider = createMockProvider(0);
+    const answer = (await provider.generateJson("Rate my ride", schema, signal())) as Record<string, unknown>;
+    expect(await provider.generateJson("Rate my ride", schema, signal())).toEqual(answer);
+    expect(["calm", "keen"]).toContain(answer.mood);
+    expect(answer.score).toBe(6);
+    expect(answer.tips).toHaveLength(3);
+  });
+
+  it("streams a reply to the last question word by word", async () => {
+    const chunks: string[] = [];
+    for await (const chunk of createMockProvider(0).streamChat("coach", [{ role: "user", text: "How did I do?" }], signal())) {
+      chunks.push(chunk);
+    }
+    expect(chunks.length).toBeGreaterThan(5);
+    expect(chunks.join("")).toMatch(/^Mock coach reply \([0-9a-f]+\) to "How did I do\?"/);
+  });
+
+  it("honours cancellation while it 'thinks'", async () => {
+    const controller = new AbortController();
+    const answer = createMockProvider(10_000).generateGrounded("Cafés nearby", controller.signal);
+    controller.abort(new Error("Cancelled."));
+    await expect(answer).rejects.toThrow("Cancelled.");
+  });
+});
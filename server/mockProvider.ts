@@ -0,0 +1,72 @@
+
+import { AIProvider, JsonSchema } from "./provider";
+import { sleep } from "./retry";
+
+// FNV-1a; the same prompt always yields the same seed
+const hash = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+// Fills any schema with placeholder values, so new prompts work offline
+// without touching this file
+const fill = (schema: JsonSchema, key: string, seed: number): unknown => {
+  switch (schema.type) {
+    case "object":
+      return Object.fromEntries(
+        Object.entries(schema.properties).map(([name, property]) => [name, fill(property, name, seed)])
+      );
+    case "array": {
+      const count = Math.max(schema.minItems ?? 0, Math.min(schema.maxItems ?? 3, 3));
+      return Array.from({ length: count }, (_, i) => fill(schema.items, `${key} ${i + 1}`, seed + i));
+    }
+    case "number":
+    case "integer": {
+      const min = schema.minimum ?? 0;
+      const max = schema.maximum ?? 100;
+      const value = (min + max) / 2;
+      return schema.type === "integer" ? Math.round(value) : value;
+    }
+    case "string":
+      if (schema.enum) return schema.enum[(seed + hash(key)) % schema.enum.length];
+      return `Mock ${key} (${seed.toString(16)})`;
+    case "boolean":
+      return true;
+  }
+};
+
+// Deterministic answers after a short delay, so the AI flows (loading,
+// cancelling, rendering) can be exercised without a model or network
+export const createMockProvider = (delayMs: number): AIProvider => ({
+  name: "mock",
+  generateJson: async (prompt, schema, signal) => {
+    await sleep(delayMs, signal);
+    return fill(schema, "value", hash(prompt));
+  },
+  generateGrounded: async (prompt, signal) => {
+    await sleep(delayMs, signal);
+    const seed = hash(prompt).toString(16);
+    return {
+      text: `Mock answer (${seed}): a café, a bike shop and a viewpoint nearby.`,
+      links: ["Café", "Bike Shop", "Viewpoint"].map((title, i) => ({
+        title: `Mock ${title}`,
+        uri: `https://example.com/mock/${seed}/${i + 1}`,
+      })),
+    };
+  },
+  async *streamChat(system, turns, signal) {
+    await sleep(delayMs, signal);
+    const question = turns[turns.length - 1]?.text ?? "";
+    const seed = hash(system + question).toString(16);
+    const reply = `Mock coach reply (${seed}) to "${question.slice(0, 80)}": keep the effort steady on the climbs and eat before you are hungry.`;
+    const words = reply.split(" ");
+    for (let i = 0; i < words.length; i++) {
+      yield i === 0 ? words[i] : ` ${words[i]}`;
+      await sleep(delayMs / 10, signal);
+    }
+  },
+});
@@ -0,0 +1,226 @@
+
+import { AIInsight, NearbyStops, PointOfInterest, TrainingReview } from "../types";
+import { calculateDistance, distanceToPath } from "../utils/geo";
+import { SPLIT_DISTANCES } from "../utils/splits";
+import { RideFeatures, extractRideFeatures, featureAnchors, featureLabel } from "../utils/rideFeatures";
+import { AnalysisRequest, ChatRequest, NearbyRequest, ReviewRequest } from "./contract";
+import { httpError, isHttpError } from "./errors";
+import { AIProvider, GroundedAnswer, providerError } from "./provider";
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAIProvider } from "./openaiProvider";
+import { createMockProvider } from "./mockProvider";
+import { DEFAULT_RETRY, RetryOptions, withRetry } from "./retry";
+import {
+  InsightAnswer,
+  PlacesAnswer,
+  REVIEW_SCHEMA,
+  SearchBounds,
+  analysisPrompt,
+  chatPrompt,
+  insightSchema,
+  nearbyPrompt,
+  placesPrompt,
+  placesSchema,
+  reviewPrompt,
+} from "./prompts";
+import { validateGroundedAnswer, validateInsight, validatePlaces, validateReview } from "./validation";
+
+export interface RideModel {
+  analyzeRide: (request: AnalysisRequest, signal?: AbortSignal) => Promise<AIInsight>;
+  findNearbyStops: (request: NearbyRequest, signal?: AbortSignal) => Promise<NearbyStops>;
+  // Resolves once the first chunk of the reply has arrived
+  chatAboutRide: (request: ChatRequest, signal?: AbortSignal) => Promise<AsyncIterator<string>>;
+  reviewTraining: (request: ReviewRequest, signal?: AbortSignal) => Promise<TrainingReview>;
+}
+
+const DEFAULT_GEMINI_MODEL = "gemini-3-flash-preview";
+const DEFAULT_OPENAI_BASE_URL = "http://localhost:11434/v1"; // Ollama
+const DEFAULT_OPENAI_MODEL = "llama3.1";
+const DEFAULT_MOCK_DELAY = 300; // ms
+
+// AI_PROVIDER picks the backend: gemini (default), openai for any
+// OpenAI-compatible server such as Ollama, or mock for offline work
+export const createProvider = (env: NodeJS.ProcessEnv = process.env): AIProvider => {
+  const provider = env.AI_PROVIDER || "gemini";
+  switch (provider) {
+    case "gemini":
+      if (!env.GEMINI_API_KEY) throw httpError(503, "The AI service is not configured.");
+      return createGeminiProvider(env.GEMINI_API_KEY, env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL);
+    case "openai":
+      return createOpenAIProvider({
+        baseUrl: env.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL,
+        apiKey: env.OPENAI_API_KEY,
+        model: env.OPENAI_MODEL || DEFAULT_OPENAI_MODEL,
+      });
+    case "mock":
+      return createMockProvider(Number(env.AI_MOCK_DELAY_MS || DEFAULT_MOCK_DELAY));
+    default:
+      throw httpError(503, `Unknown AI provider "${provider}".`);
+  }
+};
+
+// A streamed reply or a two-step search can outlast a single attempt's
+// timeout; this caps the whole of it
+const REQUEST_TIMEOUT = 55 * 1000;
+// Places further than this many search radii from the route are misplaced
+const MAX_PLACE_OFFSET = 1.5;
+
+// A model answer that fails validation is treated like a transient error:
+// the next attempt usually gets the shape right
+const checkResponse = <T>(validate: (value: unknown) => T, value: unknown): T => {
+  try {
+    return validate(value);
+  } catch (err) {
+    if (isHttpError(err)) throw providerError(`The model returned an invalid response: ${err.message}`, true);
+    throw err;
+  }
+};
+
+// Notes pointing at features the ride doesn't have are dropped
+const placeNotes = ({ notes, ...answer }: InsightAnswer, features: RideFeatures): AIInsight => {
+  const anchors = new Map(featureAnchors(features).map((anchor) => [anchor.id, anchor]));
+  return {
+    ...answer,
+    notes: notes.flatMap(({ ref, text }) => {
+      const anchor = anchors.get(ref);
+      if (!anchor) return [];
+      const { latitude, longitude, distance } = anchor;
+      return [{ ref, label: featureLabel(ref), latitude, longitude, distance, text }];
+    }),
+  };
+};
+
+const METRES_PER_DEGREE = 111320;
+
+const searchBounds = ({ path, radius }: NearbyRequest): SearchBounds => {
+  const latitudes = path.map((p) => p.latitude);
+  const longitudes = path.map((p) => p.longitude);
+  const latitudeMargin = radius / METRES_PER_DEGREE;
+  const widest = Math.max(...latitudes.map(Math.abs)) + latitudeMargin;
+  const longitudeMargin = radius / (METRES_PER_DEGREE * Math.max(Math.cos((Math.min(widest, 89) * Math.PI) / 180), 0.01));
+  return {
+    minLatitude: Math.max(Math.min(...latitudes) - latitudeMargin, -90),
+    maxLatitude: Math.min(Math.max(...latitudes) + latitudeMargin, 90),
+    minLongitude: Math.max(Math.min(...longitudes) - longitudeMargin, -180),
+    maxLongitude: Math.min(Math.max(...longitudes) + longitudeMargin, 180),
+  };
+};
+
+// Distances are measured here rather than trusted from the model. Places come
+// back in riding order along a route, nearest first around a point.
+const locatePlaces = ({ summary, places }: PlacesAnswer, { links }: GroundedAnswer, { path, radius }: NearbyRequest): NearbyStops => {
+  const nearestPoint = (place: PointOfInterest) =>
+    path.reduce((best, p, i) => (calculateDistance(place, p) < calculateDistance(place, path[best]) ? i : best), 0);
+  const located: PointOfInterest[] = places
+    .map(({ source, ...place }) => ({
+      ...place,
+      distanceOffRoute: distanceToPath(place, path),
+      uri: links[source - 1]?.uri ?? null,
+    }))
+    .filter((place) => place.distanceOffRoute <= radius * MAX_PLACE_OFFSET);
+  return {
+    text: summary,
+    links,
+    places: located
+      .map((place) => ({ place, along: nearestPoint(place) }))
+      .sort((a, b) => a.along - b.along || a.place.distanceOffRoute - b.place.distanceOffRoute)
+      .map(({ place }) => place),
+  };
+};
+
+const rideFeatures = (request: AnalysisRequest) =>
+  extractRideFeatures(request.route, request.pacing.splits, SPLIT_DISTANCES[request.pacing.unit]);
+
+// Only the wait for the first chunk is retried: once text has reached the
+// rider, a failure ends the reply instead of starting it over
+const streamReply = async (
+  provider: AIProvider,
+  system: string,
+  request: ChatRequest,
+  retry: RetryOptions,
+  signal?: AbortSignal
+): Promise<AsyncIterator<string>> => {
+  const finished = new AbortController();
+  const replySignal = AbortSignal.any([finished.signal, AbortSignal.timeout(REQUEST_TIMEOUT), ...(signal ? [signal] : [])]);
+
+  const { chunks, first } = await withRetry(async (attemptSignal) => {
+    const attempt = new AbortController();
+    const abortAttempt = () => attempt.abort(attemptSignal.reason);
+    attemptSignal.addEventListener("abort", abortAttempt, { once: true });
+    try {
+      const chunks = provider.streamChat(system, request.messages, AbortSignal.any([replySignal, attempt.signal]))[Symbol.asyncIterator]();
+      return { chunks, first: await chunks.next() };
+    } finally {
+      attemptSignal.removeEventListener("abort", abortAttempt);
+    }
+  }, retry, signal);
+
+  async function* reply() {
+    try {
+      if (first.done) return;
+      yield first.value;
+      for (let next = await chunks.next(); !next.done; next = await chunks.next()) yield next.value;
+    } finally {
+      finished.abort();
+    }
+  }
+  return reply();
+};
+
+export const createRideModel = (provider: AIProvider, retry: RetryOptions = DEFAULT_RETRY): RideModel => ({
+  analyzeRide: async (request, signal) => {
+    const features = rideFeatures(request);
+    const prompt = analysisPrompt(request, features);
+    const schema = insightSchema(featureAnchors(features).map((anchor) => anchor.id));
+    const answer = await withRetry(
+      async (attemptSignal) => checkResponse(validateInsight, await provider.generateJson(prompt, schema, attemptSignal)),
+      retry,
+      signal
+    );
+    return placeNotes(answer, features);
+  },
+  findNearbyStops: async (request, signal) => {
+    const searchSignal = AbortSignal.any([AbortSignal.timeout(REQUEST_TIMEOUT), ...(signal ? [signal] : [])]);
+    const answer = await withRetry(
+      async (attemptSignal) =>
+        checkResponse(validateGroundedAnswer, await provider.generateGrounded(nearbyPrompt(request), attemptSignal)),
+      retry,
+      searchSignal
+    );
+    const schema = placesSchema(searchBounds(request), answer.links.length);
+    const places = await withRetry(
+      async (attemptSignal) => checkResponse(validatePlaces, await provider.generateJson(placesPrompt(answer, request.locale), schema, attemptSignal)),
+      retry,
+      searchSignal
+    );
+    return locatePlaces(places, answer, request);
+  },
+  chatAboutRide: (request, signal) => streamReply(provider, chatPrompt(request, rideFeatures(request)), request, retry, signal),
+  reviewTraining: (request, signal) =>
+    withRetry(
+      async (attemptSignal) =>
+        checkResponse(validateReview, await provider.generateJson(reviewPrompt(request), REVIEW_SCHEMA, attemptSignal)),
+      retry,
+      signal
+    ),
+});
+
+const PROVIDER_ENV = [
+  "AI_PROVIDER",
+  "GEMINI_API_KEY",
+  "GEMINI_MODEL",
+  "OPENAI_BASE_URL",
+  "OPENAI_API_KEY",
+  "OPENAI_MODEL",
+  "AI_MOCK_DELAY_MS",
+];
+
+let cached: { key: string; model: RideModel } | null = null;
+
+// Reuses the model (and its SDK client) across requests in a warm instance,
+// rebuilding it only when the configuration changes
+export const getModel = (env: NodeJS.ProcessEnv = process.env): RideModel => {
+  const key = PROVIDER_ENV.map((name) => env[name] ?? "").join("\n");
+  if (cached?.key !== key) cached = { key, model: createRideModel(createProvider(env)) };
+  return cached.model;
+};
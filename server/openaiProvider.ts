@@ -0,0 +1,84 @@
+
+import { ChatTurn } from "./contract";
+import { AIProvider, JsonSchema, parseJsonText, providerError, statusIsRetryable } from "./provider";
+
+export interface OpenAIProviderConfig {
+  baseUrl: string; // e.g. http://localhost:11434/v1 for Ollama
+  apiKey?: string; // local servers usually need none
+  model: string;
+}
+
+interface ChatCompletion {
+  choices?: { message?: { content?: string | null } }[];
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null } }[];
+}
+
+// Any server speaking the OpenAI chat completions API: OpenAI itself,
+// Ollama, llama.cpp, vLLM, LM Studio...
+export const createOpenAIProvider = ({ baseUrl, apiKey, model }: OpenAIProviderConfig): AIProvider => {
+  const url = `${baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  const post = async (body: Record<string, unknown>, signal: AbortSignal): Promise<Response> => {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({ model, ...body }),
+      signal,
+    });
+    if (!response.ok) {
+      throw providerError(`The model server answered ${response.status}.`, statusIsRetryable(response.status));
+    }
+    return response;
+  };
+
+  const complete = async (prompt: string, signal: AbortSignal, schema?: JsonSchema): Promise<string> => {
+    const response = await post({
+      messages: [{ role: "user", content: prompt }],
+      ...(schema ? { response_format: { type: "json_schema", json_schema: { name: "response", schema } } } : {}),
+    }, signal);
+    const completion = (await response.json()) as ChatCompletion;
+    const content = completion.choices?.[0]?.message?.content;
+    if (typeof content !== "string") throw providerError("The model returned an empty answer.", true);
+    return content;
+  };
+
+  // Streamed completions arrive as server-sent events, one `data:` line per chunk
+  async function* streamChat(system: string, turns: ChatTurn[], signal: AbortSignal) {
+    const response = await post({
+      messages: [
+        { role: "system", content: system },
+        ...turns.map(({ role, text }) => ({ role: role === "coach" ? "assistant" : "user", content: text })),
+      ],
+      stream: true,
+    }, signal);
+    if (!response.body) throw providerError("The model returned an empty answer.", true);
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = "";
+    for (let read = await reader.read(); !read.done; read = await reader.read()) {
+      buffer += read.value;
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      for (const line of lines) {
+        if (!line.startsWith("data:")) continue;
+        const data = line.slice(5).trim();
+        if (data === "[DONE]") return;
+        const content = (JSON.parse(data) as ChatCompletionChunk).choices?.[0]?.delta?.content;
+        if (content) yield content;
+      }
+    }
+  }
+
+  return {
+    name: "openai",
+    generateJson: async (prompt, schema, signal) => parseJsonText(await complete(prompt, signal, schema)),
+    // No web search here; the answer comes from the model alone
+    generateGrounded: async (prompt, signal) => ({ text: await complete(prompt, signal), links: [] }),
+    streamChat,
+  };
+};
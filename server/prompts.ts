@@ -0,0 +1,299 @@
+
+import { GhostComparison, InsightDimension, PoiCategory } from "../types";
+import { Split, SplitUnit, SPLIT_DISTANCES } from "../utils/splits";
+import { effectiveFtp } from "../utils/power";
+import { RideFeatures } from "../utils/rideFeatures";
+import { TrendBucket } from "../utils/trends";
+import {
+  AnalysisRequest,
+  AnswerLocale,
+  INSIGHT_DIMENSIONS,
+  NearbyRequest,
+  POI_CATEGORIES,
+  ReviewRequest,
+  WEEKDAYS,
+  WORKOUT_INTENSITIES,
+} from "./contract";
+import { GroundedAnswer, JsonSchema } from "./provider";
+
+const describeSplits = (splits: Split[], unit: SplitUnit) =>
+  splits.map((s) => ({
+    n: s.index,
+    dist: (s.distance / SPLIT_DISTANCES[unit]).toFixed(2),
+    time: Math.round(s.duration),
+    avg: (s.avgSpeed * 3.6).toFixed(1),
+    max: (s.maxSpeed * 3.6).toFixed(1),
+    climb: Math.round(s.elevationGain),
+  }));
+
+const describeGhost = (ghost: GhostComparison) => {
+  const gap = ghost.riderTime - ghost.ghostTime;
+  return `Raced against a previous ride ("${ghost.ghostName}") over ${(ghost.distance / 1000).toFixed(2)} km of the same route: ${Math.round(ghost.riderTime)} s of moving time this time vs ${Math.round(ghost.ghostTime)} s before (${Math.abs(Math.round(gap))} s ${gap <= 0 ? "faster" : "slower"}). Biggest lead ${Math.round(ghost.maxLead)} s, biggest deficit ${Math.round(ghost.maxDeficit)} s.`;
+};
+
+export const MAX_NOTES = 6;
+
+const languageName = (tag: string): string => {
+  try {
+    return new Intl.DisplayNames(["en"], { type: "language" }).of(tag) ?? tag;
+  } catch {
+    return tag;
+  }
+};
+
+// The data in every prompt is metric; this asks for the rider's own units
+const answerStyle = ({ units, language }: AnswerLocale) =>
+  `Write everything in ${languageName(language)}. Give distances, climbing and speeds in ${units === "imperial" ? "miles, feet and mph" : "kilometres, metres and km/h"}.`;
+
+const km = (metres: number) => Number((metres / 1000).toFixed(2));
+const kmh = (speed: number) => Number((speed * 3.6).toFixed(1));
+const round1 = (value: number) => Number(value.toFixed(1));
+
+// Compact, rounded facts; ids let the model pin notes to places on the map
+const describeFeatures = ({ climbs, stops, sprints, pacing, stoppedTime }: RideFeatures) => ({
+  climbs: climbs.map((c) => ({
+    id: c.id,
+    atKm: km(c.distance),
+    lengthM: Math.round(c.length),
+    gainM: Math.round(c.gain),
+    avgGrade: round1(c.avgGrade),
+    maxGrade: round1(c.maxGrade),
+    timeS: Math.round(c.duration),
+    vam: Math.round(c.vam),
+  })),
+  stops: stops.map((s) => ({ id: s.id, atKm: km(s.distance), timeS: Math.round(s.duration) })),
+  totalStoppedS: Math.round(stoppedTime),
+  sprints: sprints.map((s) => ({
+    id: s.id,
+    atKm: km(s.distance),
+    timeS: Math.round(s.duration),
+    fromKmh: kmh(s.entrySpeed),
+    peakKmh: kmh(s.peakSpeed),
+  })),
+  pacing: {
+    speedVariabilityPct: round1(pacing.speedVariability),
+    splitVariabilityPct: round1(pacing.splitVariability),
+    firstHalfKmh: kmh(pacing.firstHalfSpeed),
+    secondHalfKmh: kmh(pacing.secondHalfSpeed),
+    trend: pacing.trend ?? "too short to tell",
+    fastestSplit: pacing.fastestSplit,
+    slowestSplit: pacing.slowestSplit,
+  },
+});
+
+// Everything the model knows about a ride, shared by the analysis and the chat
+const describeRide = ({ stats, pacing, rider, ghost }: AnalysisRequest, features: RideFeatures): string =>
+  `Stats:
+  - Distance: ${(stats.totalDistance / 1000).toFixed(2)} km
+  - Avg Moving Speed: ${(stats.avgSpeed * 3.6).toFixed(1)} km/h
+  - Max Speed: ${(stats.maxSpeed * 3.6).toFixed(1)} km/h
+  - Moving Time: ${(stats.movingTime / 60).toFixed(1)} minutes
+  - Elapsed Time (incl. stops): ${(stats.duration / 60).toFixed(1)} minutes
+  - Elevation Gain: ${stats.elevationGain.toFixed(1)} m
+  - Elevation Loss: ${stats.elevationLoss.toFixed(1)} m
+  - Max Grade: ${stats.maxGrade.toFixed(1)} %
+  - Estimated Calories: ${Math.round(stats.calories)} kcal
+  - Estimated Avg Power: ${Math.round(stats.avgPower)} W (physics model from speed and gradient, no power meter)
+  - Estimated Normalized Power: ${Math.round(stats.normalizedPower)} W
+  - Work: ${Math.round(stats.work)} kJ
+  - Intensity Factor: ${stats.intensityFactor.toFixed(2)}
+  - Training Load (TSS-style): ${Math.round(stats.trainingLoad)}
+
+  Rider: ${rider.riderMass} kg, ${rider.bikeMass} kg bike, FTP ${Math.round(effectiveFtp(rider))} W${rider.ftp > 0 ? "" : " (estimated from mass)"}
+
+  Splits per ${pacing.unit} (distance in ${pacing.unit}, time in s, speeds in km/h, climb in m): ${JSON.stringify(describeSplits(pacing.splits, pacing.unit))}
+  ${pacing.laps.length > 0 ? `Manual laps (same fields): ${JSON.stringify(describeSplits(pacing.laps, pacing.unit))}` : "No manual laps were recorded."}
+
+  Features detected on the track (distances in km from the start, grades in %, VAM in m/h; trend compares the two halves of the full splits): ${JSON.stringify(describeFeatures(features))}
+
+  ${ghost ? describeGhost(ghost) : ""}`;
+
+export const analysisPrompt = (request: AnalysisRequest, features: RideFeatures): string =>
+  `Analyze this bike ride and provide professional coaching feedback.
+  ${describeRide(request, features)}
+
+  Provide a professional summary, a catchy title for the ride, and 3 specific recommendations for improvement. Comment on pacing across the splits: fading, negative splits, or effort on the climbs.${request.ghost ? " Compare this ride with the previous attempt and say where time was won or lost." : ""}
+  Score the ride from 1 (poor) to 10 (excellent) on ${INSIGHT_DIMENSIONS.join(", ")}.
+  Add up to ${MAX_NOTES} short notes on specific places, each referring to a feature id above or to split-N for split N.
+  ${answerStyle(request.locale)}`;
+
+export const chatPrompt = (request: AnalysisRequest, features: RideFeatures): string =>
+  `You are an experienced cycling coach chatting with a rider about one of their rides. Answer from the ride data below and say so when it cannot answer a question. Keep replies to a few sentences unless the rider asks for more, and use plain text without markdown. ${answerStyle(request.locale)}
+  ${describeRide(request, features)}`;
+
+// The model's answer before notes are resolved to map positions
+export interface InsightAnswer {
+  title: string;
+  summary: string;
+  recommendations: string[];
+  scores: Record<InsightDimension, number>;
+  notes: { ref: string; text: string }[];
+}
+
+// `refs` are the feature ids the notes may point at
+export const insightSchema = (refs: string[]): JsonSchema => ({
+  type: "object",
+  properties: {
+    title: { type: "string" },
+    summary: { type: "string" },
+    recommendations: { type: "array", items: { type: "string" } },
+    scores: {
+      type: "object",
+      properties: Object.fromEntries(INSIGHT_DIMENSIONS.map((d) => [d, { type: "integer", minimum: 1, maximum: 10 }])),
+      required: INSIGHT_DIMENSIONS,
+    },
+    notes: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: { ref: refs.length > 0 ? { type: "string", enum: refs } : { type: "string" }, text: { type: "string" } },
+        required: ["ref", "text"],
+      },
+      maxItems: refs.length > 0 ? MAX_NOTES : 0,
+    },
+  },
+  required: ["title", "summary", "recommendations", "scores", "notes"],
+});
+
+const hours = (seconds: number) => Number((seconds / 3600).toFixed(1));
+
+// Which of the request's weeks a ride falls in, counted back from the current one
+const weeksAgo = (weeks: TrendBucket[], date: number) => {
+  const index = weeks.findIndex((week, i) => date >= week.start && (i === weeks.length - 1 || date < weeks[i + 1].start));
+  return index < 0 ? null : weeks.length - 1 - index;
+};
+
+export const reviewPrompt = ({ weeks, rides, rider, locale }: ReviewRequest): string => {
+  const weekly = weeks.map((week, i) => ({
+    weeksAgo: weeks.length - 1 - i,
+    rides: week.rides,
+    km: km(week.distance),
+    hours: hours(week.movingTime),
+    climbM: Math.round(week.elevationGain),
+    kmh: kmh(week.avgSpeed),
+    load: Math.round(week.trainingLoad),
+  }));
+  const rideList = rides.map((ride) => ({
+    weeksAgo: weeksAgo(weeks, ride.date),
+    name: ride.name,
+    km: km(ride.distance),
+    hours: hours(ride.movingTime),
+    climbM: Math.round(ride.elevationGain),
+    kmh: kmh(ride.avgSpeed),
+    npW: Math.round(ride.normalizedPower),
+    load: Math.round(ride.trainingLoad),
+  }));
+
+  return `Review this cyclist's recent training and plan their next week.
+  Rider: ${rider.riderMass} kg, FTP ${Math.round(effectiveFtp(rider))} W${rider.ftp > 0 ? "" : " (estimated from mass)"}
+  Power and load are estimated from speed and gradient, not measured.
+
+  Weekly totals, oldest first (weeksAgo 0 is the current week so far; load is TSS-style): ${JSON.stringify(weekly)}
+
+  Rides in those weeks: ${JSON.stringify(rideList)}
+
+  Write a short title and a summary of how training is going: volume, consistency, intensity and the trend across the weeks. Add up to 5 highlights, 1 to 3 measurable goals for next week, and a day-by-day plan for next week from Monday to Sunday with rest days included. Keep any increase in weekly load to about 10% over the recent average unless the rider is coming back from a break. Leave the day names in English.
+  ${answerStyle(locale)}`;
+};
+
+export const REVIEW_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    title: { type: "string" },
+    summary: { type: "string" },
+    highlights: { type: "array", items: { type: "string" }, maxItems: 5 },
+    goals: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: { title: { type: "string" }, target: { type: "string" } },
+        required: ["title", "target"],
+      },
+      minItems: 1,
+      maxItems: 3,
+    },
+    plan: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          day: { type: "string", enum: WEEKDAYS },
+          workout: { type: "string" },
+          minutes: { type: "integer", minimum: 0, maximum: 600 },
+          intensity: { type: "string", enum: WORKOUT_INTENSITIES },
+        },
+        required: ["day", "workout", "minutes", "intensity"],
+      },
+      minItems: 7,
+      maxItems: 7,
+    },
+  },
+  required: ["title", "summary", "highlights", "goals", "plan"],
+};
+
+export const MAX_PLACES = 8;
+
+const coordinate = (value: number) => Number(value.toFixed(5));
+
+export const nearbyPrompt = ({ path, radius }: NearbyRequest): string => {
+  const area =
+    path.length === 1
+      ? `within ${radius} m of latitude ${coordinate(path[0].latitude)}, longitude ${coordinate(path[0].longitude)}`
+      : `within ${radius} m of this cycling route, given as [latitude, longitude] points in riding order: ${JSON.stringify(path.map((p) => [coordinate(p.latitude), coordinate(p.longitude)]))}`;
+  return `Find high-rated cafes, places to eat, bike shops, drinking water, public toilets and scenic viewpoints ${area}. Suggest up to ${MAX_PLACES} places for a cyclist to stop. For each give its name, what kind of place it is, its latitude and longitude, and one line on why a cyclist would stop there.`;
+};
+
+// The model's places before their distance from the route is measured
+export interface PlacesAnswer {
+  summary: string;
+  places: {
+    name: string;
+    category: PoiCategory;
+    latitude: number;
+    longitude: number;
+    description: string;
+    source: number; // 1-based index into the search results; 0 for none
+  }[];
+}
+
+// Turns the free-text search answer into places; search results can't be
+// combined with a response schema in one call
+export const placesPrompt = (answer: GroundedAnswer, locale: AnswerLocale): string =>
+  `Extract the places a cyclist could stop at from this answer.
+  Answer: ${JSON.stringify(answer.text)}
+  Search results it is based on: ${JSON.stringify(answer.links.map((link, i) => ({ n: i + 1, title: link.title })))}
+
+  Write a one or two sentence summary for the rider. For each place give the search result number it came from, or 0 if none does. Leave out places whose position the answer does not give. Keep place names as they are.
+  ${answerStyle(locale)}`;
+
+export interface SearchBounds {
+  minLatitude: number;
+  maxLatitude: number;
+  minLongitude: number;
+  maxLongitude: number;
+}
+
+// Coordinates are limited to the searched area
+export const placesSchema = (bounds: SearchBounds, linkCount: number): JsonSchema => ({
+  type: "object",
+  properties: {
+    summary: { type: "string" },
+    places: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          category: { type: "string", enum: POI_CATEGORIES },
+          latitude: { type: "number", minimum: bounds.minLatitude, maximum: bounds.maxLatitude },
+          longitude: { type: "number", minimum: bounds.minLongitude, maximum: bounds.maxLongitude },
+          description: { type: "string" },
+          source: { type: "integer", minimum: 0, maximum: linkCount },
+        },
+        required: ["name", "category", "latitude", "longitude", "description", "source"],
+      },
+      maxItems: MAX_PLACES,
+    },
+  },
+  required: ["summary", "places"],
+});
@@ -0,0 +1,52 @@
+
+import { GroundingLink } from "../types";
+import { ChatTurn } from "./contract";
+
+// The small JSON Schema subset our prompts ask for; Gemini and
+// OpenAI-compatible servers both accept it as-is.
+export type JsonSchema =
+  | { type: "object"; properties: Record<string, JsonSchema>; required: string[]; additionalProperties?: false }
+  | { type: "array"; items: JsonSchema; minItems?: number; maxItems?: number }
+  | { type: "number" | "integer"; minimum?: number; maximum?: number }
+  | { type: "string"; enum?: string[] }
+  | { type: "boolean" };
+
+export interface GroundedAnswer {
+  text: string;
+  links: GroundingLink[];
+}
+
+// What the ride features need from a model backend. Calls must honour the
+// signal; retries, timeouts and response validation happen in server/model.ts.
+export interface AIProvider {
+  name: string;
+  generateJson: (prompt: string, schema: JsonSchema, signal: AbortSignal) => Promise<unknown>;
+  // A free-text answer, grounded in web search where the backend supports it
+  generateGrounded: (prompt: string, signal: AbortSignal) => Promise<GroundedAnswer>;
+  // The coach's next reply, text chunk by chunk as the model produces it
+  streamChat: (system: string, turns: ChatTurn[], signal: AbortSignal) => AsyncIterable<string>;
+}
+
+export interface ProviderError extends Error {
+  retryable: boolean;
+}
+
+export const providerError = (message: string, retryable: boolean): ProviderError =>
+  Object.assign(new Error(message), { retryable });
+
+export const isRetryable = (err: unknown): boolean => {
+  if (err instanceof Error && typeof (err as ProviderError).retryable === "boolean") return (err as ProviderError).retryable;
+  // fetch reports connection failures as TypeErrors
+  return err instanceof TypeError;
+};
+
+export const statusIsRetryable = (status: number) => status === 408 || status === 429 || status >= 500;
+
+// Malformed JSON is usually a one-off, so it is worth another attempt
+export const parseJsonText = (text: string | undefined): unknown => {
+  try {
+    return JSON.parse(text ?? "");
+  } catch {
+    throw providerError("The model returned malformed JSON.", true);
+  }
+};
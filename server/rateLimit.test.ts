@@ -0,0 +1,39 @@
+
+import { describe, expect, it } from "vitest";
+import { createRateLimiter } from "./rateLimit";
+
+const MINUTE = 60 * 1000;
+
+describe("createRateLimiter", () => {
+  it("allows the limit within the window, then says how long to wait", () => {
+    const limiter = createRateLimiter(3, MINUTE);
+    expect([0, 10_000, 20_000].map((t) => limiter.take("a", t))).toEqual([0, 0, 0]);
+    // The first request leaves the window at 60 s
+    expect(limiter.take("a", 30_000)).toBe(30);
+    expect(limiter.take("a", 59_500)).toBe(1);
+  });
+
+  it("slides the window rather than resetting it", () => {
+    const limiter = createRateLimiter(2, MINUTE);
+    limiter.take("a", 0);
+    limiter.take("a", 40_000);
+    expect(limiter.take("a", 50_000)).toBeGreaterThan(0);
+    // Only the request at 0 has left; the one at 40 s still counts
+    expect(limiter.take("a", 60_000)).toBe(0);
+    expect(limiter.take("a", 70_000)).toBe(30);
+  });
+
+  it("doesn't count refused requests against the client", () => {
+    const limiter = createRateLimiter(1, MINUTE);
+    limiter.take("a", 0);
+    for (let t = 1000; t < MINUTE; t += 1000) limiter.take("a", t);
+    expect(limiter.take("a", MINUTE)).toBe(0);
+  });
+
+  it("limits each client on its own", () => {
+    const limiter = createRateLimiter(1, MINUTE);
+    expect(limiter.take("a", 0)).toBe(0);
+    expect(limiter.take("b", 0)).toBe(0);
+    expect(limiter.take("a", 1000)).toBe(59);
+  });
+});
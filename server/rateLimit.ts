@@ -0,0 +1,31 @@
+
+export interface RateLimiter {
+  // Records a request; returns 0 if it is allowed, otherwise seconds to wait
+  take: (key: string, now?: number) => number;
+}
+
+// Sliding-window log per client. State lives in the function instance, so on
+// serverless hosts each warm instance limits independently; that is enough to
+// stop a runaway client from burning through the model quota.
+export const createRateLimiter = (limit: number, windowMs: number): RateLimiter => {
+  const hits = new Map<string, number[]>();
+
+  const take = (key: string, now = Date.now()): number => {
+    const recent = (hits.get(key) ?? []).filter((t) => now - t < windowMs);
+    if (recent.length >= limit) {
+      hits.set(key, recent);
+      return Math.max(Math.ceil((recent[0] + windowMs - now) / 1000), 1);
+    }
+    recent.push(now);
+    hits.set(key, recent);
+    // Drop idle clients now and then so the map doesn't grow forever
+    if (hits.size > 1000) {
+      hits.forEach((times, k) => {
+        if (now - times[times.length - 1] >= windowMs) hits.delete(k);
+      });
+    }
+    return 0;
+  };
+
+  return { take };
+};
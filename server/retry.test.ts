@@ -0,0 +1,66 @@
+
+import { describe, expect, it, vi } from "vitest";
+import { providerError, statusIsRetryable } from "./provider";
+import { RetryOptions, withRetry } from "./retry";
+
+const options: RetryOptions = { attempts: 3, attemptTimeout: 1000, baseDelay: 1 };
+
+// Fails with each error in turn, then answers "ok"
+const failing = (...errors: Error[]) => vi.fn(async () => {
+  const error = errors.shift();
+  if (error) throw error;
+  return "ok";
+});
+
+// Never answers; rejects only when its signal is aborted
+const hanging = vi.fn((signal: AbortSignal) =>
+  new Promise<string>((_, reject) => signal.addEventListener("abort", () => reject(signal.reason), { once: true }))
+);
+
+describe("withRetry", () => {
+  it("retries transient failures until one attempt succeeds", async () => {
+    const run = failing(providerError("Overloaded.", statusIsRetryable(503)), new TypeError("fetch failed"));
+    await expect(withRetry(run, options)).resolves.toBe("ok");
+    expect(run).toHaveBeenCalledTimes(3);
+  });
+
+  it("gives up after the last attempt with its error", async () => {
+    const run = failing(...[1, 2, 3].map((i) => providerError(`Overloaded ${i}.`, true)));
+    await expect(withRetry(run, options)).rejects.toThrow("Overloaded 3.");
+    expect(run).toHaveBeenCalledTimes(3);
+  });
+
+  it("doesn't retry a request the model rejected", async () => {
+    const run = failing(providerError("Bad request.", statusIsRetryable(400)));
+    await expect(withRetry(run, options)).rejects.toThrow("Bad request.");
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it("times out a slow attempt and tries again", async () => {
+    hanging.mockClear();
+    await expect(withRetry(hanging, { ...options, attempts: 2, attemptTimeout: 20 })).rejects.toThrow(
+      "The model took too long to respond."
+    );
+    expect(hanging).toHaveBeenCalledTimes(2);
+  });
+
+  it("stops at once when the caller cancels during an attempt", async () => {
+    hanging.mockClear();
+    const controller = new AbortController();
+    const result = withRetry(hanging, options, controller.signal);
+    controller.abort(new Error("Rider left."));
+    await expect(result).rejects.toThrow("Rider left.");
+    expect(hanging).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops at once when the caller cancels during the backoff", async () => {
+    const controller = new AbortController();
+    const run = vi.fn(async () => {
+      // Cancelled right after this attempt fails, while waiting to retry
+      setTimeout(() => controller.abort(new Error("Rider left.")), 0);
+      throw providerError("Overloaded.", true);
+    });
+    await expect(withRetry(run, { ...options, baseDelay: 1000 }, controller.signal)).rejects.toThrow("Rider left.");
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+});
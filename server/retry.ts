@@ -0,0 +1,53 @@
+
+import { isRetryable, providerError } from "./provider";
+
+export interface RetryOptions {
+  attempts: number;
+  attemptTimeout: number; // ms
+  baseDelay: number; // ms, doubled after each failed attempt
+}
+
+export const DEFAULT_RETRY: RetryOptions = {
+  attempts: 3,
+  attemptTimeout: 15 * 1000, // three attempts fit in the 60 s function limit (vercel.json)
+  baseDelay: 500,
+};
+
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+// Runs `run` with a per-attempt timeout, retrying transient failures with
+// jittered exponential backoff. Cancelling `signal` stops everything at once.
+export const withRetry = async <T>(
+  run: (signal: AbortSignal) => Promise<T>,
+  options: RetryOptions,
+  signal?: AbortSignal
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    const timeout = AbortSignal.timeout(options.attemptTimeout);
+    const attemptSignal = signal ? AbortSignal.any([signal, timeout]) : timeout;
+    try {
+      return await run(attemptSignal);
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      const failure = timeout.aborted ? providerError("The model took too long to respond.", true) : err;
+      if (attempt >= options.attempts || !isRetryable(failure)) throw failure;
+      const delay = options.baseDelay * 2 ** (attempt - 1);
+      await sleep(delay * (0.5 + Math.random()), signal);
+    }
+  }
+};
@@ -0,0 +1,106 @@
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AIInsight, TrainingReview } from "../types";
+import { API_ROUTES, INSIGHT_DIMENSIONS } from "./contract";
+import { handleAnalyze, handleChat, handleReview } from "./routes";
+import { analysisBody, chatBody, reviewBody } from "./__fixtures__/requests";
+
+let clients = 0;
+
+// Each request comes from a fresh address unless one is given, so the
+// module-level rate limits don't carry over between tests
+const post = (body: string, headers: Record<string, string> = {}, path: string = API_ROUTES.analyze, signal?: AbortSignal) =>
+  new Request(`http://localhost${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "x-forwarded-for": `10.0.0.${++clients}`, ...headers },
+    body,
+    signal,
+  });
+
+const errorOf = async (response: Response) => ((await response.json()) as { error: string }).error;
+
+describe("API routes", () => {
+  it("only answers POST", async () => {
+    const response = await handleAnalyze(new Request(`http://localhost${API_ROUTES.analyze}`));
+    expect(response.status).toBe(405);
+    expect(await errorOf(response)).toBe("Use POST.");
+  });
+
+  it("refuses an oversized body before reading it", async () => {
+    const response = await handleAnalyze(post("{}", { "content-length": String(3 * 1024 * 1024) }));
+    expect(response.status).toBe(413);
+  });
+
+  it("refuses an oversized body that doesn't declare its length", async () => {
+    const body = JSON.stringify({ ...analysisBody(), padding: "x".repeat(2 * 1024 * 1024) });
+    const response = await handleChat(post(body, {}, API_ROUTES.chat));
+    expect(response.status).toBe(413);
+    expect(await errorOf(response)).toBe("Request body is too large.");
+  });
+
+  it("answers malformed bodies with a 400 and the reason", async () => {
+    const notJson = await handleAnalyze(post("{"));
+    expect(notJson.status).toBe(400);
+    expect(await errorOf(notJson)).toBe("Request body must be JSON.");
+
+    const invalid = await handleAnalyze(post(JSON.stringify({ ...analysisBody(), route: [] })));
+    expect(invalid.status).toBe(400);
+    expect(await errorOf(invalid)).toBe("route needs at least two points.");
+  });
+
+  it("sends a 429 with Retry-After once a client goes over the limit", async () => {
+    const client = { "x-forwarded-for": "192.0.2.1, 10.0.0.1" };
+    // Refused bodies still count; the limit protects the server, not just the model
+    for (let i = 0; i < 10; i++) expect((await handleAnalyze(post("{", client))).status).toBe(400);
+    const limited = await handleAnalyze(post("{", client));
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get("Retry-After"))).toBeGreaterThan(0);
+    expect(await errorOf(limited)).toMatch(/^Too many requests/);
+    // Another client is unaffected
+    expect((await handleAnalyze(post("{", { "x-forwarded-for": "192.0.2.2" }))).status).toBe(400);
+  });
+});
+
+describe("API routes with the mock model", () => {
+  beforeEach(() => {
+    vi.stubEnv("AI_PROVIDER", "mock");
+    vi.stubEnv("AI_MOCK_DELAY_MS", "0");
+  });
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("analyses a ride and pins the notes to its features", async () => {
+    const response = await handleAnalyze(post(JSON.stringify(analysisBody())));
+    expect(response.status).toBe(200);
+    const insight = (await response.json()) as AIInsight;
+    expect(insight.title).toMatch(/^Mock title/);
+    expect(Object.keys(insight.scores!).sort()).toEqual([...INSIGHT_DIMENSIONS].sort());
+    // The only feature of a short flat ride is its one split
+    expect(insight.notes!.length).toBeGreaterThan(0);
+    insight.notes!.forEach((note) => expect(note.label).toBe("Split 1"));
+  });
+
+  it("streams the coach's reply as plain text", async () => {
+    const response = await handleChat(post(JSON.stringify(chatBody()), {}, API_ROUTES.chat));
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toMatch(/^text\/plain/);
+    expect(await response.text()).toMatch(/^Mock coach reply \([0-9a-f]+\) to "How was my pacing\?"/);
+  });
+
+  it("reviews the recent weeks", async () => {
+    const response = await handleReview(post(JSON.stringify(reviewBody()), {}, API_ROUTES.review));
+    expect(response.status).toBe(200);
+    const review = (await response.json()) as TrainingReview;
+    expect(review.title).toMatch(/^Mock title/);
+    expect(review.plan.length).toBeGreaterThan(0);
+  });
+
+  it("answers 499 when the rider cancels while the model works", async () => {
+    vi.stubEnv("AI_MOCK_DELAY_MS", "5000");
+    const controller = new AbortController();
+    const response = handleAnalyze(post(JSON.stringify(analysisBody()), {}, API_ROUTES.analyze, controller.signal));
+    setTimeout(() => controller.abort(), 20);
+    expect((await response).status).toBe(499);
+  });
+});
@@ -0,0 +1,110 @@
+
+import { API_ROUTES, ApiErrorBody } from "./contract";
+import { httpError, isHttpError } from "./errors";
+import { RideModel, getModel } from "./model";
+import { RateLimiter, createRateLimiter } from "./rateLimit";
+import { validateAnalysisRequest, validateChatRequest, validateNearbyRequest, validateReviewRequest } from "./validation";
+
+// Framework-free handlers (Request in, Response out) shared by the Vercel
+// functions in api/ and the Vite dev server plugin.
+
+const MAX_BODY_BYTES = 2 * 1024 * 1024;
+const RATE_WINDOW = 60 * 1000;
+
+const analyzeLimiter = createRateLimiter(10, RATE_WINDOW);
+const nearbyLimiter = createRateLimiter(20, RATE_WINDOW);
+const chatLimiter = createRateLimiter(20, RATE_WINDOW);
+const reviewLimiter = createRateLimiter(5, RATE_WINDOW);
+
+const json = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json", ...headers } });
+
+// Vercel and the dev proxy put the caller's address first in x-forwarded-for
+const clientKey = (request: Request): string =>
+  request.headers.get("x-forwarded-for")?.split(",")[0].trim() || request.headers.get("x-real-ip") || "anonymous";
+
+const encoder = new TextEncoder();
+
+// Plain UTF-8 text, passed on chunk by chunk as the model writes it. The
+// status is already sent by then, so a failure can only cut the text short.
+const streamText = (chunks: AsyncIterator<string>) =>
+  new Response(
+    new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        try {
+          const next = await chunks.next();
+          if (next.done) controller.close();
+          else controller.enqueue(encoder.encode(next.value));
+        } catch (err) {
+          console.error("AI model stream failed:", err);
+          controller.error(err);
+        }
+      },
+      cancel: async () => {
+        await chunks.return?.();
+      },
+    }),
+    { headers: { "Content-Type": "text/plain; charset=utf-8", "Cache-Control": "no-store" } }
+  );
+
+const readJson = async (request: Request): Promise<unknown> => {
+  const length = Number(request.headers.get("content-length") ?? 0);
+  if (length > MAX_BODY_BYTES) throw httpError(413, "Request body is too large.");
+  const text = await request.text();
+  if (text.length > MAX_BODY_BYTES) throw httpError(413, "Request body is too large.");
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw httpError(400, "Request body must be JSON.");
+  }
+};
+
+const createHandler = <T>(
+  limiter: RateLimiter,
+  validate: (body: unknown) => T,
+  run: (model: RideModel, input: T, signal: AbortSignal) => Promise<unknown>
+) => async (request: Request): Promise<Response> => {
+  try {
+    if (request.method !== "POST") throw httpError(405, "Use POST.");
+    const wait = limiter.take(clientKey(request));
+    if (wait > 0) throw httpError(429, `Too many requests. Try again in ${wait} s.`, wait);
+    const input = validate(await readJson(request));
+    const model = getModel();
+    let result: unknown;
+    try {
+      result = await run(model, input, request.signal);
+    } catch (err) {
+      // The caller went away; nobody is left to read an error
+      if (request.signal.aborted) throw httpError(499, "Request was cancelled.");
+      // Upstream details stay in the server log
+      console.error("AI model request failed:", err);
+      throw httpError(502, "The AI service failed to respond. Please try again.");
+    }
+    return result instanceof Response ? result : json(200, result);
+  } catch (err) {
+    if (isHttpError(err)) {
+      const body: ApiErrorBody = { error: err.message };
+      return json(err.status, body, err.retryAfter ? { "Retry-After": String(err.retryAfter) } : {});
+    }
+    console.error("Unexpected API error:", err);
+    const body: ApiErrorBody = { error: "Unexpected server error." };
+    return json(500, body);
+  }
+};
+
+export const handleAnalyze = createHandler(analyzeLimiter, validateAnalysisRequest, (model, input, signal) => model.analyzeRide(input, signal));
+
+export const handleNearby = createHandler(nearbyLimiter, validateNearbyRequest, (model, input, signal) => model.findNearbyStops(input, signal));
+
+export const handleChat = createHandler(chatLimiter, validateChatRequest, (model, input, signal) =>
+  model.chatAboutRide(input, signal).then(streamText)
+);
+
+export const handleReview = createHandler(reviewLimiter, validateReviewRequest, (model, input, signal) => model.reviewTraining(input, signal));
+
+export const API_HANDLERS: Record<string, (request: Request) => Promise<Response>> = {
+  [API_ROUTES.analyze]: handleAnalyze,
+  [API_ROUTES.nearby]: handleNearby,
+  [API_ROUTES.chat]: handleChat,
+  [API_ROUTES.review]: handleReview,
+};
@@ -0,0 +1,358 @@
+
+import { GhostComparison, GroundingLink, PlannedWorkout, RideStats, RoutePoint, TrainingReview } from "../types";
+import { Split } from "../utils/splits";
+import { RiderProfile } from "../utils/power";
+import { RideSummary, TrendBucket } from "../utils/trends";
+import {
+  AnalysisRequest,
+  AnswerLocale,
+  ChatRequest,
+  ChatTurn,
+  INSIGHT_DIMENSIONS,
+  MAX_CHAT_TURNS,
+  MAX_REVIEW_RIDES,
+  MAX_ROUTE_POINTS,
+  MAX_SEARCH_POINTS,
+  MAX_SEARCH_RADIUS,
+  MIN_SEARCH_RADIUS,
+  NearbyRequest,
+  POI_CATEGORIES,
+  REVIEW_WEEKS,
+  ReviewRequest,
+  RidePacing,
+  WEEKDAYS,
+  WORKOUT_INTENSITIES,
+} from "./contract";
+import { InsightAnswer, MAX_NOTES, MAX_PLACES, PlacesAnswer } from "./prompts";
+import { GroundedAnswer } from "./provider";
+import { httpError } from "./errors";
+
+// Hand-rolled checks for the few request shapes we accept, and for what the
+// model sends back. Each validator copies only the known fields, so nothing
+// unexpected is forwarded to the model or the client.
+
+const MAX_SPLITS = 1000;
+const MAX_NAME_LENGTH = 200;
+const MAX_TEXT_LENGTH = 10000;
+const MAX_RECOMMENDATIONS = 10;
+const MAX_LINKS = 20;
+const MAX_HIGHLIGHTS = 5;
+const MAX_GOALS = 3;
+const LANGUAGE_TAG = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i;
+
+type Fields = Record<string, unknown>;
+
+const invalid = (message: string) => httpError(400, message);
+
+const asObject = (value: unknown, field: string): Fields => {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) throw invalid(`${field} must be an object.`);
+  return value as Fields;
+};
+
+const asArray = (value: unknown, field: string, maxLength: number): unknown[] => {
+  if (!Array.isArray(value)) throw invalid(`${field} must be an array.`);
+  if (value.length > maxLength) throw invalid(`${field} has more than ${maxLength} entries.`);
+  return value;
+};
+
+const asNumber = (value: unknown, field: string, min = -Infinity, max = Infinity): number => {
+  if (typeof value !== "number" || !Number.isFinite(value)) throw invalid(`${field} must be a number.`);
+  if (value < min || value > max) throw invalid(`${field} is out of range.`);
+  return value;
+};
+
+const asNullableNumber = (value: unknown, field: string): number | null =>
+  value === null || value === undefined ? null : asNumber(value, field);
+
+const asString = (value: unknown, field: string, maxLength: number): string => {
+  if (typeof value !== "string") throw invalid(`${field} must be a string.`);
+  return value.slice(0, maxLength);
+};
+
+// Flags are only ever set to true, so anything else leaves them off
+const asFlag = (value: unknown, field: string): true | undefined => {
+  if (value === undefined || value === false) return undefined;
+  if (value !== true) throw invalid(`${field} must be a boolean.`);
+  return true;
+};
+
+const validateStats = (value: unknown): RideStats => {
+  const stats = asObject(value, "stats");
+  const field = (name: keyof RideStats) => asNumber(stats[name], `stats.${name}`, 0);
+  return {
+    totalDistance: field("totalDistance"),
+    avgSpeed: field("avgSpeed"),
+    maxSpeed: field("maxSpeed"),
+    duration: field("duration"),
+    movingTime: field("movingTime"),
+    startTime: asNullableNumber(stats.startTime, "stats.startTime"),
+    elevationGain: field("elevationGain"),
+    elevationLoss: field("elevationLoss"),
+    maxGrade: asNumber(stats.maxGrade, "stats.maxGrade"),
+    calories: field("calories"),
+    avgPower: field("avgPower"),
+    normalizedPower: field("normalizedPower"),
+    work: field("work"),
+    intensityFactor: field("intensityFactor"),
+    trainingLoad: field("trainingLoad"),
+  };
+};
+
+const validatePoint = (value: unknown, i: number): RoutePoint => {
+  const point = asObject(value, `route[${i}]`);
+  return {
+    latitude: asNumber(point.latitude, `route[${i}].latitude`, -90, 90),
+    longitude: asNumber(point.longitude, `route[${i}].longitude`, -180, 180),
+    timestamp: asNumber(point.timestamp, `route[${i}].timestamp`),
+    speed: asNumber(point.speed, `route[${i}].speed`, 0),
+    altitude: asNullableNumber(point.altitude, `route[${i}].altitude`),
+    // Without these the features would join segments across recording gaps
+    // and count auto-paused stops as riding
+    ...(asFlag(point.segmentStart, `route[${i}].segmentStart`) && { segmentStart: true }),
+    ...(asFlag(point.autoPaused, `route[${i}].autoPaused`) && { autoPaused: true }),
+  };
+};
+
+const validateSplits = (value: unknown, field: string): Split[] =>
+  asArray(value, field, MAX_SPLITS).map((item, i) => {
+    const split = asObject(item, `${field}[${i}]`);
+    const number = (name: keyof Split) => asNumber(split[name], `${field}[${i}].${name}`);
+    return {
+      index: number("index"),
+      distance: number("distance"),
+      duration: number("duration"),
+      avgSpeed: number("avgSpeed"),
+      maxSpeed: number("maxSpeed"),
+      elevationGain: number("elevationGain"),
+    };
+  });
+
+const validatePacing = (value: unknown): RidePacing => {
+  const pacing = asObject(value, "pacing");
+  if (pacing.unit !== "km" && pacing.unit !== "mi") throw invalid("pacing.unit must be km or mi.");
+  return {
+    unit: pacing.unit,
+    splits: validateSplits(pacing.splits, "pacing.splits"),
+    laps: validateSplits(pacing.laps, "pacing.laps"),
+  };
+};
+
+const validateRider = (value: unknown): RiderProfile => {
+  const rider = asObject(value, "rider");
+  return {
+    riderMass: asNumber(rider.riderMass, "rider.riderMass", 1, 500),
+    bikeMass: asNumber(rider.bikeMass, "rider.bikeMass", 0, 100),
+    cda: asNumber(rider.cda, "rider.cda", 0, 2),
+    crr: asNumber(rider.crr, "rider.crr", 0, 1),
+    ftp: asNumber(rider.ftp, "rider.ftp", 0, 2000),
+  };
+};
+
+const validateGhost = (value: unknown): GhostComparison | null => {
+  if (value === null || value === undefined) return null;
+  const ghost = asObject(value, "ghost");
+  const number = (name: keyof GhostComparison) => asNumber(ghost[name], `ghost.${name}`, 0);
+  return {
+    ghostRideId: asString(ghost.ghostRideId, "ghost.ghostRideId", MAX_NAME_LENGTH),
+    ghostName: asString(ghost.ghostName, "ghost.ghostName", MAX_NAME_LENGTH),
+    distance: number("distance"),
+    riderTime: number("riderTime"),
+    ghostTime: number("ghostTime"),
+    maxLead: number("maxLead"),
+    maxDeficit: number("maxDeficit"),
+  };
+};
+
+const validateLocale = (value: unknown): AnswerLocale => {
+  const locale = asObject(value, "locale");
+  if (locale.units !== "metric" && locale.units !== "imperial") throw invalid("locale.units must be metric or imperial.");
+  const language = asString(locale.language, "locale.language", MAX_NAME_LENGTH);
+  if (!LANGUAGE_TAG.test(language)) throw invalid("locale.language must be a language tag such as en or pt-BR.");
+  return { units: locale.units, language };
+};
+
+export const validateAnalysisRequest = (body: unknown): AnalysisRequest => {
+  const request = asObject(body, "Request body");
+  const route = asArray(request.route, "route", MAX_ROUTE_POINTS).map(validatePoint);
+  if (route.length < 2) throw invalid("route needs at least two points.");
+  return {
+    stats: validateStats(request.stats),
+    route,
+    pacing: validatePacing(request.pacing),
+    rider: validateRider(request.rider),
+    ghost: validateGhost(request.ghost),
+    locale: validateLocale(request.locale),
+  };
+};
+
+const validateTurns = (value: unknown): ChatTurn[] => {
+  const turns = asArray(value, "messages", MAX_CHAT_TURNS).map((item, i): ChatTurn => {
+    const turn = asObject(item, `messages[${i}]`);
+    if (turn.role !== "user" && turn.role !== "coach") throw invalid(`messages[${i}].role must be user or coach.`);
+    return { role: turn.role, text: asString(turn.text, `messages[${i}].text`, MAX_TEXT_LENGTH) };
+  });
+  if (turns[turns.length - 1]?.role !== "user") throw invalid("messages must end with the rider's question.");
+  return turns;
+};
+
+export const validateChatRequest = (body: unknown): ChatRequest => ({
+  ...validateAnalysisRequest(body),
+  messages: validateTurns(asObject(body, "Request body").messages),
+});
+
+const validateWeek = (value: unknown, i: number): TrendBucket => {
+  const week = asObject(value, `weeks[${i}]`);
+  const number = (name: keyof TrendBucket) => asNumber(week[name], `weeks[${i}].${name}`, 0);
+  return {
+    start: number("start"),
+    rides: number("rides"),
+    distance: number("distance"),
+    movingTime: number("movingTime"),
+    elevationGain: number("elevationGain"),
+    avgSpeed: number("avgSpeed"),
+    trainingLoad: number("trainingLoad"),
+  };
+};
+
+const validateRideSummary = (value: unknown, i: number): RideSummary => {
+  const ride = asObject(value, `rides[${i}]`);
+  const number = (name: keyof RideSummary) => asNumber(ride[name], `rides[${i}].${name}`, 0);
+  return {
+    date: number("date"),
+    name: asString(ride.name, `rides[${i}].name`, MAX_NAME_LENGTH),
+    distance: number("distance"),
+    movingTime: number("movingTime"),
+    elevationGain: number("elevationGain"),
+    avgSpeed: number("avgSpeed"),
+    normalizedPower: number("normalizedPower"),
+    trainingLoad: number("trainingLoad"),
+  };
+};
+
+export const validateReviewRequest = (body: unknown): ReviewRequest => {
+  const request = asObject(body, "Request body");
+  const rides = asArray(request.rides, "rides", MAX_REVIEW_RIDES).map(validateRideSummary);
+  if (rides.length === 0) throw invalid("A review needs at least one ride.");
+  return {
+    weeks: asArray(request.weeks, "weeks", REVIEW_WEEKS).map(validateWeek),
+    rides,
+    rider: validateRider(request.rider),
+    locale: validateLocale(request.locale),
+  };
+};
+
+export const validateNearbyRequest = (body: unknown): NearbyRequest => {
+  const request = asObject(body, "Request body");
+  const path = asArray(request.path, "path", MAX_SEARCH_POINTS).map((value, i) => {
+    const point = asObject(value, `path[${i}]`);
+    return {
+      latitude: asNumber(point.latitude, `path[${i}].latitude`, -90, 90),
+      longitude: asNumber(point.longitude, `path[${i}].longitude`, -180, 180),
+    };
+  });
+  if (path.length === 0) throw invalid("path needs at least one point.");
+  return {
+    path,
+    radius: asNumber(request.radius, "radius", MIN_SEARCH_RADIUS, MAX_SEARCH_RADIUS),
+    locale: validateLocale(request.locale),
+  };
+};
+
+export const validateInsight = (value: unknown): InsightAnswer => {
+  const insight = asObject(value, "insight");
+  const scores = asObject(insight.scores, "scores");
+  return {
+    title: asString(insight.title, "title", MAX_NAME_LENGTH),
+    summary: asString(insight.summary, "summary", MAX_TEXT_LENGTH),
+    recommendations: asArray(insight.recommendations, "recommendations", Infinity)
+      .slice(0, MAX_RECOMMENDATIONS)
+      .map((item, i) => asString(item, `recommendations[${i}]`, MAX_TEXT_LENGTH)),
+    scores: Object.fromEntries(
+      INSIGHT_DIMENSIONS.map((d) => [d, Math.round(asNumber(scores[d], `scores.${d}`, 1, 10))])
+    ) as InsightAnswer["scores"],
+    notes: asArray(insight.notes, "notes", Infinity)
+      .slice(0, MAX_NOTES)
+      .map((item, i) => {
+        const note = asObject(item, `notes[${i}]`);
+        return {
+          ref: asString(note.ref, `notes[${i}].ref`, MAX_NAME_LENGTH),
+          text: asString(note.text, `notes[${i}].text`, MAX_TEXT_LENGTH),
+        };
+      }),
+  };
+};
+
+// Links that are not plain web addresses are dropped rather than rejected
+const isWebLink = (value: unknown): value is GroundingLink => {
+  if (typeof value !== "object" || value === null) return false;
+  const { title, uri } = value as Fields;
+  return typeof title === "string" && typeof uri === "string" && /^https?:\/\//i.test(uri);
+};
+
+export const validateGroundedAnswer = (value: unknown): GroundedAnswer => {
+  const answer = asObject(value, "answer");
+  return {
+    text: asString(answer.text, "text", MAX_TEXT_LENGTH),
+    links: asArray(answer.links, "links", Infinity).filter(isWebLink).slice(0, MAX_LINKS).map(({ title, uri }) => ({
+      title: title.slice(0, MAX_NAME_LENGTH),
+      uri,
+    })),
+  };
+};
+
+export const validatePlaces = (value: unknown): PlacesAnswer => {
+  const answer = asObject(value, "answer");
+  return {
+    summary: asString(answer.summary, "summary", MAX_TEXT_LENGTH),
+    places: asArray(answer.places, "places", Infinity)
+      .slice(0, MAX_PLACES)
+      .map((item, i) => {
+        const place = asObject(item, `places[${i}]`);
+        const category = POI_CATEGORIES.find((c) => c === place.category);
+        if (!category) throw invalid(`places[${i}].category must be one of ${POI_CATEGORIES.join(", ")}.`);
+        return {
+          name: asString(place.name, `places[${i}].name`, MAX_NAME_LENGTH),
+          category,
+          latitude: asNumber(place.latitude, `places[${i}].latitude`, -90, 90),
+          longitude: asNumber(place.longitude, `places[${i}].longitude`, -180, 180),
+          description: asString(place.description, `places[${i}].description`, MAX_TEXT_LENGTH),
+          source: Math.round(asNumber(place.source, `places[${i}].source`, 0)),
+        };
+      }),
+  };
+};
+
+export const validateReview = (value: unknown): TrainingReview => {
+  const review = asObject(value, "review");
+  const strings = (field: string, max: number) =>
+    asArray(review[field], field, Infinity)
+      .slice(0, max)
+      .map((item, i) => asString(item, `${field}[${i}]`, MAX_TEXT_LENGTH));
+  return {
+    title: asString(review.title, "title", MAX_NAME_LENGTH),
+    summary: asString(review.summary, "summary", MAX_TEXT_LENGTH),
+    highlights: strings("highlights", MAX_HIGHLIGHTS),
+    goals: asArray(review.goals, "goals", Infinity)
+      .slice(0, MAX_GOALS)
+      .map((item, i) => {
+        const goal = asObject(item, `goals[${i}]`);
+        return {
+          title: asString(goal.title, `goals[${i}].title`, MAX_NAME_LENGTH),
+          target: asString(goal.target, `goals[${i}].target`, MAX_NAME_LENGTH),
+        };
+      }),
+    plan: asArray(review.plan, "plan", Infinity)
+      .slice(0, WEEKDAYS.length)
+      .map((item, i): PlannedWorkout => {
+        const day = asObject(item, `plan[${i}]`);
+        const intensity = WORKOUT_INTENSITIES.find((level) => level === day.intensity);
+        if (!intensity) throw invalid(`plan[${i}].intensity must be one of ${WORKOUT_INTENSITIES.join(", ")}.`);
+        return {
+          day: asString(day.day, `plan[${i}].day`, MAX_NAME_LENGTH),
+          workout: asString(day.workout, `plan[${i}].workout`, MAX_TEXT_LENGTH),
+          minutes: Math.round(asNumber(day.minutes, `plan[${i}].minutes`, 0, 24 * 60)),
+          intensity,
+        };
+      }),
+  };
+};
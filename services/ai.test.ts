@@ -0,0 +1,60 @@
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { analysisBody, chatBody } from "../server/__fixtures__/requests";
+import { getAIAnalysis, isUnreachable, streamCoachReply } from "./ai";
+
+// What a request failed with, for checking how it would be treated
+const failureOf = (request: Promise<unknown>) => request.then(
+  () => {
+    throw new Error("The request succeeded.");
+  },
+  (err: unknown) => err
+);
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("isUnreachable", () => {
+  it("is true only when fetch couldn't reach the server", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new TypeError("Failed to fetch")));
+    const err = await failureOf(getAIAnalysis(analysisBody()));
+    expect(isUnreachable(err)).toBe(true);
+  });
+
+  it("is false for an error response", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(Response.json({ error: "The AI service failed to respond." }, { status: 502 })));
+    const err = await failureOf(getAIAnalysis(analysisBody()));
+    expect(isUnreachable(err)).toBe(false);
+    expect((err as Error).message).toBe("The AI service failed to respond.");
+  });
+
+  it("is false for a reply that doesn't parse", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response("<html>", { status: 200 })));
+    expect(isUnreachable(await failureOf(getAIAnalysis(analysisBody())))).toBe(false);
+  });
+
+  it("is false for a reply that breaks off part way", async () => {
+    let pulls = 0;
+    const body = new ReadableStream<Uint8Array>({
+      pull: (controller) => {
+        if (pulls++ === 0) controller.enqueue(new TextEncoder().encode("Keep the effort"));
+        else controller.error(new TypeError("network error"));
+      },
+    });
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response(body)));
+    const { messages, ...ride } = chatBody();
+    const onText = vi.fn();
+    const err = await failureOf(streamCoachReply(ride, messages, onText));
+    expect(onText).toHaveBeenCalledWith("Keep the effort");
+    expect(isUnreachable(err)).toBe(false);
+  });
+
+  it("passes a cancellation through unchanged", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new DOMException("Aborted", "AbortError")));
+    const err = await failureOf(getAIAnalysis(analysisBody(), controller.signal));
+    expect(isUnreachable(err)).toBe(false);
+  });
+});
@@ -0,0 +1,114 @@
+import { AIInsight, NearbyStops, RoutePoint, TrainingReview } from "../types";
+import {
+  API_ROUTES,
+  AnalysisRequest,
+  ApiErrorBody,
+  ChatRequest,
+  ChatTurn,
+  MAX_CHAT_TURNS,
+  MAX_ROUTE_POINTS,
+  NearbyRequest,
+  ReviewRequest,
+} from "../server/contract";
+import { areaKey, cacheStops, getCachedStops } from "./poiCache";
+
+// Browser side of the AI features. Requests go to our own API routes, which
+// hold the model key; see server/routes.ts.
+
+const responseError = async (response: Response): Promise<Error> => {
+  const payload = (await response.json().catch(() => null)) as ApiErrorBody | null;
+  return new Error(payload?.error ?? `Request failed (${response.status}).`);
+};
+
+// Thrown when the server couldn't be reached at all, so the request is worth
+// sending again later. Anything after a response arrived is a real failure.
+export interface UnreachableError extends Error {
+  unreachable: true;
+}
+
+export const isUnreachable = (err: unknown): err is UnreachableError =>
+  err instanceof Error && (err as UnreachableError).unreachable === true;
+
+// Aborting `signal` cancels the request here and, through the closed
+// connection, the model call on the server
+const post = async (path: string, body: unknown, signal?: AbortSignal): Promise<Response> => {
+  let response: Response;
+  try {
+    response = await fetch(path, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (err) {
+    // fetch only rejects before a response arrives: no network, DNS, refused
+    if (signal?.aborted) throw err;
+    throw Object.assign(new Error("Could not reach the server.", { cause: err }), { unreachable: true as const });
+  }
+  if (!response.ok) throw await responseError(response);
+  return response;
+};
+
+// Thins long rides evenly so the request stays within the server's limits. A
+// gap that starts on a dropped point moves to the next kept one, so the
+// thinned ride still breaks there.
+const limitRoute = (route: RoutePoint[]): RoutePoint[] => {
+  if (route.length <= MAX_ROUTE_POINTS) return route;
+  const stride = Math.ceil(route.length / MAX_ROUTE_POINTS);
+  const kept: RoutePoint[] = [];
+  let gap = false;
+  route.forEach((point, i) => {
+    gap = gap || !!point.segmentStart;
+    if (i % stride !== 0) return;
+    kept.push(gap && !point.segmentStart ? { ...point, segmentStart: true } : point);
+    gap = false;
+  });
+  return kept;
+};
+
+export const getAIAnalysis = async (ride: AnalysisRequest, signal?: AbortSignal): Promise<AIInsight> => {
+  const request: AnalysisRequest = { ...ride, route: limitRoute(ride.route) };
+  const response = await post(API_ROUTES.analyze, request, signal);
+  return response.json();
+};
+
+// Calls `onText` with the reply so far each time more of it arrives and
+// resolves with the whole reply
+export const streamCoachReply = async (
+  ride: AnalysisRequest,
+  messages: ChatTurn[],
+  onText: (text: string) => void,
+  signal?: AbortSignal,
+): Promise<string> => {
+  // The conversation sent to the model has to open with the rider
+  const recent = messages.slice(-MAX_CHAT_TURNS);
+  const request: ChatRequest = {
+    ...ride,
+    route: limitRoute(ride.route),
+    messages: recent.slice(Math.max(recent.findIndex((m) => m.role === "user"), 0)).map(({ role, text }) => ({ role, text })),
+  };
+  const response = await post(API_ROUTES.chat, request, signal);
+  if (!response.body) throw new Error("The coach sent an empty reply.");
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let text = "";
+  for (let read = await reader.read(); !read.done; read = await reader.read()) {
+    text += read.value;
+    onText(text);
+  }
+  return text;
+};
+
+export const getTrainingReview = async (request: ReviewRequest, signal?: AbortSignal): Promise<TrainingReview> => {
+  const response = await post(API_ROUTES.review, request, signal);
+  return response.json();
+};
+
+export const findNearbyStops = async (request: NearbyRequest, signal?: AbortSignal): Promise<NearbyStops> => {
+  const key = areaKey(request);
+  const cached = getCachedStops(key);
+  if (cached) return cached;
+  const response = await post(API_ROUTES.nearby, request, signal);
+  const stops: NearbyStops = await response.json();
+  cacheStops(key, stops);
+  return stops;
+};
@@ -0,0 +1,53 @@
+
+import { CUE_LANGUAGE, Cue } from "../utils/cues";
+
+// Speaks cues with Web Speech synthesis and buzzes them with the Vibration
+// API. Either may be missing (iOS has no vibration); the other still works.
+
+export interface CuePlayer {
+  play: (cue: Cue, quiet: boolean) => void;
+  stop: () => void;
+}
+
+// Cues that pile up while one is being read out are dropped beyond this
+const MAX_QUEUED = 2;
+
+export const createCuePlayer = (): CuePlayer => {
+  const speech = typeof window !== "undefined" && "speechSynthesis" in window ? window.speechSynthesis : null;
+  let queued = 0;
+
+  const vibrate = (pattern: number[]) => {
+    if (!("vibrate" in navigator)) return;
+    try {
+      navigator.vibrate(pattern);
+    } catch (err) {
+      console.warn("Vibration failed:", err);
+    }
+  };
+
+  const speak = (text: string) => {
+    if (!speech || queued >= MAX_QUEUED) return;
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = CUE_LANGUAGE;
+    const done = () => { queued = Math.max(0, queued - 1); };
+    utterance.onend = done;
+    utterance.onerror = (event) => {
+      done();
+      if (event.error !== "interrupted" && event.error !== "canceled") console.warn("Speech failed:", event.error);
+    };
+    queued++;
+    speech.speak(utterance);
+  };
+
+  const play = (cue: Cue, quiet: boolean) => {
+    vibrate(cue.vibration);
+    if (!quiet) speak(cue.text);
+  };
+
+  const stop = () => {
+    speech?.cancel();
+    queued = 0;
+  };
+
+  return { play, stop };
+};
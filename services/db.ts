@@ -0,0 +1,93 @@
+
+const DB_NAME = "velo-ai";
+const DB_VERSION = 4;
+
+export const RIDES_STORE = "rides";
+export const SESSION_STORE = "session";
+export const SESSION_POINTS_STORE = "sessionPoints";
+export const SEGMENTS_STORE = "segments";
+export const EFFORTS_STORE = "efforts";
+export const REQUEST_QUEUE_STORE = "requestQueue";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const upgrade = (db: IDBDatabase) => {
+  if (!db.objectStoreNames.contains(RIDES_STORE)) {
+    const rides = db.createObjectStore(RIDES_STORE, { keyPath: "id" });
+    rides.createIndex("createdAt", "createdAt");
+  }
+  if (!db.objectStoreNames.contains(SESSION_STORE)) {
+    db.createObjectStore(SESSION_STORE, { keyPath: "id" });
+  }
+  if (!db.objectStoreNames.contains(SESSION_POINTS_STORE)) {
+    db.createObjectStore(SESSION_POINTS_STORE, { autoIncrement: true });
+  }
+  if (!db.objectStoreNames.contains(SEGMENTS_STORE)) {
+    db.createObjectStore(SEGMENTS_STORE, { keyPath: "id" });
+  }
+  if (!db.objectStoreNames.contains(EFFORTS_STORE)) {
+    const efforts = db.createObjectStore(EFFORTS_STORE, { keyPath: "id" });
+    efforts.createIndex("segmentId", "segmentId");
+    efforts.createIndex("rideId", "rideId");
+  }
+  if (!db.objectStoreNames.contains(REQUEST_QUEUE_STORE)) {
+    db.createObjectStore(REQUEST_QUEUE_STORE, { keyPath: "id" });
+  }
+};
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (!("indexedDB" in window)) {
+        reject(new Error("IndexedDB is not supported by this browser."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => upgrade(request.result);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed (e.g. private mode quirks)
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const withStore = <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => Promise<T> | T
+): Promise<T> => withStores([storeName], mode, (tx) => fn(tx.objectStore(storeName)));
+
+// Runs `fn` inside a transaction and resolves once the transaction commits,
+// so callers never observe a write that could still be rolled back.
+export const withStores = async <T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  fn: (tx: IDBTransaction) => Promise<T> | T
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeNames, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const result = await fn(tx);
+  await done;
+  return result;
+};
+
+// Deletes every record in `store` whose `indexName` key equals `key`
+export const deleteByIndex = async (store: IDBObjectStore, indexName: string, key: IDBValidKey): Promise<void> => {
+  const keys = await promisifyRequest(store.index(indexName).getAllKeys(key));
+  await Promise.all(keys.map((k) => promisifyRequest(store.delete(k))));
+};
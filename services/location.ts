@@ -0,0 +1,187 @@
+
+import { RoutePoint } from "../types";
+import { getRide } from "./rideRepository";
+
+export type LocationErrorCode = "PERMISSION_DENIED" | "POSITION_UNAVAILABLE" | "TIMEOUT";
+
+export interface LocationFix {
+  latitude: number;
+  longitude: number;
+  altitude: number | null;
+  accuracy: number | null;
+  speed: number | null; // m/s
+  timestamp: number;
+}
+
+export interface LocationError {
+  code: LocationErrorCode;
+  message: string;
+}
+
+// Everything the recorder needs from a position source. `start` begins
+// delivering fixes and returns a function that stops them.
+export interface LocationProvider {
+  isSupported: () => boolean;
+  start: (onFix: (fix: LocationFix) => void, onError: (error: LocationError) => void) => () => void;
+}
+
+const BROWSER_ERROR_CODES: Record<number, LocationErrorCode> = {
+  1: "PERMISSION_DENIED",
+  2: "POSITION_UNAVAILABLE",
+  3: "TIMEOUT",
+};
+
+const toFix = (position: GeolocationPosition): LocationFix => ({
+  latitude: position.coords.latitude,
+  longitude: position.coords.longitude,
+  altitude: position.coords.altitude,
+  accuracy: position.coords.accuracy,
+  speed: position.coords.speed,
+  timestamp: position.timestamp,
+});
+
+export const createBrowserLocationProvider = (): LocationProvider => ({
+  isSupported: () => "geolocation" in navigator,
+  start: (onFix, onError) => {
+    const handleError = (error: GeolocationPositionError) =>
+      onError({ code: BROWSER_ERROR_CODES[error.code] ?? "POSITION_UNAVAILABLE", message: error.message });
+
+    // GPS Warm-up: Initial request to wake up hardware
+    navigator.geolocation.getCurrentPosition(
+      (position) => onFix(toFix(position)),
+      () => console.log("Initial GPS lock failed, waiting for watchPosition..."),
+      { enableHighAccuracy: true, timeout: 5000 }
+    );
+
+    const watchId = navigator.geolocation.watchPosition(
+      (position) => onFix(toFix(position)),
+      handleError,
+      {
+        enableHighAccuracy: true,
+        timeout: 10000,
+        maximumAge: 0
+      }
+    );
+    return () => navigator.geolocation.clearWatch(watchId);
+  },
+});
+
+export interface SimulatedError {
+  at: number; // seconds of replay (wall clock) before the error fires
+  code: LocationErrorCode;
+  duration?: number; // seconds without fixes afterwards; ignored for PERMISSION_DENIED
+}
+
+export interface SimulatorOptions {
+  track: RoutePoint[];
+  speedFactor: number; // 1 = real time, 10 = ten times faster
+  loop?: boolean;
+  errors?: SimulatedError[];
+}
+
+const ERROR_MESSAGES: Record<LocationErrorCode, string> = {
+  PERMISSION_DENIED: "User denied Geolocation (simulated)",
+  POSITION_UNAVAILABLE: "Position unavailable (simulated)",
+  TIMEOUT: "Timeout expired (simulated)",
+};
+
+// Replays a track in (scaled) real time. Fixes are re-stamped with the current
+// time, and speeds scaled to match, so the recorder sees a live ride.
+export const createSimulatedLocationProvider = ({ track, speedFactor, loop = false, errors = [] }: SimulatorOptions): LocationProvider => ({
+  isSupported: () => track.length > 0,
+  start: (onFix, onError) => {
+    const factor = Math.max(speedFactor, 0.1);
+    const timers: number[] = [];
+    let blockedUntil = 0;
+    let stopped = false;
+
+    const stop = () => {
+      stopped = true;
+      timers.forEach((t) => clearTimeout(t));
+    };
+
+    errors.forEach((error) => {
+      timers.push(window.setTimeout(() => {
+        if (stopped) return;
+        onError({ code: error.code, message: ERROR_MESSAGES[error.code] });
+        if (error.code === "PERMISSION_DENIED") stop();
+        else blockedUntil = Date.now() + (error.duration ?? 0) * 1000;
+      }, error.at * 1000));
+    });
+
+    const emit = (index: number) => {
+      if (stopped) return;
+      const point = track[index];
+      const now = Date.now();
+      if (now >= blockedUntil) {
+        onFix({
+          latitude: point.latitude,
+          longitude: point.longitude,
+          altitude: point.altitude,
+          accuracy: point.accuracy ?? 5,
+          speed: point.speed * factor,
+          timestamp: now,
+        });
+      }
+
+      let next = index + 1;
+      if (next >= track.length) {
+        if (!loop) return;
+        next = 0;
+      }
+      const gap = next === 0 ? 1000 : (track[next].timestamp - point.timestamp) / factor;
+      timers.push(window.setTimeout(() => emit(next), Math.max(gap, 50)));
+    };
+
+    // Short delay so the UI shows the searching state like a real GPS would
+    timers.push(window.setTimeout(() => emit(0), 500));
+    return stop;
+  },
+});
+
+// A loop with a gentle climb, for trying the recorder without a stored ride
+export const createSyntheticTrack = (
+  center = { latitude: 51.5074, longitude: -0.1278 },
+  radius = 1500, // metres
+  speed = 7, // m/s (~25 km/h)
+): RoutePoint[] => {
+  const circumference = 2 * Math.PI * radius;
+  const count = Math.round(circumference / speed);
+  const start = Date.now();
+  return Array.from({ length: count }, (_, i) => {
+    const angle = (i / count) * 2 * Math.PI;
+    return {
+      latitude: center.latitude + ((radius * Math.sin(angle)) / 6371e3) * (180 / Math.PI),
+      longitude: center.longitude + ((radius * Math.cos(angle)) / (6371e3 * Math.cos((center.latitude * Math.PI) / 180))) * (180 / Math.PI),
+      timestamp: start + i * 1000,
+      speed,
+      altitude: 40 + 25 * Math.sin(angle),
+    };
+  });
+};
+
+export type LocationSource = "gps" | "simulator";
+
+export interface SimulatorSettings {
+  rideId: string | null; // saved ride to replay; null for the synthetic loop
+  speedFactor: number;
+  errors: SimulatedError[];
+}
+
+export const DEFAULT_SIMULATOR: SimulatorSettings = {
+  rideId: null,
+  speedFactor: 1,
+  errors: [],
+};
+
+export const createLocationProvider = async (source: LocationSource, simulator: SimulatorSettings): Promise<LocationProvider> => {
+  if (source === "gps") return createBrowserLocationProvider();
+
+  const ride = simulator.rideId ? await getRide(simulator.rideId) : null;
+  return createSimulatedLocationProvider({
+    track: ride?.route ?? createSyntheticTrack(),
+    speedFactor: simulator.speedFactor,
+    loop: !ride,
+    errors: simulator.errors,
+  });
+};
@@ -0,0 +1,46 @@
+
+import { NearbyStops } from "../types";
+import { NearbyRequest } from "../server/contract";
+
+// Nearby-stop results by search area, so searching the same stretch again
+// (or from a few hundred metres further on) doesn't call the model
+
+interface CacheEntry {
+  key: string;
+  stops: NearbyStops;
+  createdAt: number;
+}
+
+const STORAGE_KEY = "velo-ai:poi-cache";
+const MAX_AGE = 24 * 60 * 60 * 1000; // opening hours and closures change
+const MAX_ENTRIES = 30;
+
+// Coordinates rounded to ~1 km, with repeats along the path collapsed. The
+// answer's wording depends on the locale, so that is part of the key too.
+export const areaKey = ({ path, radius, locale }: NearbyRequest): string => {
+  const cells = path.map((p) => `${p.latitude.toFixed(2)},${p.longitude.toFixed(2)}`);
+  return `${locale.language}:${locale.units}:${radius}:${cells.filter((cell, i) => cell !== cells[i - 1]).join(";")}`;
+};
+
+const loadEntries = (): CacheEntry[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as CacheEntry[]) : [];
+  } catch (err) {
+    console.warn("Failed to load cached places:", err);
+    return [];
+  }
+};
+
+export const getCachedStops = (key: string, now = Date.now()): NearbyStops | null =>
+  loadEntries().find((entry) => entry.key === key && now - entry.createdAt < MAX_AGE)?.stops ?? null;
+
+// Newest first; the oldest entries fall off the end
+export const cacheStops = (key: string, stops: NearbyStops, now = Date.now()) => {
+  const entries = loadEntries().filter((entry) => entry.key !== key && now - entry.createdAt < MAX_AGE);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([{ key, stops, createdAt: now }, ...entries].slice(0, MAX_ENTRIES)));
+  } catch (err) {
+    console.warn("Failed to cache places:", err);
+  }
+};
@@ -0,0 +1,92 @@
+
+import { NearbyStops, SavedRide } from "../types";
+import { AnalysisRequest, NearbyRequest, ReviewRequest } from "../server/contract";
+import { findNearbyStops, getAIAnalysis, getTrainingReview, isUnreachable } from "./ai";
+import { updateRide } from "./rideRepository";
+import { StoredReview, saveReview } from "./trainingReview";
+import { REQUEST_QUEUE_STORE, promisifyRequest, withStore } from "./db";
+
+// AI requests made without a connection wait here until it returns. Answers
+// are saved where they would have gone (the ride, or the stored training
+// review), so they arrive even if the app was closed in between.
+
+export type QueuedRequest =
+  | { kind: "analysis"; rideId: string; request: AnalysisRequest }
+  | { kind: "nearby"; rideId: string; request: NearbyRequest }
+  | { kind: "review"; request: ReviewRequest };
+
+export type DeliveredRequest =
+  | { kind: "analysis"; ride: SavedRide }
+  | { kind: "nearby"; ride: SavedRide; stops: NearbyStops }
+  | { kind: "review"; review: StoredReview };
+
+interface QueueEntry {
+  id: string;
+  createdAt: number;
+  item: QueuedRequest;
+}
+
+// Only requests that never reached the server are queued; a reply that broke
+// off or didn't parse is an error like any other
+export const isConnectionError = (err: unknown): boolean => !navigator.onLine || isUnreachable(err);
+
+export const enqueueRequest = async (item: QueuedRequest): Promise<void> => {
+  const entry: QueueEntry = { id: crypto.randomUUID(), createdAt: Date.now(), item };
+  await withStore(REQUEST_QUEUE_STORE, "readwrite", (store) => promisifyRequest(store.put(entry)));
+};
+
+// Oldest first
+const listQueue = async (): Promise<QueueEntry[]> => {
+  const entries = await withStore(REQUEST_QUEUE_STORE, "readonly", (store) =>
+    promisifyRequest(store.getAll() as IDBRequest<QueueEntry[]>)
+  );
+  return entries.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const countQueued = (): Promise<number> =>
+  withStore(REQUEST_QUEUE_STORE, "readonly", (store) => promisifyRequest(store.count()));
+
+const removeEntry = (id: string) => withStore(REQUEST_QUEUE_STORE, "readwrite", (store) => promisifyRequest(store.delete(id)));
+
+const send = async (item: QueuedRequest): Promise<DeliveredRequest> => {
+  switch (item.kind) {
+    case "analysis": {
+      const insight = await getAIAnalysis(item.request);
+      return { kind: "analysis", ride: await updateRide(item.rideId, { aiInsight: insight }) };
+    }
+    case "nearby": {
+      const stops = await findNearbyStops(item.request);
+      return { kind: "nearby", ride: await updateRide(item.rideId, { nearbyStops: stops }), stops };
+    }
+    case "review": {
+      const review: StoredReview = { review: await getTrainingReview(item.request), createdAt: Date.now() };
+      saveReview(review);
+      return { kind: "review", review };
+    }
+  }
+};
+
+let flushing: Promise<void> | null = null;
+
+// Sends queued requests in order, stopping at the first that can't get
+// through. Requests the server turns down (or whose ride was deleted) are
+// dropped rather than retried forever.
+export const flushQueue = (onDelivered: (delivered: DeliveredRequest) => void): Promise<void> => {
+  flushing ??= (async () => {
+    for (const entry of await listQueue()) {
+      if (!navigator.onLine) return;
+      try {
+        const delivered = await send(entry.item);
+        await removeEntry(entry.id);
+        onDelivered(delivered);
+      } catch (err) {
+        if (isConnectionError(err)) return;
+        console.warn("Dropping a queued AI request:", err);
+        await removeEntry(entry.id);
+      }
+    }
+  })().finally(() => {
+    flushing = null;
+  });
+  return flushing;
+};
@@ -0,0 +1,84 @@
+
+import { RideStats, SavedRide } from "../types";
+import { EFFORTS_STORE, RIDES_STORE, deleteByIndex, promisifyRequest, withStore, withStores } from "./db";
+
+type NewRide = Omit<SavedRide, "id" | "name" | "createdAt" | "updatedAt"> & { name?: string };
+
+const defaultRideName = (startTime: number | null): string => {
+  const date = new Date(startTime ?? Date.now());
+  const hour = date.getHours();
+  const partOfDay = hour < 12 ? "Morning" : hour < 18 ? "Afternoon" : "Evening";
+  return `${partOfDay} Ride · ${date.toLocaleDateString()}`;
+};
+
+// Fills fields added after a ride or checkpoint was first stored
+export const normalizeStats = (stats: RideStats): RideStats => {
+  const movingTime = stats.movingTime ?? stats.duration;
+  return {
+    ...stats,
+    movingTime,
+    // Rides saved before the session engine never had avgSpeed set
+    avgSpeed: stats.avgSpeed || (movingTime > 0 ? stats.totalDistance / movingTime : 0),
+    elevationLoss: stats.elevationLoss ?? 0,
+    maxGrade: stats.maxGrade ?? 0,
+    calories: stats.calories ?? 0,
+    avgPower: stats.avgPower ?? 0,
+    normalizedPower: stats.normalizedPower ?? 0,
+    work: stats.work ?? 0,
+    intensityFactor: stats.intensityFactor ?? 0,
+    trainingLoad: stats.trainingLoad ?? 0,
+  };
+};
+
+const normalizeRide = (ride: SavedRide): SavedRide => ({ ...ride, stats: normalizeStats(ride.stats) });
+
+export const listRides = async (): Promise<SavedRide[]> => {
+  const rides = await withStore(RIDES_STORE, "readonly", (store) =>
+    promisifyRequest(store.getAll() as IDBRequest<SavedRide[]>)
+  );
+  return rides.map(normalizeRide).sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getRide = async (id: string): Promise<SavedRide | null> => {
+  const ride = await withStore(RIDES_STORE, "readonly", (store) =>
+    promisifyRequest(store.get(id) as IDBRequest<SavedRide | undefined>)
+  );
+  return ride ? normalizeRide(ride) : null;
+};
+
+export const createRide = async (ride: NewRide): Promise<SavedRide> => {
+  const now = Date.now();
+  const saved: SavedRide = {
+    ...ride,
+    id: crypto.randomUUID(),
+    name: ride.name?.trim() || defaultRideName(ride.stats.startTime),
+    createdAt: ride.stats.startTime ?? now,
+    updatedAt: now,
+  };
+  await withStore(RIDES_STORE, "readwrite", (store) => promisifyRequest(store.put(saved)));
+  return saved;
+};
+
+export const updateRide = async (
+  id: string,
+  changes: Partial<Omit<SavedRide, "id" | "createdAt">>
+): Promise<SavedRide> => {
+  return withStore(RIDES_STORE, "readwrite", async (store) => {
+    const existing = await promisifyRequest(store.get(id) as IDBRequest<SavedRide | undefined>);
+    if (!existing) throw new Error(`Ride ${id} not found`);
+    const updated: SavedRide = { ...normalizeRide(existing), ...changes, id, updatedAt: Date.now() };
+    await promisifyRequest(store.put(updated));
+    return updated;
+  });
+};
+
+export const renameRide = (id: string, name: string): Promise<SavedRide> =>
+  updateRide(id, { name: name.trim() });
+
+// Segment efforts go with the ride so leaderboards never point at a missing ride
+export const deleteRide = async (id: string): Promise<void> => {
+  await withStores([RIDES_STORE, EFFORTS_STORE], "readwrite", async (tx) => {
+    await deleteByIndex(tx.objectStore(EFFORTS_STORE), "rideId", id);
+    await promisifyRequest(tx.objectStore(RIDES_STORE).delete(id));
+  });
+};
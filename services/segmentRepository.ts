@@ -0,0 +1,89 @@
+
+import { SavedRide, Segment, SegmentEffort } from "../types";
+import { EffortMatch, SegmentShape, detectEfforts } from "../utils/segments";
+import { EFFORTS_STORE, RIDES_STORE, SEGMENTS_STORE, deleteByIndex, promisifyRequest, withStore, withStores } from "./db";
+
+const toEfforts = (segment: Segment, ride: SavedRide, matches: EffortMatch[]): SegmentEffort[] =>
+  matches.map((match) => ({ ...match, id: crypto.randomUUID(), segmentId: segment.id, rideId: ride.id }));
+
+export const listSegments = async (): Promise<Segment[]> => {
+  const segments = await withStore(SEGMENTS_STORE, "readonly", (store) =>
+    promisifyRequest(store.getAll() as IDBRequest<Segment[]>)
+  );
+  return segments.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// A new segment is matched against the whole history straight away
+export const createSegment = async (name: string, sourceRideId: string, shape: SegmentShape): Promise<Segment> => {
+  const segment: Segment = {
+    ...shape,
+    id: crypto.randomUUID(),
+    name: name.trim(),
+    sourceRideId,
+    createdAt: Date.now(),
+  };
+  await withStores([SEGMENTS_STORE, RIDES_STORE, EFFORTS_STORE], "readwrite", async (tx) => {
+    const rides = await promisifyRequest(tx.objectStore(RIDES_STORE).getAll() as IDBRequest<SavedRide[]>);
+    const efforts = tx.objectStore(EFFORTS_STORE);
+    await promisifyRequest(tx.objectStore(SEGMENTS_STORE).put(segment));
+    await Promise.all(
+      rides.flatMap((ride) => toEfforts(segment, ride, detectEfforts(ride.route, segment)))
+        .map((effort) => promisifyRequest(efforts.put(effort)))
+    );
+  });
+  return segment;
+};
+
+export const deleteSegment = async (id: string): Promise<void> => {
+  await withStores([SEGMENTS_STORE, EFFORTS_STORE], "readwrite", async (tx) => {
+    await deleteByIndex(tx.objectStore(EFFORTS_STORE), "segmentId", id);
+    await promisifyRequest(tx.objectStore(SEGMENTS_STORE).delete(id));
+  });
+};
+
+// Fastest first
+export const listSegmentEfforts = async (segmentId: string): Promise<SegmentEffort[]> => {
+  const efforts = await withStore(EFFORTS_STORE, "readonly", (store) =>
+    promisifyRequest(store.index("segmentId").getAll(segmentId) as IDBRequest<SegmentEffort[]>)
+  );
+  return efforts.sort((a, b) => a.duration - b.duration);
+};
+
+// Replaces the ride's efforts; safe to run again after segments change
+export const scanRide = async (ride: SavedRide): Promise<SegmentEffort[]> => {
+  return withStores([SEGMENTS_STORE, EFFORTS_STORE], "readwrite", async (tx) => {
+    const segments = await promisifyRequest(tx.objectStore(SEGMENTS_STORE).getAll() as IDBRequest<Segment[]>);
+    const store = tx.objectStore(EFFORTS_STORE);
+    await deleteByIndex(store, "rideId", ride.id);
+    const efforts = segments.flatMap((segment) => toEfforts(segment, ride, detectEfforts(ride.route, segment)));
+    await Promise.all(efforts.map((effort) => promisifyRequest(store.put(effort))));
+    return efforts;
+  });
+};
+
+export interface RankedEffort {
+  segment: Segment;
+  effort: SegmentEffort;
+  rank: number; // 1 is the personal record
+  attempts: number;
+}
+
+// The ride's efforts, each placed on its segment's leaderboard
+export const listRideEfforts = async (rideId: string): Promise<RankedEffort[]> => {
+  return withStores([SEGMENTS_STORE, EFFORTS_STORE], "readonly", async (tx) => {
+    const efforts = tx.objectStore(EFFORTS_STORE);
+    const own = await promisifyRequest(efforts.index("rideId").getAll(rideId) as IDBRequest<SegmentEffort[]>);
+    const ranked = await Promise.all(own.map(async (effort) => {
+      const [segment, all] = await Promise.all([
+        promisifyRequest(tx.objectStore(SEGMENTS_STORE).get(effort.segmentId) as IDBRequest<Segment | undefined>),
+        promisifyRequest(efforts.index("segmentId").getAll(effort.segmentId) as IDBRequest<SegmentEffort[]>),
+      ]);
+      if (!segment) return null;
+      const rank = all.filter((other) => other.duration < effort.duration).length + 1;
+      return { segment, effort, rank, attempts: all.length };
+    }));
+    return ranked
+      .filter((r): r is RankedEffort => r !== null)
+      .sort((a, b) => a.effort.startTime - b.effort.startTime);
+  });
+};
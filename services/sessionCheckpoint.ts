@@ -0,0 +1,55 @@
+
+import { RideStats, RoutePoint } from "../types";
+import { normalizeStats } from "./rideRepository";
+import { SESSION_POINTS_STORE, SESSION_STORE, promisifyRequest, withStore, withStores } from "./db";
+
+const CHECKPOINT_ID = "current";
+
+interface CheckpointMeta {
+  id: typeof CHECKPOINT_ID;
+  stats: RideStats;
+  updatedAt: number;
+}
+
+export interface SessionCheckpoint {
+  stats: RideStats;
+  route: RoutePoint[];
+  updatedAt: number;
+}
+
+// Points are appended one record at a time so a checkpoint never rewrites the
+// whole track; the stats record is small and simply overwritten.
+export const beginCheckpoint = async (stats: RideStats): Promise<void> => {
+  await withStores([SESSION_STORE, SESSION_POINTS_STORE], "readwrite", (tx) => {
+    tx.objectStore(SESSION_POINTS_STORE).clear();
+    const meta: CheckpointMeta = { id: CHECKPOINT_ID, stats, updatedAt: Date.now() };
+    return promisifyRequest(tx.objectStore(SESSION_STORE).put(meta));
+  });
+};
+
+export const checkpointPoint = async (point: RoutePoint): Promise<void> => {
+  await withStore(SESSION_POINTS_STORE, "readwrite", (store) => promisifyRequest(store.add(point)));
+};
+
+export const checkpointStats = async (stats: RideStats): Promise<void> => {
+  const meta: CheckpointMeta = { id: CHECKPOINT_ID, stats, updatedAt: Date.now() };
+  await withStore(SESSION_STORE, "readwrite", (store) => promisifyRequest(store.put(meta)));
+};
+
+export const loadCheckpoint = async (): Promise<SessionCheckpoint | null> => {
+  return withStores([SESSION_STORE, SESSION_POINTS_STORE], "readonly", async (tx) => {
+    const [meta, route] = await Promise.all([
+      promisifyRequest(tx.objectStore(SESSION_STORE).get(CHECKPOINT_ID) as IDBRequest<CheckpointMeta | undefined>),
+      promisifyRequest(tx.objectStore(SESSION_POINTS_STORE).getAll() as IDBRequest<RoutePoint[]>),
+    ]);
+    if (!meta) return null;
+    return { stats: normalizeStats(meta.stats), route, updatedAt: meta.updatedAt };
+  });
+};
+
+export const clearCheckpoint = async (): Promise<void> => {
+  await withStores([SESSION_STORE, SESSION_POINTS_STORE], "readwrite", (tx) => {
+    tx.objectStore(SESSION_POINTS_STORE).clear();
+    return promisifyRequest(tx.objectStore(SESSION_STORE).delete(CHECKPOINT_ID));
+  });
+};
@@ -0,0 +1,68 @@
+
+import { AutoPauseSettings, DEFAULT_AUTO_PAUSE } from "../utils/autoPause";
+import { TrackFilterSettings, DEFAULT_TRACK_FILTER } from "../utils/trackFilter";
+import { SplitUnit } from "../utils/splits";
+import { RiderProfile, DEFAULT_RIDER_PROFILE } from "../utils/power";
+import { DisplaySettings, DEFAULT_DISPLAY } from "../utils/format";
+import { CueSettings, DEFAULT_CUES } from "../utils/cues";
+import { LocationSource, SimulatorSettings, DEFAULT_SIMULATOR } from "./location";
+
+export interface AppSettings {
+  autoPause: AutoPauseSettings;
+  trackFilter: TrackFilterSettings;
+  locationSource: LocationSource;
+  simulator: SimulatorSettings;
+  splitUnit: SplitUnit;
+  offCourseDistance: number; // metres from the course before warning
+  profile: RiderProfile;
+  display: DisplaySettings;
+  cues: CueSettings;
+}
+
+const STORAGE_KEY = "velo-ai:settings";
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  autoPause: DEFAULT_AUTO_PAUSE,
+  trackFilter: DEFAULT_TRACK_FILTER,
+  locationSource: "gps",
+  simulator: DEFAULT_SIMULATOR,
+  splitUnit: "km",
+  offCourseDistance: 50,
+  profile: DEFAULT_RIDER_PROFILE,
+  display: DEFAULT_DISPLAY,
+  cues: DEFAULT_CUES,
+};
+
+// Merges over the defaults so settings saved by older versions pick up new keys
+export const loadSettings = (): AppSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_SETTINGS;
+    const stored = JSON.parse(raw) as Partial<AppSettings>;
+    return {
+      ...DEFAULT_SETTINGS,
+      ...stored,
+      autoPause: { ...DEFAULT_SETTINGS.autoPause, ...stored.autoPause },
+      trackFilter: { ...DEFAULT_SETTINGS.trackFilter, ...stored.trackFilter },
+      simulator: { ...DEFAULT_SETTINGS.simulator, ...stored.simulator },
+      profile: { ...DEFAULT_SETTINGS.profile, ...stored.profile },
+      display: { ...DEFAULT_SETTINGS.display, ...stored.display },
+      cues: {
+        ...DEFAULT_SETTINGS.cues,
+        ...stored.cues,
+        events: { ...DEFAULT_SETTINGS.cues.events, ...stored.cues?.events },
+      },
+    };
+  } catch (err) {
+    console.warn("Failed to load settings, using defaults:", err);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AppSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.warn("Failed to save settings:", err);
+  }
+};
@@ -0,0 +1,38 @@
+
+import { downloadBlob } from "../utils/download";
+
+// Web Share where the device has it (mostly mobile), with a download or a
+// clipboard copy everywhere else.
+
+export type ShareOutcome = "shared" | "downloaded" | "copied" | "cancelled";
+
+const isAbort = (err: unknown) => err instanceof DOMException && err.name === "AbortError";
+
+export const shareImage = async (blob: Blob, fileName: string, title: string): Promise<ShareOutcome> => {
+  const file = new File([blob], fileName, { type: blob.type });
+  if (navigator.canShare?.({ files: [file] })) {
+    try {
+      await navigator.share({ files: [file], title });
+      return "shared";
+    } catch (err) {
+      if (isAbort(err)) return "cancelled";
+      console.warn("Web Share failed, downloading instead:", err);
+    }
+  }
+  downloadBlob(blob, fileName);
+  return "downloaded";
+};
+
+export const shareLink = async (url: string, title: string): Promise<ShareOutcome> => {
+  if (navigator.share) {
+    try {
+      await navigator.share({ url, title });
+      return "shared";
+    } catch (err) {
+      if (isAbort(err)) return "cancelled";
+      console.warn("Web Share failed, copying instead:", err);
+    }
+  }
+  await navigator.clipboard.writeText(url);
+  return "copied";
+};
@@ -0,0 +1,29 @@
+
+import { TrainingReview } from "../types";
+
+// The latest AI training review, kept until the rider asks for a new one
+
+export interface StoredReview {
+  review: TrainingReview;
+  createdAt: number;
+}
+
+const STORAGE_KEY = "velo-ai:training-review";
+
+export const loadReview = (): StoredReview | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as StoredReview) : null;
+  } catch (err) {
+    console.warn("Failed to load the training review:", err);
+    return null;
+  }
+};
+
+export const saveReview = (stored: StoredReview) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch (err) {
+    console.warn("Failed to save the training review:", err);
+  }
+};
@@ -0,0 +1,50 @@
+
+// Keeps the screen on while recording. Browsers drop the lock whenever the
+// page is hidden, so it is taken again each time the page comes back.
+
+export interface ScreenWakeLock {
+  acquire: () => Promise<void>;
+  release: () => void;
+}
+
+export const createScreenWakeLock = (): ScreenWakeLock => {
+  let sentinel: WakeLockSentinel | null = null;
+  let wanted = false;
+
+  const request = async () => {
+    if (!wanted || sentinel || !("wakeLock" in navigator) || document.visibilityState !== "visible") return;
+    try {
+      const lock = await navigator.wakeLock.request("screen");
+      // Released while the request was in flight
+      if (!wanted) {
+        await lock.release();
+        return;
+      }
+      sentinel = lock;
+      lock.addEventListener("release", () => {
+        if (sentinel === lock) sentinel = null;
+      });
+    } catch (err) {
+      console.warn("Wake Lock request failed:", err);
+    }
+  };
+
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === "visible") request();
+  };
+
+  const acquire = async () => {
+    if (!wanted) document.addEventListener("visibilitychange", handleVisibilityChange);
+    wanted = true;
+    await request();
+  };
+
+  const release = () => {
+    if (wanted) document.removeEventListener("visibilitychange", handleVisibilityChange);
+    wanted = false;
+    sentinel?.release().catch((err) => console.warn("Wake Lock release failed:", err));
+    sentinel = null;
+  };
+
+  return { acquire, release };
+};
@@ -5,21 +5,77 @@ export interface RoutePoint {
   timestamp: number;
   speed: number; // in m/s
   altitude: number | null;
+  accuracy?: number | null; // metres, from coords.accuracy; absent on imported points
+  segmentStart?: boolean; // first fix after a recording gap; not joined to the previous point
+  lapEnd?: boolean; // first fix after the lap button was pressed; closes that lap
+  autoPaused?: boolean; // recorded while auto-paused; kept for stop detection but adds no distance or time
 }
 
 export interface RideStats {
   totalDistance: number; // meters
   avgSpeed: number; // m/s
   maxSpeed: number; // m/s
-  duration: number; // seconds
+  duration: number; // seconds elapsed, including pauses (recording gaps excluded)
+  movingTime: number; // seconds actually riding; excludes manual and auto pauses
   startTime: number | null;
-  elevationGain: number;
+  elevationGain: number; // meters
+  elevationLoss: number; // meters
+  maxGrade: number; // percent, steepest climb over a ~100 m stretch
+  calories: number; // kcal, from the estimated work
+  avgPower: number; // watts, estimated, over moving time
+  normalizedPower: number; // watts
+  work: number; // kJ
+  intensityFactor: number; // normalized power over FTP
+  trainingLoad: number; // TSS-style; an hour at FTP is 100
+}
+
+export type InsightDimension = 'pacing' | 'climbing' | 'sprinting' | 'endurance';
+
+// A coaching comment pinned to one of the ride's features (a climb, stop, sprint or split)
+export interface InsightNote {
+  ref: string; // feature id from utils/rideFeatures, e.g. "climb-2"
+  label: string; // e.g. "Climb 2"
+  latitude: number;
+  longitude: number;
+  distance: number; // metres along the ride
+  text: string;
 }
 
 export interface AIInsight {
   title: string;
   summary: string;
   recommendations: string[];
+  scores?: Record<InsightDimension, number>; // 1-10; absent on analyses saved before scoring
+  notes?: InsightNote[];
+}
+
+export type WorkoutIntensity = 'rest' | 'easy' | 'moderate' | 'hard';
+
+export interface TrainingGoal {
+  title: string;
+  target: string; // something measurable, e.g. "150 km over 3 rides"
+}
+
+export interface PlannedWorkout {
+  day: string; // weekday name
+  workout: string;
+  minutes: number; // 0 on rest days
+  intensity: WorkoutIntensity;
+}
+
+// AI review of the recent weeks of riding with a plan for the next one
+export interface TrainingReview {
+  title: string;
+  summary: string;
+  highlights: string[];
+  goals: TrainingGoal[];
+  plan: PlannedWorkout[]; // Monday first
+}
+
+export interface ChatMessage {
+  role: 'user' | 'coach';
+  text: string;
+  createdAt: number;
 }
 
 export interface GroundingLink {
@@ -27,4 +83,80 @@ export interface GroundingLink {
   uri: string;
 }
 
+export type PoiCategory = 'cafe' | 'food' | 'bikeShop' | 'water' | 'toilet' | 'viewpoint' | 'other';
+
+export interface PointOfInterest {
+  name: string;
+  category: PoiCategory;
+  latitude: number;
+  longitude: number;
+  distanceOffRoute: number; // metres from the searched point or route
+  description: string;
+  uri: string | null; // the search result it came from
+}
+
+export interface NearbyStops {
+  text: string;
+  links: GroundingLink[]; // every search result the answer drew on, for attribution
+  places?: PointOfInterest[]; // absent on results saved before places were located
+}
+
+export type RideSource = 'recorded' | 'imported';
+
+// A start or finish line on a segment, passed heading roughly along `bearing`
+export interface SegmentGate {
+  latitude: number;
+  longitude: number;
+  bearing: number; // degrees clockwise from north
+}
+
+export interface Segment {
+  id: string;
+  name: string;
+  sourceRideId: string; // ride the segment was drawn on
+  start: SegmentGate;
+  end: SegmentGate;
+  distance: number; // metres along the source ride
+  elevationGain: number; // metres, finish altitude minus start altitude
+  createdAt: number;
+}
+
+export interface SegmentEffort {
+  id: string;
+  segmentId: string;
+  rideId: string;
+  startTime: number; // timestamp at the start gate
+  duration: number; // seconds
+  distance: number; // metres actually ridden between the gates
+  avgSpeed: number; // m/s
+  vam: number; // metres climbed per hour
+}
+
+// Result of racing a previous ride, measured at the furthest point reached on its route
+export interface GhostComparison {
+  ghostRideId: string;
+  ghostName: string;
+  distance: number; // metres along the ghost's route
+  riderTime: number; // seconds of moving time to get there this time
+  ghostTime: number; // seconds of moving time the ghost took to get there
+  maxLead: number; // seconds; the most the rider was ahead
+  maxDeficit: number; // seconds; the most the rider was behind
+}
+
+export interface SavedRide {
+  id: string;
+  name: string;
+  source?: RideSource; // absent on rides saved before imports existed
+  createdAt: number;
+  updatedAt: number;
+  route: RoutePoint[];
+  stats: RideStats;
+  aiInsight: AIInsight | null;
+  nearbyStops: NearbyStops | null;
+  ghostComparison?: GhostComparison | null;
+  coachChat?: ChatMessage[]; // absent until the rider first asks the coach something
+}
+
 export type GPSStatus = 'inactive' | 'searching' | 'active' | 'error' | 'denied';
+
+export type PauseState = 'running' | 'paused' | 'autoPaused';
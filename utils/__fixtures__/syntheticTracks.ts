@@ -0,0 +1,84 @@
+
+import { RoutePoint } from "../../types";
+
+// Deterministic GPS-like tracks for the tests: a rider heading due east at a
+// steady speed, or standing still, with seeded noise on top.
+
+const START = Date.parse("2024-05-04T07:30:00Z");
+const ORIGIN = { latitude: 52.37, longitude: 4.895 };
+const METRES_PER_DEGREE_LAT = 111_320;
+const METRES_PER_DEGREE_LON = METRES_PER_DEGREE_LAT * Math.cos((ORIGIN.latitude * Math.PI) / 180);
+
+// mulberry32; small, fast and good enough for jitter
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Standard normal via Box–Muller
+const gaussian = (random: () => number) =>
+  Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+
+export interface SyntheticTrackOptions {
+  seconds: number;
+  speed?: number; // m/s, due east
+  interval?: number; // seconds between fixes
+  jitter?: number; // metres, standard deviation of the position noise
+  drift?: number; // metres per fix; the slow random wander of a fix at rest
+  speedJitter?: number; // m/s, standard deviation of the reported speed noise
+  accuracy?: number; // metres, as the fixes report it
+  altitude?: (seconds: number) => number | null;
+  seed?: number;
+  startTime?: number;
+  startOffset?: number; // metres east of the origin
+}
+
+const offsetPoint = (east: number, north: number) => ({
+  latitude: ORIGIN.latitude + north / METRES_PER_DEGREE_LAT,
+  longitude: ORIGIN.longitude + east / METRES_PER_DEGREE_LON,
+});
+
+export const syntheticTrack = ({
+  seconds,
+  speed = 0,
+  interval = 1,
+  jitter = 0,
+  drift = 0,
+  speedJitter = 0,
+  accuracy = 5,
+  altitude = () => 10,
+  seed = 1,
+  startTime = START,
+  startOffset = 0,
+}: SyntheticTrackOptions): RoutePoint[] => {
+  const random = createRandom(seed);
+  const points: RoutePoint[] = [];
+  let driftEast = 0;
+  let driftNorth = 0;
+  for (let t = 0; t <= seconds; t += interval) {
+    driftEast += gaussian(random) * drift;
+    driftNorth += gaussian(random) * drift;
+    const east = startOffset + speed * t + driftEast + gaussian(random) * jitter;
+    const north = driftNorth + gaussian(random) * jitter;
+    points.push({
+      ...offsetPoint(east, north),
+      timestamp: startTime + t * 1000,
+      speed: Math.max(speed + gaussian(random) * speedJitter, 0),
+      altitude: altitude(t),
+      accuracy,
+    });
+  }
+  return points;
+};
+
+// Moves every `every`-th fix `metres` north; what multipath near buildings looks like
+export const withOutliers = (track: RoutePoint[], every: number, metres: number): RoutePoint[] =>
+  track.map((p, i) =>
+    i > 0 && i % every === 0 ? { ...p, latitude: p.latitude + metres / METRES_PER_DEGREE_LAT } : p
+  );
@@ -0,0 +1,118 @@
+
+import { describe, expect, it } from "vitest";
+import { RideStats, RoutePoint } from "../types";
+import { DEFAULT_AUTO_PAUSE, detectMovement, detectStop } from "./autoPause";
+import { DEFAULT_RIDER_PROFILE } from "./power";
+import { createRideSession, summarizeTrack } from "./rideSession";
+import { DEFAULT_TRACK_FILTER } from "./trackFilter";
+import { syntheticTrack } from "./__fixtures__/syntheticTracks";
+
+const config = { autoPause: DEFAULT_AUTO_PAUSE, trackFilter: DEFAULT_TRACK_FILTER, profile: DEFAULT_RIDER_PROFILE };
+
+// Standing at the lights: the fix wanders off slowly, jumps around a little
+// and the reported speed reads a few tenths of a m/s
+const standing = (seconds: number, startTime?: number, startOffset?: number) =>
+  syntheticTrack({ seconds, drift: 0.3, jitter: 1, speedJitter: 0.2, startTime, startOffset, seed: 7 });
+
+describe("detectStop", () => {
+  it("detects a stop despite GPS drift", () => {
+    const track = standing(30);
+    expect(detectStop(track, DEFAULT_AUTO_PAUSE, track[track.length - 1].timestamp)).toBe(true);
+  });
+
+  it("doesn't stop a slow climb", () => {
+    const track = syntheticTrack({ seconds: 30, speed: 1.2, jitter: 1, speedJitter: 0.1 });
+    expect(detectStop(track, DEFAULT_AUTO_PAUSE, track[track.length - 1].timestamp)).toBe(false);
+  });
+
+  it("doesn't stop on low reported speed while the position keeps moving", () => {
+    // Some browsers report speed 0 throughout
+    const track = syntheticTrack({ seconds: 30, speed: 6 }).map((p) => ({ ...p, speed: 0 }));
+    expect(detectStop(track, DEFAULT_AUTO_PAUSE, track[track.length - 1].timestamp)).toBe(false);
+  });
+
+  it("waits for the full delay before stopping", () => {
+    const riding = syntheticTrack({ seconds: 30, speed: 6 });
+    const end = riding[riding.length - 1];
+    const stopped = standing(3, end.timestamp + 1000, 180).slice(0, 3);
+    const track = [...riding, ...stopped];
+    expect(detectStop(track, DEFAULT_AUTO_PAUSE, track[track.length - 1].timestamp)).toBe(false);
+  });
+
+  it("keeps its answer when there are too few fixes to judge", () => {
+    const track = standing(30);
+    const now = track[track.length - 1].timestamp + 60_000;
+    expect(detectStop(track, DEFAULT_AUTO_PAUSE, now)).toBe(false);
+  });
+});
+
+// Auto-pause only engages after stopDelay seconds of fixes, so movement is
+// never judged on a shorter history than that
+const movingFixes = (track: RoutePoint[]) =>
+  track.filter((_, i) => i >= DEFAULT_AUTO_PAUSE.stopDelay && detectMovement(track.slice(0, i + 1), DEFAULT_AUTO_PAUSE));
+
+describe("detectMovement", () => {
+  // Raw fixes; the recorder smooths them first, which helps further
+  it("rarely mistakes drift for riding while the reported speed stays low", () => {
+    expect(movingFixes(standing(300)).length).toBeLessThan(300 * 0.02);
+  });
+
+  it("rarely mistakes drift for riding when the browser reports no speed at all", () => {
+    const track = standing(300).map((p) => ({ ...p, speed: 0 }));
+    expect(movingFixes(track).length).toBeLessThan(300 * 0.02);
+  });
+
+  it("resumes as soon as the rider sets off", () => {
+    const stop = standing(20);
+    const ride = syntheticTrack({ seconds: 5, speed: 4, startTime: stop[stop.length - 1].timestamp + 1000, startOffset: 4 });
+    expect(detectMovement([...stop, ride[0]], DEFAULT_AUTO_PAUSE)).toBe(true);
+  });
+
+  it("resumes within a couple of seconds when the browser reports no speed", () => {
+    const stop = standing(20).map((p) => ({ ...p, speed: 0 }));
+    const ride = syntheticTrack({ seconds: 5, speed: 4, startTime: stop[stop.length - 1].timestamp + 1000, startOffset: 4 })
+      .map((p) => ({ ...p, speed: 0 }));
+    expect(detectMovement([...stop, ...ride.slice(0, 2)], DEFAULT_AUTO_PAUSE)).toBe(true);
+  });
+});
+
+describe("auto-pause in a recorded ride", () => {
+  const rideThenStop = (speed: (p: RoutePoint) => number) => {
+    const ride = syntheticTrack({ seconds: 300, speed: 8, jitter: 2 });
+    const end = ride[ride.length - 1];
+    const stop = standing(300, end.timestamp + 1000, 2400).map((p) => ({ ...p, speed: speed(p) }));
+    return { ride, stop };
+  };
+
+  it.each([
+    ["a low reported speed", (p: RoutePoint) => p.speed],
+    ["no reported speed", () => 0],
+  ])("adds nothing once paused while standing with %s", (_, speed) => {
+    const { ride, stop } = rideThenStop(speed);
+    const riding = summarizeTrack(ride, config).stats;
+    const session = createRideSession(config, ride[0].timestamp);
+    let pausedAt: RideStats | null = null;
+    [...ride, ...stop].forEach((p) => {
+      session.tick(p.timestamp);
+      session.addFix(p);
+      const snapshot = session.getSnapshot();
+      if (!pausedAt && snapshot.pauseState === "autoPaused") pausedAt = snapshot.stats;
+    });
+    const { stats, pauseState } = session.getSnapshot();
+
+    expect(pauseState).toBe("autoPaused");
+    expect(pausedAt).not.toBeNull();
+    // stopDelay, plus a few fixes while the smoothed track comes to rest
+    expect(pausedAt!.movingTime - riding.movingTime).toBeLessThanOrEqual(DEFAULT_AUTO_PAUSE.stopDelay + 3);
+    expect(pausedAt!.totalDistance - riding.totalDistance).toBeLessThan(20);
+    // Drift after the pause engages adds nothing at all
+    expect(stats.totalDistance).toBe(pausedAt!.totalDistance);
+    expect(stats.movingTime).toBe(pausedAt!.movingTime);
+    expect(stats.duration - riding.duration).toBeGreaterThanOrEqual(300);
+  });
+
+  it("counts all of it with auto-pause off", () => {
+    const { stats } = summarizeTrack(standing(300), { ...config, autoPause: { ...DEFAULT_AUTO_PAUSE, enabled: false } });
+    expect(stats.movingTime).toBe(300);
+  });
+});
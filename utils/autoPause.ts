@@ -0,0 +1,58 @@
+
+import { RoutePoint } from "../types";
+import { calculateDistance } from "./geo";
+
+export interface AutoPauseSettings {
+  enabled: boolean;
+  speedThreshold: number; // m/s; below this the rider counts as stopped
+  stopDelay: number; // seconds below the threshold before pausing
+}
+
+export const DEFAULT_AUTO_PAUSE: AutoPauseSettings = {
+  enabled: true,
+  speedThreshold: 0.8, // ~3 km/h, walking pace
+  stopDelay: 5,
+};
+
+// Reported speed alone is unreliable at a standstill (GPS jitter reads as a
+// few km/h), so a stop also requires the net displacement over the window to
+// stay under what the threshold speed would cover.
+export const detectStop = (route: RoutePoint[], settings: AutoPauseSettings, now: number): boolean => {
+  const windowStart = now - settings.stopDelay * 1000;
+  let firstInWindow = route.length;
+  while (firstInWindow > 0 && route[firstInWindow - 1].timestamp >= windowStart) firstInWindow--;
+
+  const window = route.slice(firstInWindow);
+  // Not enough fixes yet, or GPS went quiet: let the caller keep its current state
+  if (window.length < 2) return false;
+
+  // The last fix before the window tells us where the rider was stopDelay seconds ago
+  const anchor = route[firstInWindow - 1] ?? window[0];
+  const last = window[window.length - 1];
+  const elapsed = Math.max((last.timestamp - anchor.timestamp) / 1000, settings.stopDelay);
+  const displacement = calculateDistance(anchor, last);
+
+  return window.every((p) => p.speed < settings.speedThreshold) &&
+    displacement < settings.speedThreshold * elapsed;
+};
+
+export const detectMovement = (route: RoutePoint[], settings: AutoPauseSettings): boolean => {
+  if (route.length < 2) return false;
+  const last = route[route.length - 1];
+  const prev = route[route.length - 2];
+  if (last.speed > 0) {
+    const dt = (last.timestamp - prev.timestamp) / 1000;
+    const impliedSpeed = dt > 0 ? calculateDistance(prev, last) / dt : 0;
+    return last.speed >= settings.speedThreshold && impliedSpeed >= settings.speedThreshold / 2;
+  }
+
+  // Some browsers never report coords.speed, and most report 0 at a standstill,
+  // so fall back to the speed implied over the stop window. Between two fixes
+  // a metre of jitter already reads as walking pace; over a few seconds it
+  // mostly cancels out, while riding off adds up.
+  const windowStart = last.timestamp - settings.stopDelay * 1000;
+  let anchor = route.length - 2;
+  while (anchor > 0 && route[anchor].timestamp > windowStart) anchor--;
+  const elapsed = (last.timestamp - route[anchor].timestamp) / 1000;
+  return elapsed > 0 && calculateDistance(route[anchor], last) / elapsed >= settings.speedThreshold;
+};
@@ -0,0 +1,202 @@
+
+import { RoutePoint } from "../types";
+import { cumulativeDistances } from "./geo";
+
+export interface Climb {
+  start: number; // metres along the course
+  end: number;
+  gain: number; // metres
+  grade: number; // average %, gain over length
+}
+
+export interface CourseTrack {
+  name: string;
+  route: RoutePoint[];
+  distances: number[]; // cumulative metres per point
+  length: number; // metres
+  climbs: Climb[];
+}
+
+export interface CourseProgress {
+  distanceAlong: number; // metres from the course start to the snapped position
+  remaining: number; // metres to the finish
+  offset: number; // metres between the rider and the course
+  offCourse: boolean;
+  nextClimb: (Climb & { distanceTo: number }) | null; // 0 distanceTo while on the climb
+}
+
+// A rise counts as a climb when it gains this much at this average grade
+const MIN_CLIMB_GAIN = 20; // metres
+const MIN_CLIMB_GRADE = 2.5; // %
+// Dropping this far below the top ends the climb, so a short dip doesn't split one
+const CLIMB_DROP_TOLERANCE = 10; // metres
+// The climb starts at the last point this close to the bottom, not at the far
+// end of whatever flat led up to it
+const CLIMB_BASE_TOLERANCE = 2; // metres
+
+// Scans the profile from valley to peak with a little hysteresis
+export const detectClimbs = (route: RoutePoint[], distances: number[]): Climb[] => {
+  const climbs: Climb[] = [];
+  let low: { index: number; altitude: number } | null = null;
+  let high: { index: number; altitude: number } | null = null;
+
+  const close = () => {
+    if (!low || !high) return;
+    let base = high.index;
+    while (base > low.index) {
+      const altitude = route[base].altitude;
+      if (altitude !== null && altitude <= low.altitude + CLIMB_BASE_TOLERANCE) break;
+      base--;
+    }
+    const gain = high.altitude - low.altitude;
+    const length = distances[high.index] - distances[base];
+    if (length > 0 && gain >= MIN_CLIMB_GAIN && (gain / length) * 100 >= MIN_CLIMB_GRADE) {
+      climbs.push({ start: distances[base], end: distances[high.index], gain, grade: (gain / length) * 100 });
+    }
+  };
+
+  route.forEach((p, i) => {
+    if (p.altitude === null) return;
+    const here = { index: i, altitude: p.altitude };
+    if (!low) {
+      low = here;
+    } else if (high && high.altitude - here.altitude >= CLIMB_DROP_TOLERANCE) {
+      close();
+      low = here;
+      high = null;
+    } else if (!high && here.altitude < low.altitude) {
+      low = here;
+    } else if (here.altitude > (high ?? low).altitude) {
+      high = here;
+    }
+  });
+  close();
+  return climbs;
+};
+
+export const prepareCourse = (name: string, route: RoutePoint[]): CourseTrack => {
+  // A course is one continuous line; gaps in a recorded ride are joined up
+  const joined = route.map((p) => (p.segmentStart ? { ...p, segmentStart: false } : p));
+  const distances = cumulativeDistances(joined);
+  return {
+    name,
+    route: joined,
+    distances,
+    length: distances[distances.length - 1] ?? 0,
+    climbs: detectClimbs(joined, distances),
+  };
+};
+
+interface CourseMatch {
+  index: number; // start of the matched course segment
+  distanceAlong: number;
+  offset: number;
+}
+
+const EARTH_RADIUS = 6371e3;
+
+// Nearest point on course segments [from, to), using a flat projection around
+// the rider; plenty accurate at the scale of a GPS fix.
+const matchSegments = (course: CourseTrack, point: RoutePoint, from: number, to: number): CourseMatch | null => {
+  const lat0 = (point.latitude * Math.PI) / 180;
+  const toLocal = (p: RoutePoint) => ({
+    x: (((p.longitude - point.longitude) * Math.PI) / 180) * Math.cos(lat0) * EARTH_RADIUS,
+    y: (((p.latitude - point.latitude) * Math.PI) / 180) * EARTH_RADIUS,
+  });
+
+  let best: CourseMatch | null = null;
+  for (let i = from; i < to; i++) {
+    const a = toLocal(course.route[i]);
+    const b = toLocal(course.route[i + 1]);
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq > 0 ? Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSq)) : 0;
+    const offset = Math.hypot(a.x + t * dx, a.y + t * dy);
+    if (!best || offset < best.offset) {
+      const segmentLength = course.distances[i + 1] - course.distances[i];
+      best = { index: i, distanceAlong: course.distances[i] + t * segmentLength, offset };
+    }
+  }
+  return best;
+};
+
+// First index whose cumulative distance is at least `target`
+export const indexAtDistance = (distances: number[], target: number): number => {
+  let lo = 0;
+  let hi = distances.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (distances[mid] < target) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+};
+
+// Course points from `from` metres to the finish, at most `maxPoints` of them.
+// Spacing depends only on the course length, so searches a little further
+// along pick the same points and can share cached results.
+export const courseAhead = (course: CourseTrack, from: number, maxPoints: number): RoutePoint[] => {
+  const spacing = course.length / Math.max(maxPoints - 1, 1);
+  const points: RoutePoint[] = [];
+  for (let along = Math.ceil(from / spacing) * spacing; along <= course.length && points.length < maxPoints; along += spacing) {
+    points.push(course.route[indexAtDistance(course.distances, along)]);
+  }
+  return points;
+};
+
+// How far back and ahead of the last match to look first. Searching near the
+// previous position keeps out-and-back courses and loops from snapping to the
+// wrong leg; the whole course is only searched when that fails.
+const SEARCH_BEHIND = 200; // metres
+const SEARCH_AHEAD = 2000; // metres
+
+export interface CourseTracker {
+  update: (point: RoutePoint) => CourseProgress | null;
+  reset: () => void;
+}
+
+export const createCourseTracker = (course: CourseTrack, offCourseDistance: number): CourseTracker => {
+  let last: CourseMatch | null = null;
+  let offCourse = false;
+
+  const reset = () => {
+    last = null;
+    offCourse = false;
+  };
+
+  const update = (point: RoutePoint): CourseProgress | null => {
+    const segmentCount = course.route.length - 1;
+    if (segmentCount < 1) return null;
+
+    let match = last
+      ? matchSegments(
+        course,
+        point,
+        Math.max(indexAtDistance(course.distances, last.distanceAlong - SEARCH_BEHIND) - 1, 0),
+        Math.min(indexAtDistance(course.distances, last.distanceAlong + SEARCH_AHEAD), segmentCount),
+      )
+      : null;
+    if (!match || match.offset > offCourseDistance) {
+      const anywhere = matchSegments(course, point, 0, segmentCount);
+      if (anywhere && (!match || anywhere.offset < match.offset)) match = anywhere;
+    }
+    if (!match) return null;
+    last = match;
+
+    // Hysteresis so a rider right on the limit doesn't flicker in and out
+    offCourse = offCourse ? match.offset > offCourseDistance * 0.8 : match.offset > offCourseDistance;
+
+    const along = match.distanceAlong;
+    const climb = course.climbs.find((c) => c.end > along);
+    return {
+      distanceAlong: along,
+      remaining: Math.max(course.length - along, 0),
+      offset: match.offset,
+      offCourse,
+      nextClimb: climb ? { ...climb, distanceTo: Math.max(climb.start - along, 0) } : null,
+    };
+  };
+
+  return { update, reset };
+};
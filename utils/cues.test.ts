@@ -0,0 +1,42 @@
+
+import { describe, expect, it } from "vitest";
+import { CueInput, DEFAULT_CUES, createCueTracker } from "./cues";
+import { DEFAULT_DISPLAY } from "./format";
+
+const riding = (distance: number, seconds: number): CueInput => ({
+  distance,
+  duration: seconds,
+  movingTime: seconds,
+  speed: distance / Math.max(seconds, 1),
+  gpsStatus: "active",
+  pauseState: "running",
+});
+
+const config = { settings: DEFAULT_CUES, splitDistance: 1000, display: DEFAULT_DISPLAY };
+
+describe("createCueTracker", () => {
+  it("announces each kilometre with its time and speed", () => {
+    const tracker = createCueTracker(config);
+    tracker.update(riding(0, 0));
+    expect(tracker.update(riding(999, 150))).toEqual([]);
+    const [cue] = tracker.update(riding(1001, 150));
+    expect(cue.kind).toBe("split");
+    expect(cue.text).toBe("Kilometre 1. 2 minutes 30 seconds, 24.0 kilometres per hour.");
+  });
+
+  // The sentences are English, so the numbers in them must be too
+  it.each(["de", "fr"])("keeps a ride in %s entirely in English", (language) => {
+    const tracker = createCueTracker({ ...config, display: { ...DEFAULT_DISPLAY, language } });
+    tracker.update(riding(0, 0));
+    const time = tracker.update(riding(4500, 600)).find((cue) => cue.kind === "time");
+    expect(time?.text).toBe("10 minutes. 4.5 kilometres, average 27.0 kilometres per hour.");
+  });
+
+  it("stays in English when the language changes mid-ride", () => {
+    const tracker = createCueTracker(config);
+    tracker.update(riding(0, 0));
+    tracker.updateConfig({ ...config, display: { ...DEFAULT_DISPLAY, language: "fr" } });
+    const [cue] = tracker.update(riding(1000, 200));
+    expect(cue.text).toBe("Kilometre 1. 3 minutes 20 seconds, 18.0 kilometres per hour.");
+  });
+});
@@ -0,0 +1,225 @@
+
+import { GPSStatus, PauseState } from "../types";
+import { DisplaySettings, createFormatter } from "./format";
+
+// Decides what to announce during a ride. App feeds it the live numbers after
+// every fix and clock tick; services/audioCues.ts speaks and vibrates the cues.
+
+// The cue sentences are only written in English so far, so the voice and the
+// numbers stay English too rather than mixing languages in one sentence
+export const CUE_LANGUAGE = "en";
+
+export type CueKind = "split" | "time" | "gps" | "speed" | "autoPause";
+
+export interface CueSettings {
+  enabled: boolean;
+  quiet: boolean; // vibrate only
+  events: Record<CueKind, boolean>;
+  timeInterval: number; // minutes of elapsed time between time cues
+  minSpeed: number; // m/s; 0 = no lower target
+  maxSpeed: number; // m/s; 0 = no upper target
+}
+
+export const DEFAULT_CUES: CueSettings = {
+  enabled: false,
+  quiet: false,
+  events: { split: true, time: true, gps: true, speed: true, autoPause: true },
+  timeInterval: 10,
+  minSpeed: 0,
+  maxSpeed: 0,
+};
+
+export interface Cue {
+  kind: CueKind;
+  text: string;
+  vibration: number[]; // ms on, off, on...
+}
+
+export interface CueInput {
+  distance: number; // metres
+  duration: number; // elapsed seconds
+  movingTime: number; // seconds
+  speed: number; // m/s, latest fix
+  gpsStatus: GPSStatus;
+  pauseState: PauseState;
+}
+
+export interface CueConfig {
+  settings: CueSettings;
+  splitDistance: number; // metres, from the split unit
+  display: DisplaySettings;
+}
+
+export interface CueTracker {
+  update: (input: CueInput) => Cue[];
+  reset: () => void;
+  updateConfig: (config: CueConfig) => void;
+}
+
+// A speed has to hold this long before it counts, so one fast or slow fix stays quiet
+const SPEED_HOLD = 10; // seconds
+
+const VIBRATIONS: Record<string, number[]> = {
+  split: [200],
+  time: [100, 100, 100],
+  gpsLost: [500, 200, 500],
+  gpsBack: [200],
+  fast: [100, 50, 100, 50, 100],
+  slow: [400, 100, 400],
+  onTarget: [100],
+  paused: [300],
+  resumed: [100, 100, 100],
+};
+
+type SpeedBand = "below" | "within" | "above";
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? "" : "s"}`;
+
+// "1 hour 5 minutes"; seconds only under ten minutes, where they matter
+export const spokenDuration = (seconds: number): string => {
+  const total = Math.round(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const parts = [h > 0 && plural(h, "hour"), m > 0 && plural(m, "minute"), total < 600 && s > 0 && plural(s, "second")];
+  return parts.filter(Boolean).join(" ") || "0 seconds";
+};
+
+export const createCueTracker = (initialConfig: CueConfig): CueTracker => {
+  let config = initialConfig;
+  let started = false;
+  let format = createFormatter({ ...config.display, language: CUE_LANGUAGE });
+  let lastSplit = 0;
+  let splitStartedAt = 0; // moving time at the last split
+  let lastInterval = 0;
+  let hadLock = false;
+  let lockLost = false;
+  let lastPause: PauseState = "running";
+  let band: SpeedBand = "within";
+  let pending: { band: SpeedBand; since: number } | null = null;
+
+  const reset = () => {
+    started = false;
+    lastSplit = 0;
+    splitStartedAt = 0;
+    lastInterval = 0;
+    hadLock = false;
+    lockLost = false;
+    lastPause = "running";
+    band = "within";
+    pending = null;
+  };
+
+  const imperial = () => config.display.units === "imperial";
+  const distanceWords = () => (imperial() ? "miles" : "kilometres");
+
+  const spokenSpeed = (speed: number) => {
+    if (config.display.speedDisplay === "pace" && speed > 0) {
+      const unitDistance = imperial() ? 1609.344 : 1000;
+      return `pace ${spokenDuration(unitDistance / speed)} per ${imperial() ? "mile" : "kilometre"}`;
+    }
+    return `${format.number(format.speedValue(speed), 1)} ${imperial() ? "miles" : "kilometres"} per hour`;
+  };
+
+  const speedBand = (speed: number): SpeedBand => {
+    const { minSpeed, maxSpeed } = config.settings;
+    if (minSpeed > 0 && speed < minSpeed) return "below";
+    if (maxSpeed > 0 && speed > maxSpeed) return "above";
+    return "within";
+  };
+
+  const update = (input: CueInput): Cue[] => {
+    const { settings, splitDistance } = config;
+    const { events } = settings;
+    const cues: Cue[] = [];
+
+    // Counters advance even with an event switched off, so turning it on
+    // mid-ride doesn't announce everything missed
+    const split = splitDistance > 0 ? Math.floor(input.distance / splitDistance) : 0;
+    const interval = settings.timeInterval > 0 ? Math.floor(input.duration / (settings.timeInterval * 60)) : 0;
+    // A resumed ride starts counting from where it already is
+    if (!started) {
+      started = true;
+      lastSplit = split;
+      splitStartedAt = input.movingTime;
+      lastInterval = interval;
+    }
+
+    if (split > lastSplit) {
+      const splitTime = input.movingTime - splitStartedAt;
+      if (events.split && splitTime > 0) {
+        const unit = splitDistance === 1000 ? "Kilometre" : "Mile";
+        cues.push({
+          kind: "split",
+          text: `${unit} ${split}. ${spokenDuration(splitTime)}, ${spokenSpeed(((split - lastSplit) * splitDistance) / splitTime)}.`,
+          vibration: VIBRATIONS.split,
+        });
+      }
+      lastSplit = split;
+      splitStartedAt = input.movingTime;
+    }
+
+    if (interval > lastInterval) {
+      if (events.time) {
+        const avgSpeed = input.movingTime > 0 ? input.distance / input.movingTime : 0;
+        cues.push({
+          kind: "time",
+          text: `${spokenDuration(interval * settings.timeInterval * 60)}. ${format.number(format.distanceValue(input.distance), 1)} ${distanceWords()}, average ${spokenSpeed(avgSpeed)}.`,
+          vibration: VIBRATIONS.time,
+        });
+      }
+      lastInterval = interval;
+    }
+
+    // Only a lock that was there and went away is news; the first search isn't
+    if (input.gpsStatus === "active") {
+      if (lockLost && events.gps) cues.push({ kind: "gps", text: "GPS signal back.", vibration: VIBRATIONS.gpsBack });
+      hadLock = true;
+      lockLost = false;
+    } else if (hadLock && !lockLost && (input.gpsStatus === "searching" || input.gpsStatus === "error")) {
+      lockLost = true;
+      if (events.gps) cues.push({ kind: "gps", text: "GPS signal lost.", vibration: VIBRATIONS.gpsLost });
+    }
+
+    // Manual pauses are the rider's own doing and go unannounced
+    if (input.pauseState !== lastPause) {
+      if (events.autoPause && input.pauseState === "autoPaused") {
+        cues.push({ kind: "autoPause", text: "Auto-paused.", vibration: VIBRATIONS.paused });
+      } else if (events.autoPause && lastPause === "autoPaused" && input.pauseState === "running") {
+        cues.push({ kind: "autoPause", text: "Resuming.", vibration: VIBRATIONS.resumed });
+      }
+      lastPause = input.pauseState;
+    }
+
+    // Stopped or without a fix the speed means nothing; start over when riding again
+    if (input.pauseState !== "running" || input.gpsStatus !== "active") {
+      pending = null;
+    } else {
+      const current = speedBand(input.speed);
+      if (current === band) {
+        pending = null;
+      } else if (!pending || pending.band !== current) {
+        pending = { band: current, since: input.duration };
+      } else if (input.duration - pending.since >= SPEED_HOLD) {
+        if (events.speed) {
+          const text =
+            current === "above" ? `Above target. ${spokenSpeed(input.speed)}.` :
+            current === "below" ? `Below target. ${spokenSpeed(input.speed)}.` : "Back on target.";
+          const vibration = current === "above" ? VIBRATIONS.fast : current === "below" ? VIBRATIONS.slow : VIBRATIONS.onTarget;
+          cues.push({ kind: "speed", text, vibration });
+        }
+        band = current;
+        pending = null;
+      }
+    }
+
+    return cues;
+  };
+
+  const updateConfig = (next: CueConfig) => {
+    config = next;
+    format = createFormatter({ ...next.display, language: CUE_LANGUAGE });
+  };
+
+  return { update, reset, updateConfig };
+};
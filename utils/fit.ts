@@ -0,0 +1,504 @@
+
+import { RideStats, RoutePoint } from "../types";
+import { cumulativeDistances } from "./geo";
+import { computeLaps } from "./splits";
+import { DEFAULT_TRACK_FILTER } from "./trackFilter";
+
+// Minimal FIT (Flexible and Interoperable Data Transfer) activity codec.
+// Only the messages Strava and Garmin Connect need to accept a ride are written:
+// file_id, event, record, lap, session and activity. Recording gaps become
+// timer stop/start events and each lap press a lap message. Decoding walks any
+// FIT file but only extracts `record` messages into route points, flagged from
+// those timer events and laps.
+
+export const FIT_EPOCH_OFFSET = 631065600; // seconds from Unix epoch to 1989-12-31T00:00:00Z
+export const SEMICIRCLES_PER_DEGREE = 2 ** 31 / 180;
+
+const PROTOCOL_VERSION = 0x20; // 2.0
+const PROFILE_VERSION = 2132; // 21.32
+const HEADER_SIZE = 14;
+
+export const MESG_NUM = {
+  fileId: 0,
+  session: 18,
+  lap: 19,
+  record: 20,
+  event: 21,
+  activity: 34,
+} as const;
+
+interface BaseType {
+  id: number;
+  size: number;
+  invalid: number;
+}
+
+const BASE_TYPES = {
+  enum: { id: 0x00, size: 1, invalid: 0xff },
+  uint8: { id: 0x02, size: 1, invalid: 0xff },
+  uint16: { id: 0x84, size: 2, invalid: 0xffff },
+  sint32: { id: 0x85, size: 4, invalid: 0x7fffffff },
+  uint32: { id: 0x86, size: 4, invalid: 0xffffffff },
+  uint32z: { id: 0x8c, size: 4, invalid: 0 },
+} satisfies Record<string, BaseType>;
+
+interface FieldDef {
+  num: number;
+  type: BaseType;
+}
+
+interface MessageDef {
+  local: number;
+  global: number;
+  fields: FieldDef[];
+}
+
+const CRC_TABLE = [
+  0x0000, 0xcc01, 0xd801, 0x1400, 0xf001, 0x3c00, 0x2800, 0xe401,
+  0xa001, 0x6c00, 0x7800, 0xb401, 0x5000, 0x9c01, 0x8801, 0x4400,
+];
+
+export const fitCrc = (bytes: Uint8Array, start = 0, end = bytes.length): number => {
+  let crc = 0;
+  for (let i = start; i < end; i++) {
+    const byte = bytes[i];
+    let tmp = CRC_TABLE[crc & 0xf];
+    crc = (crc >> 4) & 0x0fff;
+    crc = crc ^ tmp ^ CRC_TABLE[byte & 0xf];
+    tmp = CRC_TABLE[crc & 0xf];
+    crc = (crc >> 4) & 0x0fff;
+    crc = crc ^ tmp ^ CRC_TABLE[(byte >> 4) & 0xf];
+  }
+  return crc;
+};
+
+export const toFitTimestamp = (unixMs: number): number => Math.round(unixMs / 1000) - FIT_EPOCH_OFFSET;
+
+const toSemicircles = (degrees: number): number => Math.round(degrees * SEMICIRCLES_PER_DEGREE);
+
+const clampUint = (value: number, type: BaseType): number =>
+  Math.min(Math.max(Math.round(value), 0), type.invalid - 1);
+
+const FILE_ID: MessageDef = {
+  local: 0,
+  global: MESG_NUM.fileId,
+  fields: [
+    { num: 0, type: BASE_TYPES.enum }, // type
+    { num: 1, type: BASE_TYPES.uint16 }, // manufacturer
+    { num: 2, type: BASE_TYPES.uint16 }, // product
+    { num: 3, type: BASE_TYPES.uint32z }, // serial_number
+    { num: 4, type: BASE_TYPES.uint32 }, // time_created
+  ],
+};
+
+const EVENT: MessageDef = {
+  local: 1,
+  global: MESG_NUM.event,
+  fields: [
+    { num: 253, type: BASE_TYPES.uint32 }, // timestamp
+    { num: 0, type: BASE_TYPES.enum }, // event
+    { num: 1, type: BASE_TYPES.enum }, // event_type
+  ],
+};
+
+const RECORD: MessageDef = {
+  local: 2,
+  global: MESG_NUM.record,
+  fields: [
+    { num: 253, type: BASE_TYPES.uint32 }, // timestamp
+    { num: 0, type: BASE_TYPES.sint32 }, // position_lat (semicircles)
+    { num: 1, type: BASE_TYPES.sint32 }, // position_long (semicircles)
+    { num: 2, type: BASE_TYPES.uint16 }, // altitude (scale 5, offset 500)
+    { num: 5, type: BASE_TYPES.uint32 }, // distance (scale 100)
+    { num: 6, type: BASE_TYPES.uint16 }, // speed (scale 1000)
+  ],
+};
+
+const LAP: MessageDef = {
+  local: 3,
+  global: MESG_NUM.lap,
+  fields: [
+    { num: 253, type: BASE_TYPES.uint32 }, // timestamp
+    { num: 0, type: BASE_TYPES.enum }, // event
+    { num: 1, type: BASE_TYPES.enum }, // event_type
+    { num: 2, type: BASE_TYPES.uint32 }, // start_time
+    { num: 7, type: BASE_TYPES.uint32 }, // total_elapsed_time (scale 1000)
+    { num: 8, type: BASE_TYPES.uint32 }, // total_timer_time (scale 1000)
+    { num: 9, type: BASE_TYPES.uint32 }, // total_distance (scale 100)
+    { num: 13, type: BASE_TYPES.uint16 }, // avg_speed (scale 1000)
+    { num: 14, type: BASE_TYPES.uint16 }, // max_speed (scale 1000)
+    { num: 21, type: BASE_TYPES.uint16 }, // total_ascent
+    { num: 25, type: BASE_TYPES.enum }, // sport
+  ],
+};
+
+const SESSION: MessageDef = {
+  local: 4,
+  global: MESG_NUM.session,
+  fields: [
+    { num: 253, type: BASE_TYPES.uint32 }, // timestamp
+    { num: 0, type: BASE_TYPES.enum }, // event
+    { num: 1, type: BASE_TYPES.enum }, // event_type
+    { num: 2, type: BASE_TYPES.uint32 }, // start_time
+    { num: 5, type: BASE_TYPES.enum }, // sport
+    { num: 6, type: BASE_TYPES.enum }, // sub_sport
+    { num: 7, type: BASE_TYPES.uint32 }, // total_elapsed_time (scale 1000)
+    { num: 8, type: BASE_TYPES.uint32 }, // total_timer_time (scale 1000)
+    { num: 9, type: BASE_TYPES.uint32 }, // total_distance (scale 100)
+    { num: 14, type: BASE_TYPES.uint16 }, // avg_speed (scale 1000)
+    { num: 15, type: BASE_TYPES.uint16 }, // max_speed (scale 1000)
+    { num: 22, type: BASE_TYPES.uint16 }, // total_ascent
+    { num: 25, type: BASE_TYPES.uint16 }, // first_lap_index
+    { num: 26, type: BASE_TYPES.uint16 }, // num_laps
+  ],
+};
+
+const ACTIVITY: MessageDef = {
+  local: 5,
+  global: MESG_NUM.activity,
+  fields: [
+    { num: 253, type: BASE_TYPES.uint32 }, // timestamp
+    { num: 0, type: BASE_TYPES.uint32 }, // total_timer_time (scale 1000)
+    { num: 1, type: BASE_TYPES.uint16 }, // num_sessions
+    { num: 2, type: BASE_TYPES.enum }, // type
+    { num: 3, type: BASE_TYPES.enum }, // event
+    { num: 4, type: BASE_TYPES.enum }, // event_type
+  ],
+};
+
+const FILE_TYPE_ACTIVITY = 4;
+const MANUFACTURER_DEVELOPMENT = 255;
+const SPORT_CYCLING = 2;
+const SUB_SPORT_ROAD = 7;
+const EVENT_TIMER = 0;
+const EVENT_SESSION = 8;
+const EVENT_LAP = 9;
+const EVENT_ACTIVITY = 26;
+const EVENT_TYPE_START = 0;
+const EVENT_TYPE_STOP = 1;
+const EVENT_TYPE_STOP_ALL = 4;
+
+const createWriter = () => {
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+
+  const push = (chunk: Uint8Array) => {
+    chunks.push(chunk);
+    length += chunk.length;
+  };
+
+  const writeDefinition = (def: MessageDef) => {
+    const chunk = new Uint8Array(6 + def.fields.length * 3);
+    const view = new DataView(chunk.buffer);
+    view.setUint8(0, 0x40 | def.local); // definition message header
+    view.setUint8(1, 0); // reserved
+    view.setUint8(2, 0); // little-endian architecture
+    view.setUint16(3, def.global, true);
+    view.setUint8(5, def.fields.length);
+    def.fields.forEach((field, i) => {
+      view.setUint8(6 + i * 3, field.num);
+      view.setUint8(7 + i * 3, field.type.size);
+      view.setUint8(8 + i * 3, field.type.id);
+    });
+    push(chunk);
+  };
+
+  // `null` values are written as the base type's invalid marker
+  const writeData = (def: MessageDef, values: (number | null)[]) => {
+    const size = def.fields.reduce((sum, f) => sum + f.type.size, 1);
+    const chunk = new Uint8Array(size);
+    const view = new DataView(chunk.buffer);
+    view.setUint8(0, def.local);
+    let offset = 1;
+    def.fields.forEach((field, i) => {
+      const value = values[i] ?? field.type.invalid;
+      switch (field.type) {
+        case BASE_TYPES.sint32:
+          view.setInt32(offset, value, true);
+          break;
+        case BASE_TYPES.uint32:
+        case BASE_TYPES.uint32z:
+          view.setUint32(offset, value, true);
+          break;
+        case BASE_TYPES.uint16:
+          view.setUint16(offset, value, true);
+          break;
+        default:
+          view.setUint8(offset, value);
+      }
+      offset += field.type.size;
+    });
+    push(chunk);
+  };
+
+  const finish = (): Uint8Array => {
+    const out = new Uint8Array(HEADER_SIZE + length + 2);
+    const view = new DataView(out.buffer);
+    view.setUint8(0, HEADER_SIZE);
+    view.setUint8(1, PROTOCOL_VERSION);
+    view.setUint16(2, PROFILE_VERSION, true);
+    view.setUint32(4, length, true);
+    out.set([0x2e, 0x46, 0x49, 0x54], 8); // ".FIT"
+    view.setUint16(12, fitCrc(out, 0, 12), true);
+
+    let offset = HEADER_SIZE;
+    chunks.forEach((chunk) => {
+      out.set(chunk, offset);
+      offset += chunk.length;
+    });
+    view.setUint16(offset, fitCrc(out, 0, offset), true);
+    return out;
+  };
+
+  return { writeDefinition, writeData, finish };
+};
+
+export const encodeFitActivity = (route: RoutePoint[], stats: RideStats): Uint8Array => {
+  if (route.length === 0) throw new Error("Cannot export a ride without any points.");
+
+  const writer = createWriter();
+  const distances = cumulativeDistances(route);
+  const first = route[0];
+  const last = route[route.length - 1];
+  const startTime = toFitTimestamp(stats.startTime ?? first.timestamp);
+  const endTime = toFitTimestamp(last.timestamp);
+  const elapsedMs = Math.max(endTime - startTime, 0) * 1000;
+  const timerMs = stats.movingTime * 1000;
+  const totalDistance = distances[distances.length - 1];
+  const avgSpeed = stats.movingTime > 0 ? totalDistance / stats.movingTime : 0;
+
+  writer.writeDefinition(FILE_ID);
+  writer.writeData(FILE_ID, [FILE_TYPE_ACTIVITY, MANUFACTURER_DEVELOPMENT, 0, startTime, startTime]);
+
+  writer.writeDefinition(EVENT);
+  writer.writeData(EVENT, [startTime, EVENT_TIMER, EVENT_TYPE_START]);
+
+  const distanceCm = clampUint(totalDistance * 100, BASE_TYPES.uint32);
+  const avgSpeedMm = clampUint(avgSpeed * 1000, BASE_TYPES.uint16);
+  const maxSpeedMm = clampUint(stats.maxSpeed * 1000, BASE_TYPES.uint16);
+  const ascent = clampUint(stats.elevationGain, BASE_TYPES.uint16);
+
+  // Without lap presses the whole ride is one lap
+  const laps = computeLaps(route, DEFAULT_TRACK_FILTER.elevationThreshold);
+  const lapCount = Math.max(laps.length, 1);
+  const wholeRide = { duration: stats.movingTime, distance: totalDistance, avgSpeed, maxSpeed: stats.maxSpeed, elevationGain: stats.elevationGain };
+  let lapStart = startTime;
+  const writeLap = (lapEnd: number) => {
+    const lap = laps.shift() ?? wholeRide;
+    writer.writeData(LAP, [
+      lapEnd, EVENT_LAP, EVENT_TYPE_STOP, lapStart,
+      Math.max(lapEnd - lapStart, 0) * 1000,
+      clampUint(lap.duration * 1000, BASE_TYPES.uint32),
+      clampUint(lap.distance * 100, BASE_TYPES.uint32),
+      clampUint(lap.avgSpeed * 1000, BASE_TYPES.uint16),
+      clampUint(lap.maxSpeed * 1000, BASE_TYPES.uint16),
+      clampUint(lap.elevationGain, BASE_TYPES.uint16),
+      SPORT_CYCLING,
+    ]);
+    lapStart = lapEnd;
+  };
+
+  writer.writeDefinition(RECORD);
+  writer.writeDefinition(LAP);
+  route.forEach((p, i) => {
+    const time = toFitTimestamp(p.timestamp);
+    // The timer stops over a recording gap, as a device's does on pause
+    if (i > 0 && p.segmentStart) {
+      writer.writeData(EVENT, [toFitTimestamp(route[i - 1].timestamp), EVENT_TIMER, EVENT_TYPE_STOP_ALL]);
+      writer.writeData(EVENT, [time, EVENT_TIMER, EVENT_TYPE_START]);
+    }
+    writer.writeData(RECORD, [
+      time,
+      toSemicircles(p.latitude),
+      toSemicircles(p.longitude),
+      p.altitude === null ? null : clampUint((p.altitude + 500) * 5, BASE_TYPES.uint16),
+      clampUint(distances[i] * 100, BASE_TYPES.uint32),
+      clampUint(p.speed * 1000, BASE_TYPES.uint16),
+    ]);
+    if (p.lapEnd) writeLap(time);
+  });
+
+  writer.writeData(EVENT, [endTime, EVENT_TIMER, EVENT_TYPE_STOP_ALL]);
+  writeLap(endTime);
+
+  writer.writeDefinition(SESSION);
+  writer.writeData(SESSION, [
+    endTime, EVENT_SESSION, EVENT_TYPE_STOP, startTime, SPORT_CYCLING, SUB_SPORT_ROAD,
+    elapsedMs, timerMs, distanceCm, avgSpeedMm, maxSpeedMm, ascent, 0, lapCount,
+  ]);
+
+  writer.writeDefinition(ACTIVITY);
+  writer.writeData(ACTIVITY, [endTime, timerMs, 1, 0, EVENT_ACTIVITY, EVENT_TYPE_STOP]);
+
+  return writer.finish();
+};
+
+interface DecodedDefinition {
+  global: number;
+  littleEndian: boolean;
+  fields: { num: number; size: number; baseType: number }[];
+  devDataSize: number;
+}
+
+const COMPRESSED_HEADER = 0x80;
+const DEFINITION_HEADER = 0x40;
+const DEV_DATA_FLAG = 0x20;
+
+// Reads a single numeric value; arrays, strings and 64-bit types are skipped
+const readField = (view: DataView, offset: number, size: number, baseType: number, littleEndian: boolean): number | null => {
+  let value: number;
+  let invalid: number;
+  switch (baseType) {
+    case 0x00: case 0x02: case 0x0d:
+      if (size !== 1) return null;
+      value = view.getUint8(offset); invalid = 0xff; break;
+    case 0x01:
+      if (size !== 1) return null;
+      value = view.getInt8(offset); invalid = 0x7f; break;
+    case 0x0a:
+      if (size !== 1) return null;
+      value = view.getUint8(offset); invalid = 0; break;
+    case 0x83:
+      if (size !== 2) return null;
+      value = view.getInt16(offset, littleEndian); invalid = 0x7fff; break;
+    case 0x84:
+      if (size !== 2) return null;
+      value = view.getUint16(offset, littleEndian); invalid = 0xffff; break;
+    case 0x8b:
+      if (size !== 2) return null;
+      value = view.getUint16(offset, littleEndian); invalid = 0; break;
+    case 0x85:
+      if (size !== 4) return null;
+      value = view.getInt32(offset, littleEndian); invalid = 0x7fffffff; break;
+    case 0x86:
+      if (size !== 4) return null;
+      value = view.getUint32(offset, littleEndian); invalid = 0xffffffff; break;
+    case 0x8c:
+      if (size !== 4) return null;
+      value = view.getUint32(offset, littleEndian); invalid = 0; break;
+    case 0x88:
+      if (size !== 4) return null;
+      value = view.getFloat32(offset, littleEndian);
+      return Number.isFinite(value) ? value : null;
+    case 0x89:
+      if (size !== 8) return null;
+      value = view.getFloat64(offset, littleEndian);
+      return Number.isFinite(value) ? value : null;
+    default:
+      return null;
+  }
+  return value === invalid ? null : value;
+};
+
+export const decodeFitRoute = (buffer: ArrayBuffer): RoutePoint[] => {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  if (bytes.length < 12) throw new Error("File is too small to be a FIT file.");
+
+  const headerSize = bytes[0];
+  const dataSize = view.getUint32(4, true);
+  const signature = String.fromCharCode(...bytes.subarray(8, 12));
+  if (signature !== ".FIT") throw new Error("Not a FIT file (missing .FIT signature).");
+
+  const end = Math.min(headerSize + dataSize, bytes.length);
+  if (end + 2 <= bytes.length && fitCrc(bytes, 0, end) !== view.getUint16(end, true)) {
+    throw new Error("FIT file is corrupt (CRC mismatch).");
+  }
+
+  const definitions = new Map<number, DecodedDefinition>();
+  const route: RoutePoint[] = [];
+  const lapEnds: number[] = [];
+  let timerStopped = false;
+  let lastTimestamp = 0;
+  let offset = headerSize;
+
+  while (offset < end) {
+    const header = bytes[offset++];
+
+    if ((header & COMPRESSED_HEADER) === 0 && (header & DEFINITION_HEADER) !== 0) {
+      const local = header & 0x0f;
+      const littleEndian = bytes[offset + 1] === 0;
+      const global = view.getUint16(offset + 2, littleEndian);
+      const fieldCount = bytes[offset + 4];
+      offset += 5;
+      const fields = [];
+      for (let i = 0; i < fieldCount; i++, offset += 3) {
+        fields.push({ num: bytes[offset], size: bytes[offset + 1], baseType: bytes[offset + 2] });
+      }
+      let devDataSize = 0;
+      if (header & DEV_DATA_FLAG) {
+        const devCount = bytes[offset++];
+        for (let i = 0; i < devCount; i++, offset += 3) devDataSize += bytes[offset + 1];
+      }
+      definitions.set(local, { global, littleEndian, fields, devDataSize });
+      continue;
+    }
+
+    let local: number;
+    let timestamp: number | null = null;
+    if (header & COMPRESSED_HEADER) {
+      local = (header >> 5) & 0x03;
+      const timeOffset = header & 0x1f;
+      timestamp = (lastTimestamp & ~0x1f) + timeOffset;
+      if (timeOffset < (lastTimestamp & 0x1f)) timestamp += 0x20;
+      lastTimestamp = timestamp;
+    } else {
+      local = header & 0x0f;
+    }
+
+    const def = definitions.get(local);
+    if (!def) throw new Error(`FIT file references undefined local message ${local}.`);
+
+    const values = new Map<number, number | null>();
+    def.fields.forEach((field) => {
+      values.set(field.num, readField(view, offset, field.size, field.baseType & 0x9f, def.littleEndian));
+      offset += field.size;
+    });
+    offset += def.devDataSize;
+
+    const fieldTimestamp = values.get(253);
+    if (fieldTimestamp != null) {
+      timestamp = fieldTimestamp;
+      lastTimestamp = fieldTimestamp;
+    }
+
+    if (def.global === MESG_NUM.event) {
+      const type = values.get(1);
+      if (values.get(0) === EVENT_TIMER && (type === EVENT_TYPE_STOP || type === EVENT_TYPE_STOP_ALL)) timerStopped = true;
+      continue;
+    }
+    if (def.global === MESG_NUM.lap) {
+      if (timestamp !== null) lapEnds.push((timestamp + FIT_EPOCH_OFFSET) * 1000);
+      continue;
+    }
+    if (def.global !== MESG_NUM.record) continue;
+    const lat = values.get(0);
+    const lon = values.get(1);
+    if (lat == null || lon == null || timestamp === null) continue;
+
+    const enhancedAltitude = values.get(78);
+    const rawAltitude = enhancedAltitude ?? values.get(2);
+    const enhancedSpeed = values.get(73);
+    const rawSpeed = enhancedSpeed ?? values.get(6);
+
+    route.push({
+      latitude: lat / SEMICIRCLES_PER_DEGREE,
+      longitude: lon / SEMICIRCLES_PER_DEGREE,
+      timestamp: (timestamp + FIT_EPOCH_OFFSET) * 1000,
+      speed: rawSpeed != null ? rawSpeed / 1000 : 0,
+      altitude: rawAltitude != null ? rawAltitude / 5 - 500 : null,
+      // Riding on after the timer was stopped starts a new segment
+      ...(timerStopped && route.length > 0 && { segmentStart: true }),
+    });
+    timerStopped = false;
+  }
+
+  // A lap message is written as its lap closes, so the fix at that moment
+  // closes it here; the last lap just ends with the ride
+  lapEnds.slice(0, -1).forEach((time) => {
+    const i = route.findIndex((p) => p.timestamp >= time);
+    if (i > 0) route[i] = { ...route[i], lapEnd: true };
+  });
+
+  return route;
+};
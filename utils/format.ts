@@ -0,0 +1,143 @@
+
+// Every number shown to the rider goes through here, so the unit system,
+// speed or pace, clock and language settings apply everywhere at once.
+// Values come in as the app stores them: metres, m/s, seconds, epoch ms.
+
+export type UnitSystem = "metric" | "imperial";
+export type SpeedDisplay = "speed" | "pace";
+export type ClockFormat = "12h" | "24h";
+
+export interface DisplaySettings {
+  units: UnitSystem;
+  speedDisplay: SpeedDisplay;
+  clock: ClockFormat;
+  language: string; // BCP 47 tag, e.g. "en" or "de"
+}
+
+export const DEFAULT_DISPLAY: DisplaySettings = {
+  units: "metric",
+  speedDisplay: "speed",
+  clock: "24h",
+  language: "en",
+};
+
+export const LANGUAGES: { tag: string; name: string }[] = [
+  { tag: "en", name: "English" },
+  { tag: "de", name: "Deutsch" },
+  { tag: "es", name: "Español" },
+  { tag: "fr", name: "Français" },
+  { tag: "it", name: "Italiano" },
+  { tag: "nl", name: "Nederlands" },
+  { tag: "pt", name: "Português" },
+];
+
+const METRES_PER_MILE = 1609.344;
+const METRES_PER_FOOT = 0.3048;
+const MIN_PACE_SPEED = 0.5; // m/s; slower than this a pace is meaningless
+
+export interface Quantity {
+  value: string;
+  unit: string;
+}
+
+export const withUnit = ({ value, unit }: Quantity) => (unit ? `${value} ${unit}` : value);
+
+export const formatDuration = (seconds: number): string => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  return [h, m, s]
+    .map((v) => (v < 10 ? "0" + v : v))
+    .filter((v, i) => v !== "00" || i > 0)
+    .join(":");
+};
+
+export interface Formatter {
+  display: DisplaySettings;
+  distanceUnit: string; // km or mi
+  elevationUnit: string; // m or ft
+  speedUnit: string; // km/h or mph, even when showing pace
+  // Plain numbers in the display units, for charts and inputs
+  distanceValue: (metres: number) => number;
+  elevationValue: (metres: number) => number;
+  speedValue: (speed: number) => number;
+  number: (value: number, digits?: number) => string;
+  distance: (metres: number, digits?: number) => Quantity;
+  shortDistance: (metres: number) => Quantity; // m or ft up close, km or mi further out
+  elevation: (metres: number) => Quantity;
+  speed: (speed: number) => Quantity; // speed or pace, per the settings
+  duration: (seconds: number) => string;
+  time: (timestamp: number) => string;
+  date: (timestamp: number, options?: Intl.DateTimeFormatOptions) => string;
+}
+
+// A stored tag the runtime does not know falls back to English rather than throwing
+const resolveLocale = (language: string): string => {
+  try {
+    return Intl.NumberFormat.supportedLocalesOf([language])[0] ?? "en";
+  } catch {
+    return "en";
+  }
+};
+
+export const createFormatter = (display: DisplaySettings): Formatter => {
+  const locale = resolveLocale(display.language);
+  const imperial = display.units === "imperial";
+  const distanceUnit = imperial ? "mi" : "km";
+  const elevationUnit = imperial ? "ft" : "m";
+  const speedUnit = imperial ? "mph" : "km/h";
+
+  const distanceValue = (metres: number) => metres / (imperial ? METRES_PER_MILE : 1000);
+  const elevationValue = (metres: number) => (imperial ? metres / METRES_PER_FOOT : metres);
+  const speedValue = (speed: number) => (imperial ? (speed * 3600) / METRES_PER_MILE : speed * 3.6);
+
+  const numberFormats = new Map<number, Intl.NumberFormat>();
+  const number = (value: number, digits = 0) => {
+    let format = numberFormats.get(digits);
+    if (!format) {
+      format = new Intl.NumberFormat(locale, { minimumFractionDigits: digits, maximumFractionDigits: digits });
+      numberFormats.set(digits, format);
+    }
+    return format.format(value);
+  };
+
+  const distance = (metres: number, digits = 2) => ({ value: number(distanceValue(metres), digits), unit: distanceUnit });
+
+  const shortDistance = (metres: number) => {
+    if (imperial) {
+      return metres < METRES_PER_MILE / 10
+        ? { value: number(Math.round(metres / METRES_PER_FOOT / 10) * 10), unit: "ft" }
+        : distance(metres, 1);
+    }
+    return metres < 1000 ? { value: number(Math.round(metres / 10) * 10), unit: "m" } : distance(metres, 1);
+  };
+
+  const speed = (value: number) => {
+    if (display.speedDisplay === "speed") return { value: number(speedValue(value), 1), unit: speedUnit };
+    const unit = `/${distanceUnit}`;
+    if (value < MIN_PACE_SPEED) return { value: "--:--", unit };
+    const seconds = Math.round((imperial ? METRES_PER_MILE : 1000) / value);
+    return { value: `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`, unit };
+  };
+
+  const hour12 = display.clock === "12h";
+  const timeFormat = new Intl.DateTimeFormat(locale, { hour: "numeric", minute: "2-digit", hour12 });
+
+  return {
+    display,
+    distanceUnit,
+    elevationUnit,
+    speedUnit,
+    distanceValue,
+    elevationValue,
+    speedValue,
+    number,
+    distance,
+    shortDistance,
+    elevation: (metres) => ({ value: number(elevationValue(metres)), unit: elevationUnit }),
+    speed,
+    duration: formatDuration,
+    time: (timestamp) => timeFormat.format(timestamp),
+    date: (timestamp, options) => new Date(timestamp).toLocaleDateString(locale, options),
+  };
+};
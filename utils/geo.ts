@@ -1,7 +1,9 @@
 
 import { RoutePoint } from "../types";
 
-export const calculateDistance = (p1: RoutePoint, p2: RoutePoint): number => {
+type LatLon = Pick<RoutePoint, "latitude" | "longitude">;
+
+export const calculateDistance = (p1: LatLon, p2: LatLon): number => {
   const R = 6371e3; // metres
   const φ1 = (p1.latitude * Math.PI) / 180;
   const φ2 = (p2.latitude * Math.PI) / 180;
@@ -16,12 +18,102 @@ export const calculateDistance = (p1: RoutePoint, p2: RoutePoint): number => {
   return R * c; // in metres
 };
 
-export const formatDuration = (seconds: number): string => {
-  const h = Math.floor(seconds / 3600);
-  const m = Math.floor((seconds % 3600) / 60);
-  const s = seconds % 60;
-  return [h, m, s]
-    .map((v) => (v < 10 ? "0" + v : v))
-    .filter((v, i) => v !== "00" || i > 0)
-    .join(":");
+// Shortest distance (metres) from `point` to the line through `path`, using a
+// flat projection around the point; fine over the few kilometres this is used for
+export const distanceToPath = (point: LatLon, path: LatLon[]): number => {
+  const lat0 = (point.latitude * Math.PI) / 180;
+  const toLocal = (p: LatLon) => ({
+    x: (((p.longitude - point.longitude) * Math.PI) / 180) * Math.cos(lat0) * 6371e3,
+    y: (((p.latitude - point.latitude) * Math.PI) / 180) * 6371e3,
+  });
+  if (path.length === 1) return calculateDistance(point, path[0]);
+  let best = Infinity;
+  for (let i = 0; i + 1 < path.length; i++) {
+    const a = toLocal(path[i]);
+    const b = toLocal(path[i + 1]);
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq > 0 ? Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSq)) : 0;
+    best = Math.min(best, Math.hypot(a.x + t * dx, a.y + t * dy));
+  }
+  return best;
+};
+
+// Initial bearing from p1 to p2, degrees clockwise from north
+export const calculateBearing = (p1: LatLon, p2: LatLon): number => {
+  const φ1 = (p1.latitude * Math.PI) / 180;
+  const φ2 = (p2.latitude * Math.PI) / 180;
+  const Δλ = ((p2.longitude - p1.longitude) * Math.PI) / 180;
+  const y = Math.sin(Δλ) * Math.cos(φ2);
+  const x = Math.cos(φ1) * Math.sin(φ2) - Math.sin(φ1) * Math.cos(φ2) * Math.cos(Δλ);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+};
+
+// Running distance (metres) at each point; gaps marked by `segmentStart` add nothing
+export const cumulativeDistances = (route: RoutePoint[]): number[] => {
+  const distances: number[] = [];
+  let total = 0;
+  route.forEach((p, i) => {
+    if (i > 0 && !p.segmentStart) total += calculateDistance(route[i - 1], p);
+    distances.push(total);
+  });
+  return distances;
+};
+
+// Gradient (%) at each point, measured across `window` metres of track centred
+// on it so single noisy altitudes don't spike. Points without altitude get 0.
+export const pointGradients = (route: RoutePoint[], distances: number[], window = 50): number[] => {
+  let lo = 0;
+  let hi = 0;
+  return route.map((p, i) => {
+    while (distances[i] - distances[lo] > window / 2) lo++;
+    while (hi < route.length - 1 && distances[hi + 1] - distances[i] <= window / 2) hi++;
+    let from = lo;
+    let to = hi;
+    while (from < i && route[from].altitude === null) from++;
+    while (to > i && route[to].altitude === null) to--;
+    const run = distances[to] - distances[from];
+    const start = route[from].altitude;
+    const end = route[to].altitude;
+    if (run < 10 || start === null || end === null) return 0;
+    return ((end - start) / run) * 100;
+  });
+};
+
+export const splitSegments = (route: RoutePoint[]): RoutePoint[][] => {
+  const segments: RoutePoint[][] = [];
+  route.forEach((p, i) => {
+    if (i === 0 || p.segmentStart) segments.push([]);
+    segments[segments.length - 1].push(p);
+  });
+  return segments;
+};
+
+// Speed from the distance/time to the previous point, for files that only carry positions
+export const deriveMissingSpeeds = (route: RoutePoint[]): RoutePoint[] =>
+  route.map((p, i) => {
+    if (p.speed > 0 || i === 0 || p.segmentStart) return p;
+    const prev = route[i - 1];
+    const dt = (p.timestamp - prev.timestamp) / 1000;
+    return dt > 0 ? { ...p, speed: calculateDistance(prev, p) / dt } : p;
+  });
+
+export interface ElevationState {
+  reference: number | null; // altitude the next change is measured from
+  gain: number;
+  loss: number;
+}
+
+export const INITIAL_ELEVATION: ElevationState = { reference: null, gain: 0, loss: 0 };
+
+// Hysteresis: altitude must move `threshold` metres from the last reference
+// before it counts, so barometer/GPS noise on the flat adds nothing.
+export const accumulateElevation = (state: ElevationState, altitude: number | null, threshold: number): ElevationState => {
+  if (altitude === null) return state;
+  if (state.reference === null) return { ...state, reference: altitude };
+  const delta = altitude - state.reference;
+  if (delta >= threshold) return { reference: altitude, gain: state.gain + delta, loss: state.loss };
+  if (delta <= -threshold) return { reference: altitude, gain: state.gain, loss: state.loss - delta };
+  return state;
 };
@@ -0,0 +1,82 @@
+
+import { describe, expect, it } from "vitest";
+import { RideStats, RoutePoint, SavedRide } from "../types";
+import { calculateDistance } from "./geo";
+import { createGhostRace, ghostPositionAt, prepareGhost } from "./ghost";
+import { syntheticTrack } from "./__fixtures__/syntheticTracks";
+
+const savedRide = (route: RoutePoint[]): SavedRide => ({
+  id: "ghost-1",
+  name: "Last Saturday",
+  createdAt: route[0].timestamp,
+  updatedAt: route[0].timestamp,
+  route,
+  stats: {} as RideStats,
+  aiInsight: null,
+  nearbyStops: null,
+});
+
+// Two minutes at 5 m/s: 600 m due east
+const ghostRoute = syntheticTrack({ seconds: 120, speed: 5 });
+
+describe("prepareGhost", () => {
+  it("has nothing to race against without timestamps", () => {
+    const planned = ghostRoute.map((p) => ({ ...p, timestamp: 0 }));
+    expect(prepareGhost(savedRide(planned))).toBeNull();
+  });
+
+  it("leaves recording gaps out of the ghost's time", () => {
+    const later = syntheticTrack({ seconds: 60, speed: 5, startTime: ghostRoute[120].timestamp + 600_000, startOffset: 600 });
+    later[0] = { ...later[0], segmentStart: true };
+    const ghost = prepareGhost(savedRide([...ghostRoute, ...later]))!;
+    expect(ghost.elapsed[ghost.elapsed.length - 1]).toBe(180);
+  });
+
+  it("leaves auto-paused stops out too, like the rider's moving time", () => {
+    const stop = syntheticTrack({ seconds: 60, startTime: ghostRoute[120].timestamp + 1000, startOffset: 600 })
+      .map((p) => ({ ...p, autoPaused: true }));
+    const later = syntheticTrack({ seconds: 60, speed: 5, startTime: stop[60].timestamp + 1000, startOffset: 600 });
+    const ghost = prepareGhost(savedRide([...ghostRoute, ...stop, ...later]))!;
+    // Only the second from the last stopped fix to setting off again counts
+    expect(ghost.elapsed[ghost.elapsed.length - 1]).toBe(181);
+  });
+});
+
+describe("ghostPositionAt", () => {
+  const ghost = prepareGhost(savedRide(ghostRoute))!;
+
+  it("puts the ghost where it was at that time, between fixes", () => {
+    const position = ghostPositionAt(ghost, 30.5);
+    const expected = syntheticTrack({ seconds: 0, startOffset: 152.5 })[0];
+    expect(calculateDistance(position, expected)).toBeLessThan(0.01);
+  });
+
+  it("holds the ghost at the start and at the finish", () => {
+    expect(ghostPositionAt(ghost, -5)).toEqual({ latitude: ghostRoute[0].latitude, longitude: ghostRoute[0].longitude });
+    expect(ghostPositionAt(ghost, 1000)).toEqual({ latitude: ghostRoute[120].latitude, longitude: ghostRoute[120].longitude });
+  });
+});
+
+describe("createGhostRace", () => {
+  it("reports the rider behind, then ahead, of a steady ghost", () => {
+    const ghost = prepareGhost(savedRide(ghostRoute))!;
+    const race = createGhostRace(ghost, 50);
+    // 4 m/s for the first minute, then 7 m/s
+    const rider = [
+      ...syntheticTrack({ seconds: 60, speed: 4 }),
+      ...syntheticTrack({ seconds: 50, speed: 7, startTime: ghostRoute[61].timestamp, startOffset: 247 }),
+    ];
+    const statuses = rider.map((p) => race.update(p, (p.timestamp - rider[0].timestamp) / 1000));
+
+    const atMinute = statuses[60]!;
+    expect(atMinute.onRoute).toBe(true);
+    expect(atMinute.timeGap).toBeCloseTo(12, 0);
+    expect(atMinute.distanceGap).toBeCloseTo(60, 0);
+    expect(statuses[statuses.length - 1]!.timeGap).toBeLessThan(0);
+
+    const summary = race.summary()!;
+    expect(summary.ghostRideId).toBe("ghost-1");
+    expect(summary.maxDeficit).toBeGreaterThan(11);
+    expect(summary.maxLead).toBeGreaterThan(0);
+  });
+});
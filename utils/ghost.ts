@@ -0,0 +1,131 @@
+
+import { GhostComparison, RoutePoint, SavedRide } from "../types";
+import { CourseTrack, createCourseTracker, prepareCourse } from "./course";
+import { formatDuration } from "./format";
+
+export interface GhostTrack extends CourseTrack {
+  rideId: string;
+  elapsed: number[]; // moving time at each point, seconds; recording gaps and auto-paused stops excluded
+  // Coordinates per point, split out once so positions are a lookup per render
+  latitudes: number[];
+  longitudes: number[];
+}
+
+export interface GhostStatus {
+  onRoute: boolean;
+  distanceAlong: number; // rider's position on the ghost's route, metres
+  timeGap: number; // seconds; positive when the rider is behind the ghost
+  distanceGap: number; // metres; positive when the ghost is ahead
+}
+
+export const prepareGhost = (ride: SavedRide): GhostTrack | null => {
+  const elapsed: number[] = [];
+  let total = 0;
+  ride.route.forEach((p, i) => {
+    // Counted like the rider's moving time, so neither side is charged for stops
+    if (i > 0 && !p.segmentStart && !p.autoPaused) total += Math.max(p.timestamp - ride.route[i - 1].timestamp, 0) / 1000;
+    elapsed.push(total);
+  });
+  // Planned routes and untimed imports have nothing to race against
+  if (ride.route.length < 2 || total <= 0) return null;
+  return {
+    ...prepareCourse(ride.name, ride.route),
+    rideId: ride.id,
+    elapsed,
+    latitudes: ride.route.map((p) => p.latitude),
+    longitudes: ride.route.map((p) => p.longitude),
+  };
+};
+
+// Where `key` falls in a sorted `keys` array: the index before it and how far
+// along to the next one
+const locate = (keys: number[], key: number): { index: number; t: number } => {
+  if (key <= keys[0]) return { index: 0, t: 0 };
+  if (key >= keys[keys.length - 1]) return { index: keys.length - 1, t: 0 };
+  let lo = 0;
+  let hi = keys.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (keys[mid] <= key) lo = mid;
+    else hi = mid;
+  }
+  const span = keys[hi] - keys[lo];
+  return { index: lo, t: span > 0 ? (key - keys[lo]) / span : 0 };
+};
+
+const valueAt = (values: number[], { index, t }: { index: number; t: number }): number =>
+  t > 0 ? values[index] + t * (values[index + 1] - values[index]) : values[index];
+
+// Linear interpolation in a sorted `keys` array, returning the matching `values`
+const interpolate = (keys: number[], values: number[], key: number): number => valueAt(values, locate(keys, key));
+
+// Where the ghost was after `elapsed` seconds of moving time
+export const ghostPositionAt = (ghost: GhostTrack, elapsed: number): Pick<RoutePoint, "latitude" | "longitude"> => {
+  const at = locate(ghost.distances, interpolate(ghost.elapsed, ghost.distances, elapsed));
+  return { latitude: valueAt(ghost.latitudes, at), longitude: valueAt(ghost.longitudes, at) };
+};
+
+export interface GhostRace {
+  // `elapsed` is the rider's moving time when the point was recorded
+  update: (point: RoutePoint, elapsed: number) => GhostStatus | null;
+  summary: () => GhostComparison | null;
+  reset: () => void;
+}
+
+// Matches the rider onto the ghost's route like a course, then compares the
+// time each took to reach the same spot.
+export const createGhostRace = (ghost: GhostTrack, offRouteDistance: number): GhostRace => {
+  const tracker = createCourseTracker(ghost, offRouteDistance);
+  let furthest: { distance: number; riderTime: number } | null = null;
+  let maxLead = 0;
+  let maxDeficit = 0;
+
+  const reset = () => {
+    tracker.reset();
+    furthest = null;
+    maxLead = 0;
+    maxDeficit = 0;
+  };
+
+  const update = (point: RoutePoint, elapsed: number): GhostStatus | null => {
+    const progress = tracker.update(point);
+    if (!progress) return null;
+    const ghostTime = interpolate(ghost.distances, ghost.elapsed, progress.distanceAlong);
+    const timeGap = elapsed - ghostTime;
+    const status = {
+      onRoute: !progress.offCourse,
+      distanceAlong: progress.distanceAlong,
+      timeGap,
+      distanceGap: interpolate(ghost.elapsed, ghost.distances, elapsed) - progress.distanceAlong,
+    };
+    if (status.onRoute) {
+      maxLead = Math.max(maxLead, -timeGap);
+      maxDeficit = Math.max(maxDeficit, timeGap);
+      if (!furthest || progress.distanceAlong > furthest.distance) {
+        furthest = { distance: progress.distanceAlong, riderTime: elapsed };
+      }
+    }
+    return status;
+  };
+
+  const summary = (): GhostComparison | null => {
+    if (!furthest) return null;
+    return {
+      ghostRideId: ghost.rideId,
+      ghostName: ghost.name,
+      distance: furthest.distance,
+      riderTime: furthest.riderTime,
+      ghostTime: interpolate(ghost.distances, ghost.elapsed, furthest.distance),
+      maxLead,
+      maxDeficit,
+    };
+  };
+
+  return { update, summary, reset };
+};
+
+// "+00:42" behind or "-01:05" ahead
+export const formatGap = (seconds: number): string => {
+  const sign = seconds >= 0.5 ? "+" : seconds <= -0.5 ? "-" : "±";
+  return sign + formatDuration(Math.round(Math.abs(seconds)));
+};
@@ -0,0 +1,219 @@
+
+import { RoutePoint } from "../types";
+
+export interface MapPoint {
+  x: number; // metres east of the track origin
+  y: number; // metres south of the track origin (screen orientation)
+}
+
+export interface MapBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+const EARTH_RADIUS = 6378137; // metres, as used by Web Mercator
+const MAX_LATITUDE = 85.05112878;
+
+// Web Mercator in metres, y growing southwards to match SVG coordinates
+export const projectMercator = (latitude: number, longitude: number): MapPoint => {
+  const lat = (Math.max(Math.min(latitude, MAX_LATITUDE), -MAX_LATITUDE) * Math.PI) / 180;
+  return {
+    x: (EARTH_RADIUS * longitude * Math.PI) / 180,
+    y: -EARTH_RADIUS * Math.log(Math.tan(Math.PI / 4 + lat / 2)),
+  };
+};
+
+const segmentDistance = (p: MapPoint, a: MapPoint, b: MapPoint): number => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq)) : 0;
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+// Douglas–Peucker, recorded rather than applied: ranks[i] becomes the largest
+// tolerance (metres) at which point i survives, so any zoom level can filter
+// the track in one pass instead of re-running the algorithm. Iterative, so
+// long stretches can't overflow the call stack.
+export const rankSimplification = (points: MapPoint[], ranks: number[], from: number, to: number) => {
+  ranks[from] = Infinity;
+  ranks[to] = Infinity;
+  const stack: [first: number, last: number, parentRank: number][] = [[from, to, Infinity]];
+  while (stack.length > 0) {
+    const [first, last, parentRank] = stack.pop()!;
+    let maxDistance = -1;
+    let index = -1;
+    for (let i = first + 1; i < last; i++) {
+      const distance = segmentDistance(points[i], points[first], points[last]);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        index = i;
+      }
+    }
+    if (index === -1) continue;
+    // A point can't outlive the split that made it a candidate
+    const rank = Math.min(maxDistance, parentRank);
+    ranks[index] = rank;
+    stack.push([first, index, rank], [index, last, rank]);
+  }
+};
+
+const intersects = (a: MapBounds, b: MapBounds) =>
+  a.minX <= b.maxX && a.maxX >= b.minX && a.minY <= b.maxY && a.maxY >= b.minY;
+
+const boundsOf = (points: MapPoint[], from: number, to: number): MapBounds => {
+  const bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+  for (let i = from; i <= to; i++) {
+    bounds.minX = Math.min(bounds.minX, points[i].x);
+    bounds.minY = Math.min(bounds.minY, points[i].y);
+    bounds.maxX = Math.max(bounds.maxX, points[i].x);
+    bounds.maxY = Math.max(bounds.maxY, points[i].y);
+  }
+  return bounds;
+};
+
+// Points per chunk. Finished chunks are ranked and bounded once; only the
+// unfinished tail is touched as new fixes arrive.
+const CHUNK_SIZE = 256;
+
+interface Chunk {
+  from: number;
+  to: number; // inclusive; shared with the next chunk's `from` so lines join up
+  bounds: MapBounds;
+}
+
+export interface TrackGeometry {
+  // Catches up with the route; only projects new points when it was appended to
+  sync: (route: RoutePoint[]) => void;
+  // Absolute Web Mercator position that `points` are relative to
+  origin: () => MapPoint | null;
+  points: () => MapPoint[];
+  bounds: () => MapBounds | null;
+  // Runs of point indices to draw at this tolerance (metres) within the view.
+  // A run breaks at recording gaps and around chunks outside the view.
+  visibleRuns: (tolerance: number, view: MapBounds) => number[][];
+}
+
+export const createTrackGeometry = (): TrackGeometry => {
+  let source: RoutePoint[] = [];
+  let origin: MapPoint | null = null;
+  let points: MapPoint[] = [];
+  let ranks: number[] = [];
+  let chunks: Chunk[] = [];
+  let bounds: MapBounds | null = null;
+  let keptCache: { tolerance: number; kept: number[][][] } = { tolerance: NaN, kept: [] };
+
+  const reset = () => {
+    source = [];
+    origin = null;
+    points = [];
+    ranks = [];
+    chunks = [];
+    bounds = null;
+    keptCache = { tolerance: NaN, kept: [] };
+  };
+
+  const finishChunk = (from: number, to: number) => {
+    // Points either side of a recording gap are always kept
+    let start = from;
+    for (let i = from + 1; i <= to; i++) {
+      if (source[i].segmentStart) {
+        if (i - 1 > start) rankSimplification(points, ranks, start, i - 1);
+        ranks[i - 1] = Infinity;
+        start = i;
+      }
+    }
+    if (to > start) rankSimplification(points, ranks, start, to);
+    ranks[start] = Infinity;
+    chunks.push({ from, to, bounds: boundsOf(points, from, to) });
+  };
+
+  const sync = (route: RoutePoint[]) => {
+    // Anything other than an append (a different ride, a reset) starts over
+    const appended = points.length > 0 && route.length >= points.length && route[points.length - 1] === source[points.length - 1];
+    if (!appended) reset();
+    source = route;
+
+    for (let i = points.length; i < route.length; i++) {
+      const p = route[i];
+      const projected = projectMercator(p.latitude, p.longitude);
+      if (!origin) origin = projected;
+      const point = { x: projected.x - origin.x, y: projected.y - origin.y };
+      points.push(point);
+      ranks.push(0);
+      bounds = bounds
+        ? {
+          minX: Math.min(bounds.minX, point.x),
+          minY: Math.min(bounds.minY, point.y),
+          maxX: Math.max(bounds.maxX, point.x),
+          maxY: Math.max(bounds.maxY, point.y),
+        }
+        : { minX: point.x, minY: point.y, maxX: point.x, maxY: point.y };
+
+      const chunkEnd = (chunks.length + 1) * CHUNK_SIZE;
+      if (i === chunkEnd) finishChunk(chunkEnd - CHUNK_SIZE, chunkEnd);
+    }
+  };
+
+  const keptIndices = (chunkIndex: number, tolerance: number): number[][] => {
+    if (keptCache.tolerance !== tolerance) keptCache = { tolerance, kept: [] };
+    const cached = keptCache.kept[chunkIndex];
+    if (cached) return cached;
+
+    const { from, to } = chunks[chunkIndex];
+    const runs: number[][] = [[]];
+    for (let i = from; i <= to; i++) {
+      if (ranks[i] < tolerance) continue;
+      if (source[i].segmentStart && i > from) runs.push([]);
+      runs[runs.length - 1].push(i);
+    }
+    keptCache.kept[chunkIndex] = runs;
+    return runs;
+  };
+
+  const visibleRuns = (tolerance: number, view: MapBounds): number[][] => {
+    const runs: number[][] = [];
+    let current: number[] | null = null;
+    const extend = (run: number[], continues: boolean) => {
+      if (current && continues) {
+        // Chunks share their boundary point
+        current.push(...run.slice(current[current.length - 1] === run[0] ? 1 : 0));
+      } else {
+        current = [...run];
+        runs.push(current);
+      }
+    };
+
+    chunks.forEach((chunk, c) => {
+      if (!intersects(chunk.bounds, view)) {
+        current = null;
+        return;
+      }
+      keptIndices(c, tolerance).forEach((run, r) => extend(run, r === 0));
+    });
+
+    // The unfinished tail is short, so it is drawn in full
+    const tailFrom = chunks.length * CHUNK_SIZE;
+    if (points.length - tailFrom > 1) {
+      const tail: number[][] = [[]];
+      for (let i = tailFrom; i < points.length; i++) {
+        if (source[i].segmentStart && i > tailFrom) tail.push([]);
+        tail[tail.length - 1].push(i);
+      }
+      if (intersects(boundsOf(points, tailFrom, points.length - 1), view)) {
+        tail.forEach((run, r) => extend(run, r === 0));
+      }
+    }
+    return runs.filter((run) => run.length > 1);
+  };
+
+  return {
+    sync,
+    origin: () => origin,
+    points: () => points,
+    bounds: () => bounds,
+    visibleRuns,
+  };
+};
@@ -0,0 +1,63 @@
+
+import { RoutePoint } from "../types";
+
+// Google's encoded polyline format: each coordinate is the delta from the
+// previous one, scaled to an integer and written as base-64 digits in ASCII.
+// https://developers.google.com/maps/documentation/utilities/polylinealgorithm
+
+type LatLon = Pick<RoutePoint, "latitude" | "longitude">;
+
+const encodeValue = (value: number): string => {
+  let v = value < 0 ? ~(value << 1) : value << 1;
+  let out = "";
+  while (v >= 0x20) {
+    out += String.fromCharCode((0x20 | (v & 0x1f)) + 63);
+    v >>= 5;
+  }
+  return out + String.fromCharCode(v + 63);
+};
+
+export const encodePolyline = (points: LatLon[], precision = 5): string => {
+  const factor = 10 ** precision;
+  let lastLat = 0;
+  let lastLon = 0;
+  let out = "";
+  for (const p of points) {
+    const lat = Math.round(p.latitude * factor);
+    const lon = Math.round(p.longitude * factor);
+    out += encodeValue(lat - lastLat) + encodeValue(lon - lastLon);
+    lastLat = lat;
+    lastLon = lon;
+  }
+  return out;
+};
+
+// Throws on a truncated or corrupt string rather than returning half a track
+export const decodePolyline = (encoded: string, precision = 5): LatLon[] => {
+  const factor = 10 ** precision;
+  const points: LatLon[] = [];
+  let index = 0;
+  let lat = 0;
+  let lon = 0;
+
+  const readValue = (): number => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      if (index >= encoded.length) throw new Error("Polyline ends mid-value.");
+      byte = encoded.charCodeAt(index++) - 63;
+      if (byte < 0 || byte > 0x3f) throw new Error("Polyline contains an invalid character.");
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += readValue();
+    lon += readValue();
+    points.push({ latitude: lat / factor, longitude: lon / factor });
+  }
+  return points;
+};
@@ -0,0 +1,52 @@
+
+// Estimated power for riders without a power meter: the force needed to
+// overcome gravity, rolling resistance, drag and acceleration at each moment.
+
+export interface RiderProfile {
+  riderMass: number; // kg
+  bikeMass: number; // kg
+  cda: number; // m², drag area; ~0.25 racing tuck, ~0.4 upright
+  crr: number; // rolling resistance coefficient
+  ftp: number; // W, functional threshold power; 0 if unknown
+}
+
+export const DEFAULT_RIDER_PROFILE: RiderProfile = {
+  riderMass: 75,
+  bikeMass: 9,
+  cda: 0.32,
+  crr: 0.005,
+  ftp: 0,
+};
+
+const GRAVITY = 9.81; // m/s²
+const AIR_DENSITY = 1.225; // kg/m³, sea level at 15 °C
+const DRIVETRAIN_EFFICIENCY = 0.97;
+// Share of food energy that ends up at the pedals; with 4.184 kJ per kcal
+// this is the familiar "1 kJ of work ≈ 1 kcal burnt"
+const HUMAN_EFFICIENCY = 0.24;
+// Without a known FTP, assume a recreational 2.5 W/kg
+const ESTIMATED_FTP_PER_KG = 2.5;
+// NP smooths over this window before weighting hard efforts
+export const NORMALIZED_POWER_WINDOW = 30; // seconds
+
+// Watts at the pedals; coasting and braking give 0, not negative power
+export const estimatePower = (profile: RiderProfile, speed: number, acceleration: number, grade: number): number => {
+  const mass = profile.riderMass + profile.bikeMass;
+  const slope = Math.atan(grade / 100);
+  const gravity = mass * GRAVITY * Math.sin(slope);
+  const rolling = mass * GRAVITY * profile.crr * Math.cos(slope);
+  const drag = 0.5 * AIR_DENSITY * profile.cda * speed * speed;
+  const inertia = mass * acceleration;
+  return Math.max(((gravity + rolling + drag + inertia) * speed) / DRIVETRAIN_EFFICIENCY, 0);
+};
+
+export const caloriesFromWork = (kilojoules: number): number => kilojoules / (HUMAN_EFFICIENCY * 4.184);
+
+export const effectiveFtp = (profile: RiderProfile): number =>
+  profile.ftp > 0 ? profile.ftp : profile.riderMass * ESTIMATED_FTP_PER_KG;
+
+// Intensity factor and a TSS-style load: an hour at FTP scores 100
+export const trainingLoad = (normalizedPower: number, seconds: number, ftp: number) => {
+  const intensityFactor = ftp > 0 ? normalizedPower / ftp : 0;
+  return { intensityFactor, load: (seconds / 3600) * intensityFactor * intensityFactor * 100 };
+};
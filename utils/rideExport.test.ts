@@ -0,0 +1,136 @@
+// @vitest-environment jsdom
+
+import { readFileSync } from "fs";
+import { join } from "path";
+import { describe, expect, it } from "vitest";
+import { RideStats, RoutePoint } from "../types";
+import { ExportFormat, exportRide, toFIT, toGPX, toTCX } from "./rideExport";
+import { importRideFile, parseFIT, parseGPX, parseTCX } from "./rideImport";
+
+const fixture = (name: string) => readFileSync(join(__dirname, "__fixtures__", name));
+
+const toArrayBuffer = (bytes: Uint8Array): ArrayBuffer =>
+  bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+
+const START = Date.parse("2024-05-04T07:30:00Z");
+
+// Two segments with a gap between them, climbing gently; whole seconds so
+// FIT's 1 s resolution doesn't round anything
+const route: RoutePoint[] = [
+  { latitude: 52.3702161, longitude: 4.8951683, timestamp: START, speed: 6.5, altitude: 2.4 },
+  { latitude: 52.3704853, longitude: 4.8955219, timestamp: START + 5000, speed: 7.52, altitude: 2.6 },
+  { latitude: 52.3707537, longitude: 4.8958791, timestamp: START + 10000, speed: 7.54, altitude: 3.2 },
+  { latitude: 52.3731204, longitude: 4.8990346, timestamp: START + 300000, speed: 5.1, altitude: 4.0, segmentStart: true },
+  { latitude: 52.3733912, longitude: 4.8993871, timestamp: START + 305000, speed: 7.1, altitude: null },
+];
+
+const stats: RideStats = {
+  totalDistance: 112.4,
+  avgSpeed: 7.49,
+  maxSpeed: 7.54,
+  duration: 305,
+  movingTime: 15,
+  startTime: START,
+  elevationGain: 1.6,
+  elevationLoss: 0,
+  maxGrade: 0,
+  calories: 3,
+  avgPower: 95,
+  normalizedPower: 98,
+  work: 1.4,
+  intensityFactor: 0.4,
+  trainingLoad: 0.1,
+};
+
+const ride = { name: "Saturday Loop & <Friends>", route, stats };
+
+const expectSameTrack = (actual: RoutePoint[], { segments }: { segments: boolean }) => {
+  expect(actual).toHaveLength(route.length);
+  actual.forEach((p, i) => {
+    const expected = route[i];
+    expect(p.latitude).toBeCloseTo(expected.latitude, 6);
+    expect(p.longitude).toBeCloseTo(expected.longitude, 6);
+    expect(p.timestamp).toBe(expected.timestamp);
+    expect(p.speed).toBeCloseTo(expected.speed, 2);
+    if (expected.altitude === null) expect(p.altitude).toBeNull();
+    else expect(p.altitude).toBeCloseTo(expected.altitude, 1);
+    if (segments) expect(Boolean(p.segmentStart)).toBe(Boolean(expected.segmentStart));
+  });
+};
+
+describe("export → import round trip", () => {
+  it("keeps every field through GPX, including segments and the name", () => {
+    const track = parseGPX(toGPX(ride));
+    expect(track.name).toBe(ride.name);
+    expectSameTrack(track.route, { segments: true });
+  });
+
+  it("keeps every field through TCX, including segments and the name", () => {
+    const track = parseTCX(toTCX(ride));
+    expect(track.name).toBe(ride.name);
+    expectSameTrack(track.route, { segments: true });
+  });
+
+  it("keeps every field through FIT, with the gap as a timer stop", () => {
+    const track = parseFIT(toArrayBuffer(toFIT(ride)));
+    expectSameTrack(track.route, { segments: true });
+  });
+
+  it("keeps laps through FIT, including one closed by the last fix", () => {
+    const lapped = route.map((p, i) => (i === 2 || i === 4 ? { ...p, lapEnd: true } : p));
+    const track = parseFIT(toArrayBuffer(toFIT({ ...ride, route: lapped })));
+    expect(track.route.map((p) => Boolean(p.lapEnd))).toEqual([false, false, true, false, true]);
+    expect(track.route.map((p) => Boolean(p.segmentStart))).toEqual([false, false, false, true, false]);
+  });
+
+  it.each<ExportFormat>(["gpx", "tcx", "fit"])("re-imports a downloaded .%s file", async (format) => {
+    const file = new File([exportRide(ride, format)], `saturday-loop.${format}`);
+    const track = await importRideFile(file);
+    expect(track.route).toHaveLength(route.length);
+    expect(track.route.map((p) => p.timestamp)).toEqual(route.map((p) => p.timestamp));
+  });
+});
+
+describe("importing files from other apps", () => {
+  it("reads a Garmin GPX, deriving speed from position", () => {
+    const track = parseGPX(fixture("garmin-edge.gpx").toString("utf8"));
+    expect(track.name).toBe("Saturday Loop");
+    expect(track.route).toHaveLength(5);
+    expect(track.route[0]).toMatchObject({ latitude: 52.370216, longitude: 4.895168, altitude: 2.4, timestamp: START });
+    expect(track.route[3].segmentStart).toBe(true);
+    // No speed in the file; every point reads 0 until the import derives it
+    expect(track.route.every((p) => p.speed === 0)).toBe(true);
+  });
+
+  it("reads a Strava TCX with its speed extension", () => {
+    const track = parseTCX(fixture("strava.tcx").toString("utf8"));
+    expect(track.name).toBe("Saturday Loop");
+    expect(track.route).toHaveLength(3);
+    expect(track.route[2]).toMatchObject({ latitude: 52.370753, longitude: 4.895879, altitude: 3.1, speed: 7.54 });
+    expect(track.route[2].timestamp).toBe(START + 10000);
+  });
+
+  it("reads a FIT activity", () => {
+    const track = parseFIT(toArrayBuffer(fixture("saturday-loop.fit")));
+    expect(track.route).toHaveLength(5);
+    expect(track.route[1].latitude).toBeCloseTo(52.370485, 6);
+    expect(track.route[1].longitude).toBeCloseTo(4.895521, 6);
+    expect(track.route[1].altitude).toBeCloseTo(2.6, 1);
+    expect(track.route[1].speed).toBeCloseTo(7.52, 3);
+    expect(track.route[4].timestamp).toBe(START + 305000);
+  });
+
+  it("derives the speeds a file leaves out", async () => {
+    const file = new File([fixture("garmin-edge.gpx")], "loop.gpx");
+    const track = await importRideFile(file);
+    expect(track.name).toBe("Saturday Loop");
+    expect(track.route[1].speed).toBeGreaterThan(7);
+    expect(track.route[1].speed).toBeLessThan(8);
+  });
+
+  it("rejects a corrupt FIT file", () => {
+    const bytes = new Uint8Array(fixture("saturday-loop.fit"));
+    bytes[40] ^= 0xff;
+    expect(() => parseFIT(toArrayBuffer(bytes))).toThrow(/CRC/);
+  });
+});
@@ -0,0 +1,121 @@
+
+import { RideStats, RoutePoint } from "../types";
+import { cumulativeDistances, splitSegments } from "./geo";
+import { encodeFitActivity } from "./fit";
+
+export type ExportFormat = "gpx" | "tcx" | "fit";
+
+export interface ExportableRide {
+  name: string;
+  route: RoutePoint[];
+  stats: RideStats;
+}
+
+const CREATOR = "VeloAI";
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+const isoTime = (ms: number): string => new Date(ms).toISOString();
+
+export const toGPX = ({ name, route, stats }: ExportableRide): string => {
+  const start = stats.startTime ?? route[0]?.timestamp ?? Date.now();
+  const segments = splitSegments(route).map((segment) => {
+    const points = segment.map((p) => [
+      `      <trkpt lat="${p.latitude.toFixed(7)}" lon="${p.longitude.toFixed(7)}">`,
+      p.altitude !== null ? `        <ele>${p.altitude.toFixed(1)}</ele>` : null,
+      `        <time>${isoTime(p.timestamp)}</time>`,
+      `        <extensions><gpxtpx:TrackPointExtension><gpxtpx:speed>${p.speed.toFixed(2)}</gpxtpx:speed></gpxtpx:TrackPointExtension></extensions>`,
+      `      </trkpt>`,
+    ].filter((line) => line !== null).join("\n"));
+    return `    <trkseg>\n${points.join("\n")}\n    </trkseg>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="${CREATOR}"
+  xmlns="http://www.topografix.com/GPX/1/1"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v2"
+  xsi:schemaLocation="http://www.topografix.com/GPX/1/1 http://www.topografix.com/GPX/1/1/gpx.xsd">
+  <metadata>
+    <name>${escapeXml(name)}</name>
+    <time>${isoTime(start)}</time>
+  </metadata>
+  <trk>
+    <name>${escapeXml(name)}</name>
+    <type>cycling</type>
+${segments.join("\n")}
+  </trk>
+</gpx>
+`;
+};
+
+export const toTCX = ({ name, route, stats }: ExportableRide): string => {
+  const start = stats.startTime ?? route[0]?.timestamp ?? Date.now();
+  const distances = cumulativeDistances(route);
+  let index = 0;
+  const tracks = splitSegments(route).map((segment) => {
+    const points = segment.map((p) => {
+      const distance = distances[index++];
+      return [
+        `          <Trackpoint>`,
+        `            <Time>${isoTime(p.timestamp)}</Time>`,
+        `            <Position><LatitudeDegrees>${p.latitude.toFixed(7)}</LatitudeDegrees><LongitudeDegrees>${p.longitude.toFixed(7)}</LongitudeDegrees></Position>`,
+        p.altitude !== null ? `            <AltitudeMeters>${p.altitude.toFixed(1)}</AltitudeMeters>` : null,
+        `            <DistanceMeters>${distance.toFixed(2)}</DistanceMeters>`,
+        `            <Extensions><ns3:TPX><ns3:Speed>${p.speed.toFixed(2)}</ns3:Speed></ns3:TPX></Extensions>`,
+        `          </Trackpoint>`,
+      ].filter((line) => line !== null).join("\n");
+    });
+    return `        <Track>\n${points.join("\n")}\n        </Track>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<TrainingCenterDatabase
+  xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2"
+  xmlns:ns3="http://www.garmin.com/xmlschemas/ActivityExtension/v2">
+  <Activities>
+    <Activity Sport="Biking">
+      <Id>${isoTime(start)}</Id>
+      <Lap StartTime="${isoTime(start)}">
+        <TotalTimeSeconds>${stats.movingTime}</TotalTimeSeconds>
+        <DistanceMeters>${(distances[distances.length - 1] ?? 0).toFixed(2)}</DistanceMeters>
+        <MaximumSpeed>${stats.maxSpeed.toFixed(2)}</MaximumSpeed>
+        <Calories>${Math.round(stats.calories)}</Calories>
+        <Intensity>Active</Intensity>
+        <TriggerMethod>Manual</TriggerMethod>
+${tracks.join("\n")}
+      </Lap>
+      <Notes>${escapeXml(name)}</Notes>
+    </Activity>
+  </Activities>
+</TrainingCenterDatabase>
+`;
+};
+
+export const toFIT = ({ route, stats }: ExportableRide): Uint8Array => encodeFitActivity(route, stats);
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  gpx: "application/gpx+xml",
+  tcx: "application/vnd.garmin.tcx+xml",
+  fit: "application/vnd.ant.fit",
+};
+
+export const exportRide = (ride: ExportableRide, format: ExportFormat): Blob => {
+  if (ride.route.length === 0) throw new Error("Cannot export a ride without any points.");
+  const content = format === "gpx" ? toGPX(ride) : format === "tcx" ? toTCX(ride) : toFIT(ride);
+  return new Blob([content], { type: MIME_TYPES[format] });
+};
+
+export const exportFileName = (ride: Pick<ExportableRide, "name">, extension: string): string => {
+  const slug = ride.name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return `${slug || "ride"}.${extension}`;
+};
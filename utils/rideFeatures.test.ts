@@ -0,0 +1,91 @@
+
+import { describe, expect, it } from "vitest";
+import { RoutePoint } from "../types";
+import { extractRideFeatures, featureAnchors } from "./rideFeatures";
+import { SPLIT_DISTANCES, computeSplits } from "./splits";
+import { DEFAULT_TRACK_FILTER } from "./trackFilter";
+import { SyntheticTrackOptions, syntheticTrack } from "./__fixtures__/syntheticTracks";
+
+interface Part extends Omit<SyntheticTrackOptions, "startTime" | "startOffset"> {
+  gap?: number; // seconds off the recording before this part
+}
+
+// Joins the parts end to end; a part after a gap starts a new segment 5 km on
+const ride = (parts: Part[]): RoutePoint[] => {
+  const route: RoutePoint[] = [];
+  let time = Date.parse("2024-05-04T07:30:00Z");
+  let offset = 0;
+  parts.forEach(({ gap, ...part }) => {
+    if (gap) {
+      time += gap * 1000;
+      offset += 5000;
+    }
+    const points = syntheticTrack({ ...part, startTime: time, startOffset: offset });
+    if (gap) route.push({ ...points[0], segmentStart: true }, ...points.slice(1));
+    else route.push(...(route.length > 0 ? points.slice(1) : points));
+    time += part.seconds * 1000;
+    offset += (part.speed ?? 0) * part.seconds;
+  });
+  return route;
+};
+
+// Flat, a 36 m climb at 3%, a minute at the lights, a sprint, then ten minutes
+// off the recording before riding home
+const route = ride([
+  { seconds: 200, speed: 6 },
+  { seconds: 300, speed: 4, altitude: (t) => 10 + t * 0.12 },
+  { seconds: 60, altitude: () => 46 },
+  { seconds: 100, speed: 6, altitude: () => 46 },
+  { seconds: 10, speed: 11, altitude: () => 46 },
+  { seconds: 100, speed: 6, altitude: () => 46 },
+  { seconds: 300, speed: 6, altitude: () => 46, gap: 600 },
+]);
+const splits = computeSplits(route, SPLIT_DISTANCES.km, DEFAULT_TRACK_FILTER.elevationThreshold);
+const features = extractRideFeatures(route, splits, SPLIT_DISTANCES.km);
+
+describe("extractRideFeatures", () => {
+  it("finds the climb with its gain, grade and pace", () => {
+    expect(features.climbs).toHaveLength(1);
+    const [climb] = features.climbs;
+    expect(climb.id).toBe("climb-1");
+    expect(climb.gain).toBeCloseTo(36, 0);
+    expect(climb.avgGrade).toBeCloseTo(3, 0);
+    // It starts once the road is 2 m above the bottom, a few seconds in
+    expect(climb.length).toBeGreaterThan(1100);
+    expect(climb.length).toBeLessThanOrEqual(1200);
+    expect(climb.duration).toBeCloseTo(climb.length / 4, -1);
+    expect(climb.vam).toBeCloseTo((climb.gain / climb.duration) * 3600, 6);
+  });
+
+  it("counts the halt and the gap in the recording as stops", () => {
+    expect(features.stops.map((s) => s.duration)).toEqual([60, 600]);
+    expect(features.stoppedTime).toBe(660);
+    // The gap is pinned to the last fix before it
+    const lastBeforeGap = route.findIndex((p) => p.segmentStart) - 1;
+    expect(features.stops[1].longitude).toBe(route[lastBeforeGap].longitude);
+  });
+
+  it("picks out the sprint against the moving speed, not the elapsed one", () => {
+    expect(features.sprints).toHaveLength(1);
+    const [sprint] = features.sprints;
+    expect(sprint.peakSpeed).toBe(11);
+    expect(sprint.entrySpeed).toBe(6);
+    expect(sprint.duration).toBeGreaterThanOrEqual(9);
+  });
+
+  it("describes the pacing without the time off the bike", () => {
+    const { pacing } = features;
+    // The climb slows the second kilometre; the gap doesn't slow the fourth
+    expect(pacing.slowestSplit).toBe(2);
+    expect(pacing.trend).toBe("negative");
+    expect(pacing.secondHalfSpeed).toBeCloseTo(6, 0);
+    expect(pacing.speedVariability).toBeGreaterThan(0);
+    expect(pacing.speedVariability).toBeLessThan(30);
+  });
+
+  it("anchors every split in the middle of its distance", () => {
+    expect(features.splits.map((s) => s.id)).toEqual(splits.map((s) => `split-${s.index}`));
+    expect(features.splits[0].distance).toBeCloseTo(500, -1);
+    expect(featureAnchors(features)).toHaveLength(1 + 2 + 1 + splits.length);
+  });
+});
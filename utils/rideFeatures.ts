@@ -0,0 +1,267 @@
+
+import { RoutePoint } from "../types";
+import { cumulativeDistances, pointGradients } from "./geo";
+import { detectClimbs, indexAtDistance } from "./course";
+import { Split } from "./splits";
+
+// Turns a track into a handful of structured facts (climbs, stops, sprints,
+// pacing) for the AI coach. Every feature has an id the model can refer back
+// to and a position, so its comments can be pinned to the map.
+
+export interface FeatureAnchor {
+  id: string; // e.g. "climb-2"; unique within one ride
+  latitude: number;
+  longitude: number;
+  distance: number; // metres along the ride
+}
+
+export interface ClimbFeature extends FeatureAnchor {
+  length: number; // metres
+  gain: number; // metres
+  avgGrade: number; // %
+  maxGrade: number; // %, over ~100 m
+  duration: number; // seconds
+  vam: number; // metres climbed per hour
+}
+
+export interface StopFeature extends FeatureAnchor {
+  duration: number; // seconds
+}
+
+export interface SprintFeature extends FeatureAnchor {
+  duration: number; // seconds
+  entrySpeed: number; // m/s just before the effort
+  peakSpeed: number; // m/s
+}
+
+export interface SplitFeature extends FeatureAnchor {
+  index: number;
+  avgSpeed: number; // m/s
+  elevationGain: number; // metres
+}
+
+export type PacingTrend = "negative" | "even" | "fading";
+
+export interface PacingFeatures {
+  speedVariability: number; // %, coefficient of variation of moving speed
+  splitVariability: number; // %, coefficient of variation of full-split speeds
+  firstHalfSpeed: number; // m/s over the first half of the full splits
+  secondHalfSpeed: number;
+  trend: PacingTrend | null; // null with fewer than two full splits
+  fastestSplit: number | null; // split index
+  slowestSplit: number | null;
+}
+
+export interface RideFeatures {
+  climbs: ClimbFeature[];
+  stops: StopFeature[];
+  sprints: SprintFeature[];
+  splits: SplitFeature[];
+  pacing: PacingFeatures;
+  stoppedTime: number; // seconds
+}
+
+// Below this the rider is standing still (same as the auto-pause default)
+const STOP_SPEED = 0.8; // m/s
+// Shorter halts (junctions, lights) are left out
+const MIN_STOP_DURATION = 30; // seconds
+// A sprint is a hard effort well above the ride's cruising speed, not a descent
+const SPRINT_FACTOR = 1.3; // times the average moving speed
+const MIN_SPRINT_DURATION = 5; // seconds
+const MAX_SPRINT_GRADE = -1; // %; steeper downhill doesn't count
+// Halves whose speeds differ by less than this count as evenly paced
+const EVEN_PACING = 2; // %
+// Keep the prompt compact on very long rides
+const MAX_CLIMBS = 15;
+const MAX_STOPS = 15;
+const MAX_SPRINTS = 5;
+
+type Anchored<T> = Omit<T, "id">;
+
+// Biggest `limit` items by `size`, back in ride order, numbered from 1
+const pick = <T extends Anchored<FeatureAnchor>>(items: T[], limit: number, size: (item: T) => number, prefix: string) =>
+  [...items]
+    .sort((a, b) => size(b) - size(a))
+    .slice(0, limit)
+    .sort((a, b) => a.distance - b.distance)
+    .map((item, i) => ({ id: `${prefix}-${i + 1}`, ...item }));
+
+const anchorAt = (route: RoutePoint[], distances: number[], i: number): Anchored<FeatureAnchor> => ({
+  latitude: route[i].latitude,
+  longitude: route[i].longitude,
+  distance: distances[i],
+});
+
+// Time-weighted coefficient of variation, in %
+const variability = (samples: { value: number; weight: number }[]): number => {
+  const total = samples.reduce((sum, s) => sum + s.weight, 0);
+  if (total <= 0) return 0;
+  const mean = samples.reduce((sum, s) => sum + s.value * s.weight, 0) / total;
+  if (mean <= 0) return 0;
+  const variance = samples.reduce((sum, s) => sum + (s.value - mean) ** 2 * s.weight, 0) / total;
+  return (Math.sqrt(variance) / mean) * 100;
+};
+
+const findClimbs = (route: RoutePoint[], distances: number[], elapsed: number[]): Anchored<ClimbFeature>[] => {
+  const gradients = pointGradients(route, distances, 100);
+  return detectClimbs(route, distances).map((climb) => {
+    const from = indexAtDistance(distances, climb.start);
+    const to = indexAtDistance(distances, climb.end);
+    const duration = elapsed[to] - elapsed[from];
+    return {
+      ...anchorAt(route, distances, from),
+      length: climb.end - climb.start,
+      gain: climb.gain,
+      avgGrade: climb.grade,
+      maxGrade: Math.max(climb.grade, ...gradients.slice(from, to + 1)),
+      duration,
+      vam: duration > 0 ? (climb.gain / duration) * 3600 : 0,
+    };
+  });
+};
+
+// Long halts while recording, plus recording gaps (manual pauses) that long
+const findStops = (route: RoutePoint[], distances: number[]): Anchored<StopFeature>[] => {
+  const stops: Anchored<StopFeature>[] = [];
+  let stoppedFrom: number | null = null;
+
+  const close = (to: number) => {
+    if (stoppedFrom === null) return;
+    const duration = (route[to].timestamp - route[stoppedFrom].timestamp) / 1000;
+    if (duration >= MIN_STOP_DURATION) stops.push({ ...anchorAt(route, distances, stoppedFrom), duration });
+    stoppedFrom = null;
+  };
+
+  route.forEach((p, i) => {
+    if (i > 0 && p.segmentStart) {
+      close(i - 1);
+      const gap = (p.timestamp - route[i - 1].timestamp) / 1000;
+      if (gap >= MIN_STOP_DURATION) stops.push({ ...anchorAt(route, distances, i - 1), duration: gap });
+    }
+    if (p.speed < STOP_SPEED) {
+      if (stoppedFrom === null) stoppedFrom = i;
+    } else {
+      close(i);
+    }
+  });
+  close(route.length - 1);
+  return stops;
+};
+
+const findSprints = (route: RoutePoint[], distances: number[], cruisingSpeed: number): Anchored<SprintFeature>[] => {
+  if (cruisingSpeed <= 0) return [];
+  const gradients = pointGradients(route, distances);
+  const threshold = cruisingSpeed * SPRINT_FACTOR;
+  const sprints: Anchored<SprintFeature>[] = [];
+  let from: number | null = null;
+
+  const close = (to: number) => {
+    if (from === null) return;
+    const duration = (route[to].timestamp - route[from].timestamp) / 1000;
+    if (duration >= MIN_SPRINT_DURATION) {
+      const efforts = route.slice(from, to + 1);
+      sprints.push({
+        ...anchorAt(route, distances, from),
+        duration,
+        entrySpeed: from > 0 && !route[from].segmentStart ? route[from - 1].speed : route[from].speed,
+        peakSpeed: Math.max(...efforts.map((p) => p.speed)),
+      });
+    }
+    from = null;
+  };
+
+  route.forEach((p, i) => {
+    if (p.segmentStart) close(i - 1);
+    if (p.speed >= threshold && gradients[i] > MAX_SPRINT_GRADE) {
+      if (from === null) from = i;
+    } else {
+      close(Math.max(i - 1, 0));
+    }
+  });
+  close(route.length - 1);
+  return sprints;
+};
+
+// Anchored at the middle of each split
+const placeSplits = (route: RoutePoint[], distances: number[], splits: Split[]): SplitFeature[] => {
+  let covered = 0;
+  return splits.map((split) => {
+    const i = indexAtDistance(distances, covered + split.distance / 2);
+    covered += split.distance;
+    return {
+      id: `split-${split.index}`,
+      ...anchorAt(route, distances, i),
+      index: split.index,
+      avgSpeed: split.avgSpeed,
+      elevationGain: split.elevationGain,
+    };
+  });
+};
+
+const describePacing = (route: RoutePoint[], splits: Split[], splitDistance: number): PacingFeatures => {
+  const moving: { value: number; weight: number }[] = [];
+  route.forEach((p, i) => {
+    if (i === 0 || p.segmentStart || p.speed < STOP_SPEED) return;
+    moving.push({ value: p.speed, weight: Math.max(p.timestamp - route[i - 1].timestamp, 0) });
+  });
+
+  // The last split is usually a stub and would skew the comparison
+  const full = splits.filter((s) => s.distance >= splitDistance * 0.99 && s.duration > 0);
+  const speedOf = (list: Split[]) => {
+    const duration = list.reduce((sum, s) => sum + s.duration, 0);
+    return duration > 0 ? list.reduce((sum, s) => sum + s.distance, 0) / duration : 0;
+  };
+  const half = Math.floor(full.length / 2);
+  const firstHalfSpeed = speedOf(full.slice(0, half));
+  const secondHalfSpeed = speedOf(full.slice(full.length - half));
+  const change = firstHalfSpeed > 0 ? ((secondHalfSpeed - firstHalfSpeed) / firstHalfSpeed) * 100 : 0;
+  const bySpeed = [...full].sort((a, b) => b.avgSpeed - a.avgSpeed);
+
+  return {
+    speedVariability: variability(moving),
+    splitVariability: variability(full.map((s) => ({ value: s.avgSpeed, weight: s.duration }))),
+    firstHalfSpeed,
+    secondHalfSpeed,
+    trend: half === 0 ? null : change > EVEN_PACING ? "negative" : change < -EVEN_PACING ? "fading" : "even",
+    fastestSplit: bySpeed[0]?.index ?? null,
+    slowestSplit: bySpeed[bySpeed.length - 1]?.index ?? null,
+  };
+};
+
+export const extractRideFeatures = (route: RoutePoint[], splits: Split[], splitDistance: number): RideFeatures => {
+  const distances = cumulativeDistances(route);
+  const elapsed: number[] = [];
+  let total = 0;
+  let movingTime = 0;
+  route.forEach((p, i) => {
+    const dt = i > 0 && !p.segmentStart ? Math.max(p.timestamp - route[i - 1].timestamp, 0) / 1000 : 0;
+    total += dt;
+    if (p.speed >= STOP_SPEED) movingTime += dt;
+    elapsed.push(total);
+  });
+  const cruisingSpeed = movingTime > 0 ? (distances[distances.length - 1] ?? 0) / movingTime : 0;
+  const stops = findStops(route, distances);
+
+  return {
+    climbs: pick(findClimbs(route, distances, elapsed), MAX_CLIMBS, (c) => c.gain, "climb"),
+    stops: pick(stops, MAX_STOPS, (s) => s.duration, "stop"),
+    sprints: pick(findSprints(route, distances, cruisingSpeed), MAX_SPRINTS, (s) => s.peakSpeed, "sprint"),
+    splits: placeSplits(route, distances, splits),
+    pacing: describePacing(route, splits, splitDistance),
+    stoppedTime: stops.reduce((sum, s) => sum + s.duration, 0),
+  };
+};
+
+// "climb-2" -> "Climb 2"
+export const featureLabel = (id: string): string => {
+  const [kind, number] = id.split("-");
+  return `${kind.charAt(0).toUpperCase()}${kind.slice(1)} ${number}`;
+};
+
+// Every anchor in the ride, for looking up what a model note refers to
+export const featureAnchors = (features: RideFeatures): FeatureAnchor[] => [
+  ...features.climbs,
+  ...features.stops,
+  ...features.sprints,
+  ...features.splits,
+];
@@ -0,0 +1,127 @@
+
+import { RoutePoint } from "../types";
+import { deriveMissingSpeeds } from "./geo";
+import { decodeFitRoute } from "./fit";
+
+export interface ImportedTrack {
+  name: string | null;
+  route: RoutePoint[];
+}
+
+const parseXml = (text: string): Document => {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("File is not valid XML.");
+  }
+  return doc;
+};
+
+// Namespace-agnostic lookups; exporters disagree on prefixes
+const children = (el: Element | Document, localName: string): Element[] =>
+  Array.from(el.getElementsByTagNameNS("*", localName));
+
+const childText = (el: Element, localName: string): string | null =>
+  children(el, localName)[0]?.textContent?.trim() || null;
+
+const childNumber = (el: Element, localName: string): number | null => {
+  const text = childText(el, localName);
+  if (text === null) return null;
+  const value = parseFloat(text);
+  return Number.isFinite(value) ? value : null;
+};
+
+const parseTime = (text: string | null): number => {
+  const time = text ? Date.parse(text) : NaN;
+  return Number.isFinite(time) ? time : 0;
+};
+
+// Points without a <time> get timestamp 0; callers that need timing must check
+export const parseGPX = (text: string): ImportedTrack => {
+  const doc = parseXml(text);
+  const trackSegments = children(doc, "trkseg");
+  const groups = trackSegments.length > 0
+    ? trackSegments.map((seg) => children(seg, "trkpt"))
+    : [children(doc, "rtept")];
+
+  const route: RoutePoint[] = [];
+  groups.forEach((points) => {
+    points.forEach((pt, i) => {
+      const latitude = parseFloat(pt.getAttribute("lat") ?? "");
+      const longitude = parseFloat(pt.getAttribute("lon") ?? "");
+      if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return;
+      const point: RoutePoint = {
+        latitude,
+        longitude,
+        timestamp: parseTime(childText(pt, "time")),
+        speed: childNumber(pt, "speed") ?? 0,
+        altitude: childNumber(pt, "ele"),
+      };
+      if (i === 0 && route.length > 0) point.segmentStart = true;
+      route.push(point);
+    });
+  });
+
+  const metadata = children(doc, "metadata")[0];
+  const trk = children(doc, "trk")[0];
+  const name = (metadata && childText(metadata, "name")) || (trk && childText(trk, "name")) || null;
+  return { name, route };
+};
+
+export const parseTCX = (text: string): ImportedTrack => {
+  const doc = parseXml(text);
+  const route: RoutePoint[] = [];
+
+  children(doc, "Track").forEach((track) => {
+    let first = true;
+    children(track, "Trackpoint").forEach((tp) => {
+      const latitude = childNumber(tp, "LatitudeDegrees");
+      const longitude = childNumber(tp, "LongitudeDegrees");
+      if (latitude === null || longitude === null) return;
+      const point: RoutePoint = {
+        latitude,
+        longitude,
+        timestamp: parseTime(childText(tp, "Time")),
+        speed: childNumber(tp, "Speed") ?? 0,
+        altitude: childNumber(tp, "AltitudeMeters"),
+      };
+      if (first && route.length > 0) point.segmentStart = true;
+      first = false;
+      route.push(point);
+    });
+  });
+
+  return { name: childText(doc.documentElement, "Notes"), route };
+};
+
+export const parseFIT = (buffer: ArrayBuffer): ImportedTrack => ({
+  name: null,
+  route: decodeFitRoute(buffer),
+});
+
+const baseName = (fileName: string): string => fileName.replace(/\.[^.]+$/, "");
+
+// Parses a ride file picked by the user into a track ready for stats and AI analysis
+export const importRideFile = async (file: File): Promise<ImportedTrack> => {
+  const extension = file.name.split(".").pop()?.toLowerCase();
+  let track: ImportedTrack;
+  if (extension === "fit") {
+    track = parseFIT(await file.arrayBuffer());
+  } else if (extension === "gpx") {
+    track = parseGPX(await file.text());
+  } else if (extension === "tcx") {
+    track = parseTCX(await file.text());
+  } else {
+    throw new Error("Unsupported file type. Please choose a .gpx, .tcx or .fit file.");
+  }
+
+  if (track.route.length < 2) throw new Error("The file does not contain a recorded track.");
+  if (track.route.some((p) => p.timestamp === 0)) {
+    throw new Error("The track has no timestamps, so it can't be analyzed as a ride.");
+  }
+
+  const route = [...track.route].sort((a, b) => a.timestamp - b.timestamp);
+  return {
+    name: track.name ?? baseName(file.name),
+    route: deriveMissingSpeeds(route),
+  };
+};
@@ -0,0 +1,240 @@
+
+import { describe, expect, it } from "vitest";
+import { RoutePoint } from "../types";
+import { DEFAULT_AUTO_PAUSE } from "./autoPause";
+import { calculateDistance } from "./geo";
+import { DEFAULT_RIDER_PROFILE } from "./power";
+import { RideSession, RideSessionConfig, createRideSession, summarizeTrack } from "./rideSession";
+import { DEFAULT_TRACK_FILTER } from "./trackFilter";
+import { syntheticTrack } from "./__fixtures__/syntheticTracks";
+
+const config: RideSessionConfig = {
+  autoPause: DEFAULT_AUTO_PAUSE,
+  trackFilter: DEFAULT_TRACK_FILTER,
+  profile: DEFAULT_RIDER_PROFILE,
+};
+// Clean input, so numbers can be checked exactly against the track
+const unfiltered: RideSessionConfig = {
+  ...config,
+  autoPause: { ...DEFAULT_AUTO_PAUSE, enabled: false },
+  trackFilter: { ...DEFAULT_TRACK_FILTER, smoothing: false },
+};
+
+const pathLength = (route: RoutePoint[]) =>
+  route.reduce((sum, p, i) => (i === 0 || p.segmentStart ? sum : sum + calculateDistance(route[i - 1], p)), 0);
+
+// Drives a session the way App does: a clock tick, then the fix
+const feed = (session: RideSession, track: RoutePoint[]) =>
+  track.map((p) => {
+    session.tick(p.timestamp);
+    return session.addFix(p);
+  });
+
+describe("createRideSession", () => {
+  it("adds up distance, time and speed along a clean track", () => {
+    const track = syntheticTrack({ seconds: 120, speed: 6 });
+    const session = createRideSession(unfiltered, track[0].timestamp);
+    feed(session, track);
+    const { route, stats, pauseState } = session.getSnapshot();
+
+    expect(route).toEqual(track);
+    expect(pauseState).toBe("running");
+    expect(stats.totalDistance).toBeCloseTo(pathLength(track), 6);
+    expect(stats.duration).toBe(120);
+    expect(stats.movingTime).toBe(120);
+    expect(stats.avgSpeed).toBeCloseTo(stats.totalDistance / 120, 6);
+    expect(stats.maxSpeed).toBe(6);
+    expect(stats.startTime).toBe(track[0].timestamp);
+    expect(stats.avgPower).toBeGreaterThan(0);
+    expect(stats.calories).toBeGreaterThan(0);
+  });
+
+  it("drops fixes that repeat or go back in time", () => {
+    const track = syntheticTrack({ seconds: 3, speed: 6 });
+    const session = createRideSession(unfiltered, track[0].timestamp);
+    feed(session, track);
+    expect(session.addFix(track[3])).toBeNull();
+    expect(session.addFix(track[1])).toBeNull();
+    expect(session.getSnapshot().route).toHaveLength(track.length);
+  });
+
+  it("counts climbing once it clears the elevation threshold", () => {
+    // 40 m up over ten minutes, with ±2 m of altitude noise on top
+    const track = syntheticTrack({
+      seconds: 600,
+      speed: 5,
+      altitude: (t) => 100 + (t / 600) * 40 + (t % 2 === 0 ? 2 : -2),
+    });
+    const session = createRideSession(unfiltered, track[0].timestamp);
+    feed(session, track);
+    const { stats } = session.getSnapshot();
+    expect(stats.elevationGain).toBeGreaterThan(34);
+    expect(stats.elevationGain).toBeLessThanOrEqual(44);
+    expect(stats.elevationLoss).toBeLessThan(5);
+    // ±2 m of noise over the 100 m grade window can read as up to 4% on top
+    expect(stats.maxGrade).toBeGreaterThan(1);
+    expect(stats.maxGrade).toBeLessThan(6);
+  });
+
+  it("drops fixes while manually paused and starts a new segment on resume", () => {
+    const before = syntheticTrack({ seconds: 60, speed: 6 });
+    const during = syntheticTrack({ seconds: 60, speed: 1.5, startTime: before[60].timestamp + 1000, startOffset: 360 });
+    const after = syntheticTrack({ seconds: 60, speed: 6, startTime: during[60].timestamp + 1000, startOffset: 450 });
+    const session = createRideSession(unfiltered, before[0].timestamp);
+
+    feed(session, before);
+    session.pause();
+    expect(feed(session, during).every((p) => p === null)).toBe(true);
+    session.resume();
+    feed(session, after);
+
+    const { route, stats } = session.getSnapshot();
+    expect(route).toHaveLength(before.length + after.length);
+    expect(route[before.length].segmentStart).toBe(true);
+    // Walking the bike isn't riding: neither the distance nor the time counts,
+    // only the second from pressing resume to the next fix
+    expect(stats.totalDistance).toBeCloseTo(pathLength(before) + pathLength(after), 6);
+    expect(stats.movingTime).toBe(121);
+    expect(stats.duration).toBe(182);
+  });
+
+  it("leaves the time across a gap out of the ride", () => {
+    const before = syntheticTrack({ seconds: 60, speed: 6 });
+    const after = syntheticTrack({ seconds: 60, speed: 6, startTime: before[60].timestamp + 600_000, startOffset: 5000 });
+    const session = createRideSession(unfiltered, before[0].timestamp);
+    feed(session, before);
+    session.markGap(after[0].timestamp);
+    feed(session, after);
+
+    const { route, stats } = session.getSnapshot();
+    expect(route[before.length].segmentStart).toBe(true);
+    expect(stats.duration).toBe(120);
+    expect(stats.totalDistance).toBeCloseTo(pathLength(before) + pathLength(after), 6);
+  });
+
+  it("keeps the clock running across a broken segment", () => {
+    const before = syntheticTrack({ seconds: 60, speed: 6 });
+    const after = syntheticTrack({ seconds: 60, speed: 6, startTime: before[60].timestamp + 30_000, startOffset: 540 });
+    const session = createRideSession(unfiltered, before[0].timestamp);
+    feed(session, before);
+    session.breakSegment();
+    feed(session, after);
+
+    const { route, stats } = session.getSnapshot();
+    expect(route[before.length].segmentStart).toBe(true);
+    expect(stats.duration).toBe(150);
+    expect(stats.totalDistance).toBeCloseTo(pathLength(before) + pathLength(after), 6);
+  });
+
+  it("closes a lap at the next recorded fix", () => {
+    const track = syntheticTrack({ seconds: 10, speed: 6 });
+    const session = createRideSession(unfiltered, track[0].timestamp);
+    session.lap(); // nothing recorded yet; ignored
+    feed(session, track.slice(0, 5));
+    session.lap();
+    feed(session, track.slice(5));
+    const laps = session.getSnapshot().route.map((p, i) => (p.lapEnd ? i : -1)).filter((i) => i >= 0);
+    expect(laps).toEqual([5]);
+  });
+
+  it("auto-pauses at a stop and picks up again when the rider sets off", () => {
+    const ride = syntheticTrack({ seconds: 60, speed: 6 });
+    const stop = syntheticTrack({ seconds: 60, startTime: ride[60].timestamp + 1000, startOffset: 360 });
+    const again = syntheticTrack({ seconds: 60, speed: 6, startTime: stop[60].timestamp + 1000, startOffset: 366 });
+    const session = createRideSession(config, ride[0].timestamp);
+
+    feed(session, [...ride, ...stop]);
+    expect(session.getSnapshot().pauseState).toBe("autoPaused");
+    feed(session, again);
+    const { stats, pauseState } = session.getSnapshot();
+    expect(pauseState).toBe("running");
+    expect(stats.movingTime).toBeGreaterThan(120);
+    expect(stats.movingTime).toBeLessThan(135);
+    expect(stats.duration).toBe(182);
+  });
+
+  it("stops auto-pausing when the setting is turned off mid-ride", () => {
+    const ride = syntheticTrack({ seconds: 30, speed: 6 });
+    const stop = syntheticTrack({ seconds: 30, startTime: ride[30].timestamp + 1000, startOffset: 180 });
+    const session = createRideSession(config, ride[0].timestamp);
+    feed(session, [...ride, ...stop]);
+    expect(session.getSnapshot().pauseState).toBe("autoPaused");
+
+    session.updateConfig({ ...config, autoPause: { ...DEFAULT_AUTO_PAUSE, enabled: false } });
+    session.tick(stop[30].timestamp + 1000);
+    expect(session.getSnapshot().pauseState).toBe("running");
+  });
+
+  it("carries on from a restored ride without touching the saved track", () => {
+    const before = syntheticTrack({ seconds: 60, speed: 6 });
+    const first = createRideSession(unfiltered, before[0].timestamp);
+    feed(first, before);
+    const saved = first.getSnapshot();
+    const savedRoute = [...saved.route];
+
+    const after = syntheticTrack({ seconds: 60, speed: 6, startTime: before[60].timestamp + 120_000, startOffset: 1000 });
+    const resumed = createRideSession(unfiltered, null, { route: saved.route, stats: saved.stats });
+    feed(resumed, after);
+    const { route, stats } = resumed.getSnapshot();
+
+    expect(saved.route).toEqual(savedRoute);
+    expect(route).toHaveLength(before.length + after.length);
+    expect(route[before.length].segmentStart).toBe(true);
+    expect(stats.startTime).toBe(before[0].timestamp);
+    expect(stats.totalDistance).toBeCloseTo(pathLength(before) + pathLength(after), 6);
+    expect(stats.duration).toBe(120);
+  });
+
+  it("hands out snapshots that later fixes don't change", () => {
+    const track = syntheticTrack({ seconds: 10, speed: 6 });
+    const session = createRideSession(unfiltered, track[0].timestamp);
+    feed(session, track.slice(0, 5));
+    const snapshot = session.getSnapshot();
+    // No new fix: the same array, so renders keyed on it can be skipped
+    session.tick(track[5].timestamp);
+    expect(session.getSnapshot().route).toBe(snapshot.route);
+
+    feed(session, track.slice(5));
+    expect(snapshot.route).toHaveLength(5);
+    expect(session.getSnapshot().route).toHaveLength(track.length);
+  });
+});
+
+describe("summarizeTrack", () => {
+  it("gives the same numbers as recording the ride live", () => {
+    const track = syntheticTrack({ seconds: 600, speed: 7, jitter: 3, speedJitter: 0.5 });
+    const live = createRideSession(config, track[0].timestamp);
+    feed(live, track);
+    expect(summarizeTrack(track, config)).toEqual(live.getSnapshot());
+  });
+
+  it("turns the file's segments into gaps in the clock", () => {
+    const before = syntheticTrack({ seconds: 60, speed: 6 });
+    const after = syntheticTrack({ seconds: 60, speed: 6, startTime: before[60].timestamp + 600_000, startOffset: 5000 });
+    after[0] = { ...after[0], segmentStart: true };
+    const { route, stats } = summarizeTrack([...before, ...after], unfiltered);
+    expect(route[before.length].segmentStart).toBe(true);
+    expect(stats.duration).toBe(120);
+  });
+
+  it("keeps laps from the file", () => {
+    const track = syntheticTrack({ seconds: 10, speed: 6 });
+    track[4] = { ...track[4], lapEnd: true };
+    const { route } = summarizeTrack(track, unfiltered);
+    expect(route.filter((p) => p.lapEnd)).toHaveLength(1);
+    expect(route[4].lapEnd).toBe(true);
+  });
+
+  it("handles a 50,000-point file in linear time", () => {
+    // 14 hours at one fix a second, about the largest file we expect
+    const track = syntheticTrack({ seconds: 49_999, speed: 7, jitter: 3 });
+    const startedAt = performance.now();
+    const { route, stats } = summarizeTrack(track, config);
+    const elapsed = performance.now() - startedAt;
+
+    expect(route).toHaveLength(50_000);
+    expect(stats.totalDistance).toBeGreaterThan(7 * 49_999 * 0.95);
+    // Copying the track on every fix took ~18 s here
+    expect(elapsed).toBeLessThan(3000);
+  });
+});
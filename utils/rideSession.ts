@@ -0,0 +1,274 @@
+
+import { PauseState, RideStats, RoutePoint } from "../types";
+import { calculateDistance, accumulateElevation, ElevationState, INITIAL_ELEVATION } from "./geo";
+import { AutoPauseSettings, detectMovement, detectStop } from "./autoPause";
+import { TrackFilterSettings, createTrackFilter } from "./trackFilter";
+import { NORMALIZED_POWER_WINDOW, RiderProfile, caloriesFromWork, effectiveFtp, estimatePower, trainingLoad } from "./power";
+
+// Framework-free ride recorder: feed it raw fixes and clock ticks, read back
+// the cleaned track and complete stats. App drives it live; imports replay a
+// whole file through it so both paths produce identical numbers.
+
+export interface RideSessionConfig {
+  autoPause: AutoPauseSettings;
+  trackFilter: TrackFilterSettings;
+  profile: RiderProfile; // for the power and calorie estimates
+}
+
+export interface RideSessionSnapshot {
+  route: RoutePoint[];
+  stats: RideStats;
+  pauseState: PauseState;
+}
+
+export interface RideSession {
+  // Returns the point as recorded, or null if it was filtered out or dropped
+  addFix: (point: RoutePoint) => RoutePoint | null;
+  tick: (now: number) => void;
+  // Restarts the clock without counting the time since the last tick
+  markGap: (now: number) => void;
+  // Starts a new segment at the next fix; the clock keeps running
+  breakSegment: () => void;
+  pause: () => void;
+  resume: () => void;
+  // Closes the current lap at the next recorded fix
+  lap: () => void;
+  updateConfig: (config: RideSessionConfig) => void;
+  getSnapshot: () => RideSessionSnapshot;
+}
+
+export interface RideSessionRestore {
+  route: RoutePoint[];
+  stats: RideStats;
+}
+
+// Grade is measured over at least this much horizontal distance; shorter
+// spans turn a couple of metres of altitude noise into 20% "walls".
+const GRADE_WINDOW = 100; // metres
+
+// Fixes further apart than this (signal loss) add distance but no power
+const MAX_POWER_INTERVAL = 30; // seconds
+// GPS speed jitter would otherwise read as hard sprints and braking
+const MAX_ACCELERATION = 3; // m/s²
+
+export const createRideSession = (
+  initialConfig: RideSessionConfig,
+  startTime: number | null,
+  restore?: RideSessionRestore
+): RideSession => {
+  let config = initialConfig;
+  let filter = createTrackFilter(config.trackFilter);
+  // Appended in place; a long ride or a 50k-point import would otherwise copy
+  // the whole track on every fix. Snapshots hand out a copy instead.
+  const route: RoutePoint[] = [...(restore?.route ?? [])];
+  let publishedRoute: RoutePoint[] = restore?.route ?? [];
+  let pauseState: PauseState = "running";
+
+  const restored = restore?.stats;
+  let totalDistance = restored?.totalDistance ?? 0;
+  let maxSpeed = restored?.maxSpeed ?? 0;
+  let elapsedMs = (restored?.duration ?? 0) * 1000;
+  let movingMs = (restored?.movingTime ?? 0) * 1000;
+  let gain = restored?.elevationGain ?? 0;
+  let loss = restored?.elevationLoss ?? 0;
+  let maxGrade = restored?.maxGrade ?? 0;
+  let work = (restored?.work ?? 0) * 1000; // joules
+  // Time-weighted sum of the rolling average power to the 4th, for NP
+  let npSum = Math.pow(restored?.normalizedPower ?? 0, 4) * (restored?.movingTime ?? 0);
+  let npSeconds = restored?.normalizedPower ? restored.movingTime : 0;
+  const rideStart = restored?.startTime ?? startTime;
+
+  // Per-segment state; cleared whenever the track has a gap (the filter
+  // resets itself on the segmentStart point)
+  let lastCounted: RoutePoint | null = null;
+  let elevation: ElevationState = INITIAL_ELEVATION;
+  let gradeSamples: { distance: number; altitude: number }[] = [];
+  let grade = 0;
+  let lastSpeed: number | null = null;
+  let powerWindow: { seconds: number; power: number }[] = [];
+  let lastTick: number | null = null;
+  let gapPending = route.length > 0;
+  let lapPending = false;
+
+  const startSegment = () => {
+    lastCounted = null;
+    elevation = INITIAL_ELEVATION;
+    gradeSamples = [];
+    grade = 0;
+    lastSpeed = null;
+    powerWindow = [];
+  };
+
+  const updateGrade = (altitude: number | null) => {
+    if (altitude === null) return;
+    gradeSamples.push({ distance: totalDistance, altitude });
+    while (gradeSamples.length > 2 && totalDistance - gradeSamples[1].distance >= GRADE_WINDOW) {
+      gradeSamples.shift();
+    }
+    const oldest = gradeSamples[0];
+    const run = totalDistance - oldest.distance;
+    if (run >= GRADE_WINDOW) {
+      grade = ((altitude - oldest.altitude) / run) * 100;
+      maxGrade = Math.max(maxGrade, grade);
+    }
+  };
+
+  const addPower = (speed: number, dt: number) => {
+    const acceleration = lastSpeed === null
+      ? 0
+      : Math.min(Math.max((speed - lastSpeed) / dt, -MAX_ACCELERATION), MAX_ACCELERATION);
+    lastSpeed = speed;
+    const power = estimatePower(config.profile, speed, acceleration, grade);
+    work += power * dt;
+
+    powerWindow.push({ seconds: dt, power });
+    let windowSeconds = powerWindow.reduce((sum, s) => sum + s.seconds, 0);
+    while (powerWindow.length > 1 && windowSeconds - powerWindow[0].seconds >= NORMALIZED_POWER_WINDOW) {
+      windowSeconds -= powerWindow.shift()!.seconds;
+    }
+    const rolling = powerWindow.reduce((sum, s) => sum + s.power * s.seconds, 0) / windowSeconds;
+    npSum += Math.pow(rolling, 4) * dt;
+    npSeconds += dt;
+  };
+
+  const evaluateAutoPause = (now: number) => {
+    if (pauseState === "paused") return;
+    const { autoPause } = config;
+    if (pauseState === "autoPaused") {
+      if (!autoPause.enabled || detectMovement(route, autoPause)) pauseState = "running";
+    } else if (autoPause.enabled && detectStop(route, autoPause, now)) {
+      pauseState = "autoPaused";
+    }
+  };
+
+  const addFix = (raw: RoutePoint): RoutePoint | null => {
+    // Manually paused: drop fixes until the rider resumes
+    if (pauseState === "paused") return null;
+    const last = route[route.length - 1];
+    // Prevent duplicates from same timestamp (warm-up and watch can report the same fix)
+    if (last && raw.timestamp <= last.timestamp) return null;
+
+    const candidate = gapPending ? { ...raw, segmentStart: true } : raw;
+    const filtered = filter.accept(candidate);
+    // Too inaccurate or an implausible jump: wait for a better fix
+    if (!filtered) return null;
+    if (gapPending) {
+      gapPending = false;
+      startSegment();
+    }
+    let point = lapPending ? { ...filtered, lapEnd: true } : filtered;
+    lapPending = false;
+
+    route.push(point);
+    evaluateAutoPause(point.timestamp);
+    // Flagged so splits and laps can leave it out the way the stats below do
+    if (pauseState === "autoPaused") {
+      point = { ...point, autoPaused: true };
+      route[route.length - 1] = point;
+    }
+
+    const prevElevation = elevation;
+    elevation = accumulateElevation(elevation, point.altitude, config.trackFilter.elevationThreshold);
+
+    // Auto-paused fixes are kept for stop/go detection but add no distance
+    if (lastCounted && pauseState === "running") {
+      const distance = calculateDistance(lastCounted, point);
+      const dt = (point.timestamp - lastCounted.timestamp) / 1000;
+      totalDistance += distance;
+      maxSpeed = Math.max(maxSpeed, point.speed);
+      gain += elevation.gain - prevElevation.gain;
+      loss += elevation.loss - prevElevation.loss;
+      if (dt > 0 && dt <= MAX_POWER_INTERVAL) addPower(distance / dt, dt);
+      else lastSpeed = null;
+    } else {
+      lastSpeed = null;
+    }
+    if (pauseState === "running") updateGrade(point.altitude);
+    lastCounted = point;
+    return point;
+  };
+
+  const tick = (now: number) => {
+    if (lastTick !== null && now > lastTick) {
+      const dt = now - lastTick;
+      elapsedMs += dt;
+      if (pauseState === "running") movingMs += dt;
+    }
+    lastTick = now;
+    evaluateAutoPause(now);
+  };
+
+  const markGap = (now: number) => {
+    lastTick = now;
+    gapPending = route.length > 0;
+  };
+
+  const breakSegment = () => {
+    gapPending = route.length > 0;
+  };
+
+  const pause = () => {
+    pauseState = "paused";
+  };
+
+  // Distance covered while manually paused (e.g. walking the bike) is not
+  // joined to the track; the next fix starts a new segment.
+  const resume = () => {
+    if (pauseState !== "paused") return;
+    pauseState = "running";
+    gapPending = route.length > 0;
+  };
+
+  const lap = () => {
+    if (route.length > 0) lapPending = true;
+  };
+
+  const updateConfig = (next: RideSessionConfig) => {
+    if (next.trackFilter !== config.trackFilter) filter = createTrackFilter(next.trackFilter);
+    config = next;
+  };
+
+  const getSnapshot = (): RideSessionSnapshot => {
+    // Same array until the track grows, so React and memos see no change
+    if (publishedRoute.length !== route.length) publishedRoute = route.slice();
+    const movingSeconds = movingMs / 1000;
+    const normalizedPower = npSeconds > 0 ? Math.pow(npSum / npSeconds, 0.25) : 0;
+    const { intensityFactor, load } = trainingLoad(normalizedPower, movingSeconds, effectiveFtp(config.profile));
+    return {
+      route: publishedRoute,
+      pauseState,
+      stats: {
+        totalDistance,
+        avgSpeed: movingSeconds > 0 ? totalDistance / movingSeconds : 0,
+        maxSpeed,
+        duration: Math.floor(elapsedMs / 1000),
+        movingTime: Math.floor(movingSeconds),
+        startTime: rideStart,
+        elevationGain: gain,
+        elevationLoss: loss,
+        maxGrade,
+        calories: caloriesFromWork(work / 1000),
+        avgPower: movingSeconds > 0 ? work / movingSeconds : 0,
+        normalizedPower,
+        work: work / 1000,
+        intensityFactor,
+        trainingLoad: load,
+      },
+    };
+  };
+
+  return { addFix, tick, markGap, breakSegment, pause, resume, lap, updateConfig, getSnapshot };
+};
+
+// Replays a complete track (e.g. an imported file) through the live pipeline
+export const summarizeTrack = (track: RoutePoint[], config: RideSessionConfig): RideSessionSnapshot => {
+  const session = createRideSession(config, track[0]?.timestamp ?? null);
+  // The session decides where segments start; file gaps become clock gaps
+  track.forEach(({ segmentStart, lapEnd, ...point }) => {
+    if (segmentStart) session.markGap(point.timestamp);
+    else session.tick(point.timestamp);
+    if (lapEnd) session.lap();
+    session.addFix(point);
+  });
+  return session.getSnapshot();
+};
@@ -0,0 +1,51 @@
+
+export type RouteColorMode = "plain" | "speed" | "gradient";
+
+export const PLAIN_ROUTE_COLOR = "#84cc16";
+
+// Slow to fast: blue, cyan, lime, yellow, orange, red
+const SPEED_COLORS = ["#3b82f6", "#06b6d4", "#84cc16", "#eab308", "#f97316", "#ef4444"];
+
+// Upper bound (%) of each gradient band, steep descent to steep climb
+const GRADIENT_BANDS: [maxGrade: number, color: string][] = [
+  [-6, "#3b82f6"],
+  [-2, "#06b6d4"],
+  [2, "#84cc16"],
+  [5, "#eab308"],
+  [9, "#f97316"],
+  [Infinity, "#ef4444"],
+];
+
+export const speedColor = (speed: number, maxSpeed: number): string => {
+  if (maxSpeed <= 0) return SPEED_COLORS[0];
+  const band = Math.floor((speed / maxSpeed) * SPEED_COLORS.length);
+  return SPEED_COLORS[Math.min(Math.max(band, 0), SPEED_COLORS.length - 1)];
+};
+
+export const gradientColor = (grade: number): string =>
+  GRADIENT_BANDS.find(([maxGrade]) => grade < maxGrade)![1];
+
+export interface ColoredRun {
+  color: string;
+  indices: number[]; // consecutive point indices drawn as one path
+}
+
+// Splits runs of drawn points (see TrackGeometry.visibleRuns) into runs of a
+// single colour, so a long ride is drawn with a handful of paths rather than
+// one element per point. Each point's colour applies to the line leading into it.
+export const colorRuns = (runs: number[][], colorAt: (index: number) => string): ColoredRun[] => {
+  const colored: ColoredRun[] = [];
+  runs.forEach((run) => {
+    let current: ColoredRun | null = null;
+    for (let j = 1; j < run.length; j++) {
+      const color = colorAt(run[j]);
+      if (current && current.color === color) {
+        current.indices.push(run[j]);
+      } else {
+        current = { color, indices: [run[j - 1], run[j]] };
+        colored.push(current);
+      }
+    }
+  });
+  return colored;
+};
@@ -0,0 +1,117 @@
+
+import { RoutePoint, Segment, SegmentEffort, SegmentGate } from "../types";
+import { calculateBearing, calculateDistance, cumulativeDistances } from "./geo";
+
+// Passing within this distance of a gate counts as crossing it
+const GATE_RADIUS = 25; // metres
+// ...as long as the rider is heading within this much of the gate's direction
+const MAX_HEADING_DIFFERENCE = 90; // degrees
+// Gate bearings are measured over this much of the source route
+const BEARING_DISTANCE = 20; // metres
+// Ridden distance between the gates, relative to the segment; rules out
+// shortcuts and detours that happen to pass both gates
+const MIN_DISTANCE_RATIO = 0.8;
+const MAX_DISTANCE_RATIO = 1.25;
+
+export type SegmentShape = Pick<Segment, "start" | "end" | "distance" | "elevationGain">;
+export type EffortMatch = Omit<SegmentEffort, "id" | "segmentId" | "rideId">;
+
+// First index at least `distance` metres from `from`, stepping by `step`
+const pointAway = (route: RoutePoint[], from: number, step: 1 | -1, distance: number): number => {
+  let i = from;
+  while (i + step >= 0 && i + step < route.length && calculateDistance(route[from], route[i]) < distance) i += step;
+  return i;
+};
+
+// Gates sit on the source route at the chosen points, facing the direction of travel
+export const defineSegment = (route: RoutePoint[], startIndex: number, endIndex: number): SegmentShape | null => {
+  if (startIndex < 0 || endIndex >= route.length || endIndex <= startIndex) return null;
+  const distances = cumulativeDistances(route);
+  const first = route[startIndex];
+  const last = route[endIndex];
+  const start: SegmentGate = {
+    latitude: first.latitude,
+    longitude: first.longitude,
+    bearing: calculateBearing(first, route[pointAway(route, startIndex, 1, BEARING_DISTANCE)]),
+  };
+  const end: SegmentGate = {
+    latitude: last.latitude,
+    longitude: last.longitude,
+    bearing: calculateBearing(route[pointAway(route, endIndex, -1, BEARING_DISTANCE)], last),
+  };
+  const distance = distances[endIndex] - distances[startIndex];
+  if (distance <= GATE_RADIUS * 2) return null;
+  return {
+    start,
+    end,
+    distance,
+    elevationGain: first.altitude !== null && last.altitude !== null ? last.altitude - first.altitude : 0,
+  };
+};
+
+const headingDifference = (a: number, b: number): number => {
+  const diff = Math.abs(a - b) % 360;
+  return diff > 180 ? 360 - diff : diff;
+};
+
+// Indices where the route passes through a gate in its direction: the closest
+// point of each visit inside the gate radius.
+const gateCrossings = (route: RoutePoint[], gate: SegmentGate): number[] => {
+  const crossings: number[] = [];
+  let i = 0;
+  while (i < route.length) {
+    if (calculateDistance(route[i], gate) > GATE_RADIUS) {
+      i++;
+      continue;
+    }
+    const visitStart = i;
+    let closest = i;
+    while (i < route.length && calculateDistance(route[i], gate) <= GATE_RADIUS) {
+      if (calculateDistance(route[i], gate) < calculateDistance(route[closest], gate)) closest = i;
+      i++;
+    }
+    // Heading through the whole visit, from the fix before it to the fix after
+    const entry = route[Math.max(visitStart - 1, 0)];
+    const exit = route[Math.min(i, route.length - 1)];
+    if (calculateDistance(entry, exit) > 0 && headingDifference(calculateBearing(entry, exit), gate.bearing) <= MAX_HEADING_DIFFERENCE) {
+      crossings.push(closest);
+    }
+  }
+  return crossings;
+};
+
+// Every time the route rides the segment start to finish. Efforts spanning a
+// recording gap are skipped since their time can't be trusted.
+export const detectEfforts = (route: RoutePoint[], segment: SegmentShape): EffortMatch[] => {
+  if (route.length < 2) return [];
+  const distances = cumulativeDistances(route);
+  const starts = gateCrossings(route, segment.start);
+  const ends = gateCrossings(route, segment.end);
+  const efforts: EffortMatch[] = [];
+  let lastEnd = 0;
+
+  ends.forEach((end) => {
+    // The latest start before this finish; earlier ones were abandoned attempts
+    const start = starts.filter((s) => s >= lastEnd && s < end).pop();
+    if (start === undefined) return;
+    const distance = distances[end] - distances[start];
+    const ratio = distance / segment.distance;
+    if (ratio < MIN_DISTANCE_RATIO || ratio > MAX_DISTANCE_RATIO) return;
+    if (route.slice(start + 1, end + 1).some((p) => p.segmentStart)) return;
+    const duration = (route[end].timestamp - route[start].timestamp) / 1000;
+    if (duration <= 0) return;
+
+    const fromAltitude = route[start].altitude;
+    const toAltitude = route[end].altitude;
+    const climb = fromAltitude !== null && toAltitude !== null ? Math.max(toAltitude - fromAltitude, 0) : 0;
+    efforts.push({
+      startTime: route[start].timestamp,
+      duration,
+      distance,
+      avgSpeed: distance / duration,
+      vam: (climb / duration) * 3600,
+    });
+    lastEnd = end;
+  });
+  return efforts;
+};
@@ -0,0 +1,61 @@
+
+import { describe, expect, it } from "vitest";
+import { DEFAULT_DISPLAY, createFormatter } from "./format";
+import { ShareCard, drawShareCard } from "./shareCard";
+import { syntheticTrack } from "./__fixtures__/syntheticTracks";
+
+// Just enough of a 2D context to draw into, keeping the path it was given
+const recordingContext = () => {
+  const path: { x: number; y: number; move: boolean }[] = [];
+  const ctx = new Proxy(
+    {
+      measureText: (text: string) => ({ width: text.length * 20 }),
+      createRadialGradient: () => ({ addColorStop: () => {} }),
+      moveTo: (x: number, y: number) => path.push({ x, y, move: true }),
+      lineTo: (x: number, y: number) => path.push({ x, y, move: false }),
+    } as Record<string | symbol, unknown>,
+    { get: (target, key) => (key in target ? target[key] : () => {}), set: () => true }
+  );
+  return { ctx: ctx as unknown as CanvasRenderingContext2D, path };
+};
+
+const card = (route: ShareCard["route"]): ShareCard => ({
+  name: "Saturday Loop",
+  title: null,
+  route,
+  stats: {
+    totalDistance: 42195,
+    avgSpeed: 7.8,
+    maxSpeed: 15.5,
+    duration: 6000,
+    movingTime: 5400,
+    startTime: null,
+    elevationGain: 512,
+  },
+});
+
+const format = createFormatter(DEFAULT_DISPLAY);
+
+describe("drawShareCard", () => {
+  it("draws a 200,000-point ride inside the map box", () => {
+    const route = syntheticTrack({ seconds: 199_999, speed: 7, jitter: 3 });
+    const { ctx, path } = recordingContext();
+    drawShareCard(ctx, card(route), format);
+
+    const drawn = path.slice(0, route.length);
+    expect(drawn).toHaveLength(route.length);
+    const outside = drawn.filter(({ x, y }) => x < 72 - 1e-6 || x > 1080 - 72 + 1e-6 || y < 300 - 1e-6 || y > 760 + 1e-6);
+    expect(outside).toEqual([]);
+  });
+
+  it("lifts the pen across a recording gap", () => {
+    const before = syntheticTrack({ seconds: 10, speed: 7 });
+    const after = syntheticTrack({ seconds: 10, speed: 7, startTime: before[10].timestamp + 60_000, startOffset: 500 });
+    after[0] = { ...after[0], segmentStart: true };
+    const { ctx, path } = recordingContext();
+    drawShareCard(ctx, card([...before, ...after]), format);
+    expect(path[0].move).toBe(true);
+    expect(path[before.length].move).toBe(true);
+    expect(path.slice(1, before.length).every((p) => !p.move)).toBe(true);
+  });
+});
@@ -0,0 +1,167 @@
+
+import { RoutePoint } from "../types";
+import { Formatter, withUnit } from "./format";
+import { projectMercator } from "./mapGeometry";
+import { PLAIN_ROUTE_COLOR } from "./routeColors";
+import { SharedStats } from "./shareLink";
+
+// Draws a square summary image for social media: the route as the map shows
+// it, the key numbers and the AI coach's title for the ride.
+
+export interface ShareCard {
+  name: string;
+  title: string | null;
+  route: Pick<RoutePoint, "latitude" | "longitude" | "segmentStart">[];
+  stats: SharedStats;
+}
+
+const SIZE = 1080;
+const MARGIN = 72;
+const MAP_TOP = 300;
+const MAP_BOTTOM = 760;
+const FONT = "Inter, system-ui, sans-serif";
+
+const COLORS = {
+  background: "#020617", // slate-950
+  panel: "#0f172a", // slate-900
+  text: "#ffffff",
+  muted: "#64748b", // slate-500
+  start: "#10b981",
+  finish: "#ef4444",
+};
+
+// Cuts text to fit, ending in an ellipsis
+const fitText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string => {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+  let end = text.length;
+  while (end > 0 && ctx.measureText(`${text.slice(0, end)}…`).width > maxWidth) end--;
+  return `${text.slice(0, end)}…`;
+};
+
+const drawRoute = (ctx: CanvasRenderingContext2D, route: ShareCard["route"]) => {
+  if (route.length < 2) return;
+  const points = route.map((p) => projectMercator(p.latitude, p.longitude));
+  // One pass rather than Math.min(...xs): spreading a long ride overflows the stack
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  points.forEach(({ x, y }) => {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  });
+  const width = maxX - minX || 1;
+  const height = maxY - minY || 1;
+  const boxWidth = SIZE - 2 * MARGIN;
+  const boxHeight = MAP_BOTTOM - MAP_TOP;
+  const scale = Math.min(boxWidth / width, boxHeight / height);
+  const offsetX = MARGIN + (boxWidth - width * scale) / 2;
+  const offsetY = MAP_TOP + (boxHeight - height * scale) / 2;
+  const toCanvas = (i: number) => [offsetX + (points[i].x - minX) * scale, offsetY + (points[i].y - minY) * scale] as const;
+
+  ctx.strokeStyle = PLAIN_ROUTE_COLOR;
+  ctx.lineWidth = 8;
+  ctx.lineJoin = "round";
+  ctx.lineCap = "round";
+  ctx.shadowColor = "rgba(132, 204, 22, 0.5)";
+  ctx.shadowBlur = 24;
+  ctx.beginPath();
+  route.forEach((p, i) => {
+    const [x, y] = toCanvas(i);
+    // Recording gaps stay gaps, as on the map
+    if (i === 0 || p.segmentStart) ctx.moveTo(x, y);
+    else ctx.lineTo(x, y);
+  });
+  ctx.stroke();
+  ctx.shadowBlur = 0;
+
+  const dot = (i: number, color: string) => {
+    const [x, y] = toCanvas(i);
+    ctx.fillStyle = color;
+    ctx.beginPath();
+    ctx.arc(x, y, 14, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.strokeStyle = COLORS.background;
+    ctx.lineWidth = 4;
+    ctx.stroke();
+  };
+  dot(0, COLORS.start);
+  dot(route.length - 1, COLORS.finish);
+};
+
+export const drawShareCard = (ctx: CanvasRenderingContext2D, card: ShareCard, format: Formatter) => {
+  const { stats } = card;
+
+  ctx.fillStyle = COLORS.background;
+  ctx.fillRect(0, 0, SIZE, SIZE);
+  const glow = ctx.createRadialGradient(SIZE / 2, (MAP_TOP + MAP_BOTTOM) / 2, 0, SIZE / 2, (MAP_TOP + MAP_BOTTOM) / 2, SIZE / 1.5);
+  glow.addColorStop(0, "rgba(132, 204, 22, 0.12)");
+  glow.addColorStop(1, "rgba(132, 204, 22, 0)");
+  ctx.fillStyle = glow;
+  ctx.fillRect(0, 0, SIZE, SIZE);
+
+  ctx.textBaseline = "alphabetic";
+  ctx.font = `800 44px ${FONT}`;
+  ctx.fillStyle = COLORS.text;
+  ctx.fillText("VELO", MARGIN, MARGIN + 40);
+  const brandWidth = ctx.measureText("VELO").width;
+  ctx.fillStyle = PLAIN_ROUTE_COLOR;
+  ctx.fillText("AI", MARGIN + brandWidth, MARGIN + 40);
+
+  if (stats.startTime !== null) {
+    ctx.font = `600 28px ${FONT}`;
+    ctx.fillStyle = COLORS.muted;
+    ctx.textAlign = "right";
+    ctx.fillText(format.date(stats.startTime, { year: "numeric", month: "short", day: "numeric" }), SIZE - MARGIN, MARGIN + 36);
+    ctx.textAlign = "left";
+  }
+
+  ctx.font = `700 56px ${FONT}`;
+  ctx.fillStyle = COLORS.text;
+  ctx.fillText(fitText(ctx, card.name, SIZE - 2 * MARGIN), MARGIN, 200);
+  if (card.title) {
+    ctx.font = `600 34px ${FONT}`;
+    ctx.fillStyle = PLAIN_ROUTE_COLOR;
+    ctx.fillText(fitText(ctx, card.title, SIZE - 2 * MARGIN), MARGIN, 252);
+  }
+
+  drawRoute(ctx, card.route);
+
+  const tiles: { label: string; value: string }[] = [
+    { label: "Distance", value: withUnit(format.distance(stats.totalDistance)) },
+    { label: "Moving Time", value: format.duration(Math.round(stats.movingTime)) },
+    { label: format.display.speedDisplay === "pace" ? "Avg Pace" : "Avg Speed", value: withUnit(format.speed(stats.avgSpeed)) },
+    { label: "Elevation", value: withUnit(format.elevation(stats.elevationGain)) },
+  ];
+  const gap = 24;
+  const tileWidth = (SIZE - 2 * MARGIN - gap) / 2;
+  const tileHeight = 116;
+  tiles.forEach((tile, i) => {
+    const x = MARGIN + (i % 2) * (tileWidth + gap);
+    const y = MAP_BOTTOM + 40 + Math.floor(i / 2) * (tileHeight + gap);
+    ctx.fillStyle = COLORS.panel;
+    ctx.beginPath();
+    ctx.roundRect(x, y, tileWidth, tileHeight, 24);
+    ctx.fill();
+    ctx.font = `700 22px ${FONT}`;
+    ctx.fillStyle = COLORS.muted;
+    ctx.fillText(tile.label.toUpperCase(), x + 28, y + 42);
+    ctx.font = `700 44px ${FONT}`;
+    ctx.fillStyle = COLORS.text;
+    ctx.fillText(fitText(ctx, tile.value, tileWidth - 56), x + 28, y + 94);
+  });
+};
+
+export const renderShareCard = (card: ShareCard, format: Formatter): Promise<Blob> => {
+  const canvas = document.createElement("canvas");
+  canvas.width = SIZE;
+  canvas.height = SIZE;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return Promise.reject(new Error("This browser can't draw images."));
+  drawShareCard(ctx, card, format);
+  return new Promise((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Failed to create the image."))), "image/png")
+  );
+};
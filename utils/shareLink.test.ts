@@ -0,0 +1,97 @@
+
+import { describe, expect, it, vi } from "vitest";
+import { MAX_SHARE_POINTS, SharedRide, createShareLink, parseShareLink } from "./shareLink";
+import { syntheticTrack } from "./__fixtures__/syntheticTracks";
+
+const BASE_URL = "https://velo.example/";
+
+const sharedRide = (route: SharedRide["route"]): SharedRide => ({
+  name: "Saturday Loop",
+  title: "Strong finish on the climb",
+  route,
+  stats: {
+    totalDistance: 42195.4,
+    avgSpeed: 7.8125,
+    maxSpeed: 15.5,
+    duration: 6000,
+    movingTime: 5400.6,
+    startTime: Date.parse("2024-05-04T07:30:00Z"),
+    elevationGain: 512.3,
+  },
+});
+
+const hashOf = (url: string) => url.slice(url.indexOf("#"));
+
+describe("createShareLink", () => {
+  it("round-trips the ride through the link", () => {
+    const route = syntheticTrack({ seconds: 100, speed: 8 });
+    const ride = sharedRide(route);
+    const parsed = parseShareLink(hashOf(createShareLink(ride, BASE_URL)))!;
+
+    expect(parsed.name).toBe(ride.name);
+    expect(parsed.title).toBe(ride.title);
+    expect(parsed.route).toHaveLength(route.length);
+    parsed.route.forEach((p, i) => {
+      expect(p.latitude).toBeCloseTo(route[i].latitude, 5);
+      expect(p.longitude).toBeCloseTo(route[i].longitude, 5);
+    });
+    expect(parsed.stats).toEqual({
+      totalDistance: 42195,
+      avgSpeed: 7.81,
+      maxSpeed: 15.5,
+      duration: 6000,
+      movingTime: 5401,
+      startTime: ride.stats.startTime,
+      elevationGain: 512,
+    });
+  });
+
+  it("thins a long ride to the cap, keeping both ends", () => {
+    const route = syntheticTrack({ seconds: 5000, speed: 8, jitter: 5 });
+    const parsed = parseShareLink(hashOf(createShareLink(sharedRide(route), BASE_URL)))!;
+    expect(parsed.route.length).toBeLessThanOrEqual(MAX_SHARE_POINTS);
+    expect(parsed.route.length).toBeGreaterThan(MAX_SHARE_POINTS * 0.9);
+    expect(parsed.route[0].longitude).toBeCloseTo(route[0].longitude, 5);
+    expect(parsed.route[parsed.route.length - 1].longitude).toBeCloseTo(route[route.length - 1].longitude, 5);
+  });
+
+  it("never goes over the cap when many points tie at the cutoff", () => {
+    // A regular zig-zag: every corner is equally important to the shape
+    const route = Array.from({ length: 2001 }, (_, i) => ({
+      latitude: 52.37 + (i % 2) * 0.0001,
+      longitude: 4.895 + i * 0.0001,
+    }));
+    const parsed = parseShareLink(hashOf(createShareLink(sharedRide(route), BASE_URL)))!;
+    expect(parsed.route).toHaveLength(MAX_SHARE_POINTS);
+  });
+
+  it("replaces any fragment already on the page URL", () => {
+    const url = createShareLink(sharedRide(syntheticTrack({ seconds: 5, speed: 8 })), `${BASE_URL}#v=1&n=Old`);
+    expect(url.startsWith(`${BASE_URL}#v=1&`)).toBe(true);
+    expect(url.split("#")).toHaveLength(2);
+  });
+});
+
+describe("parseShareLink", () => {
+  it("ignores fragments that aren't a shared ride", () => {
+    expect(parseShareLink("")).toBeNull();
+    expect(parseShareLink("#settings")).toBeNull();
+    expect(parseShareLink("#v=2&p=_p~iF~ps|U")).toBeNull();
+  });
+
+  it("rejects a broken track instead of showing half of it", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect(parseShareLink("#v=1&p=_p~iF~ps|")).toBeNull();
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it("falls back to safe values for missing or bad numbers", () => {
+    const parsed = parseShareLink("#v=1&p=_p~iF~ps|U&d=-5&t=abc")!;
+    expect(parsed.name).toBe("Shared Ride");
+    expect(parsed.title).toBeNull();
+    expect(parsed.stats.totalDistance).toBe(0);
+    expect(parsed.stats.movingTime).toBe(0);
+    expect(parsed.stats.startTime).toBeNull();
+  });
+});
@@ -0,0 +1,93 @@
+
+import { RideStats, RoutePoint } from "../types";
+import { projectMercator, rankSimplification } from "./mapGeometry";
+import { decodePolyline, encodePolyline } from "./polyline";
+
+// A ride packed into the fragment of a link, so it opens read-only in any
+// copy of the app without a backend. The fragment never reaches a server.
+//
+//   https://example.app/#v=1&n=Morning+Ride&p=<polyline>&d=42195&t=5400...
+
+export type SharedStats = Pick<RideStats, "totalDistance" | "avgSpeed" | "maxSpeed" | "duration" | "movingTime" | "startTime" | "elevationGain">;
+
+export interface SharedRide {
+  name: string;
+  title: string | null; // the AI insight's title, if there was one
+  route: Pick<RoutePoint, "latitude" | "longitude">[];
+  stats: SharedStats;
+}
+
+const VERSION = "1";
+// Keeps links to a few kilobytes, short enough for chat apps and QR codes
+export const MAX_SHARE_POINTS = 400;
+const MAX_NAME_LENGTH = 100;
+
+// Keeps the points that matter most to the shape, in order
+const thinRoute = (route: SharedRide["route"], maxPoints: number) => {
+  if (route.length <= maxPoints) return route;
+  const projected = route.map((p) => projectMercator(p.latitude, p.longitude));
+  const ranks = new Array<number>(route.length).fill(0);
+  rankSimplification(projected, ranks, 0, route.length - 1);
+  // The maxPoints highest-ranked points, put back in ride order. Slicing the
+  // ranked list, rather than keeping every rank above a cutoff, stops ties at
+  // the cutoff from overshooting the cap.
+  const kept = route
+    .map((_, i) => i)
+    .filter((i) => ranks[i] > 0)
+    .sort((a, b) => ranks[b] - ranks[a])
+    .slice(0, maxPoints)
+    .sort((a, b) => a - b);
+  return kept.map((i) => route[i]);
+};
+
+export const createShareLink = (ride: SharedRide, baseUrl: string): string => {
+  const { stats } = ride;
+  const params = new URLSearchParams({
+    v: VERSION,
+    n: ride.name.slice(0, MAX_NAME_LENGTH),
+    p: encodePolyline(thinRoute(ride.route, MAX_SHARE_POINTS)),
+    d: String(Math.round(stats.totalDistance)),
+    t: String(Math.round(stats.movingTime)),
+    e: String(Math.round(stats.duration)),
+    a: stats.avgSpeed.toFixed(2),
+    x: stats.maxSpeed.toFixed(2),
+    g: String(Math.round(stats.elevationGain)),
+  });
+  if (stats.startTime !== null) params.set("s", String(Math.round(stats.startTime / 1000)));
+  if (ride.title) params.set("i", ride.title.slice(0, MAX_NAME_LENGTH));
+  return `${baseUrl.split("#")[0]}#${params}`;
+};
+
+const readNumber = (params: URLSearchParams, key: string): number => {
+  const value = Number(params.get(key));
+  return Number.isFinite(value) && value >= 0 ? value : 0;
+};
+
+// Null when the fragment isn't a shared ride or doesn't decode
+export const parseShareLink = (hash: string): SharedRide | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  if (params.get("v") !== VERSION || !params.has("p")) return null;
+  let route: SharedRide["route"];
+  try {
+    route = decodePolyline(params.get("p") ?? "");
+  } catch (err) {
+    console.warn("Ignoring a share link with a broken track:", err);
+    return null;
+  }
+  if (route.some((p) => Math.abs(p.latitude) > 90 || Math.abs(p.longitude) > 180)) return null;
+  const start = params.get("s");
+  return {
+    name: (params.get("n") || "Shared Ride").slice(0, MAX_NAME_LENGTH),
+    title: params.get("i")?.slice(0, MAX_NAME_LENGTH) || null,
+    route,
+    stats: {
+      totalDistance: readNumber(params, "d"),
+      movingTime: readNumber(params, "t"),
+      duration: readNumber(params, "e"),
+      avgSpeed: readNumber(params, "a"),
+      maxSpeed: readNumber(params, "x"),
+      elevationGain: readNumber(params, "g"),
+      startTime: start !== null && Number.isFinite(Number(start)) ? Number(start) * 1000 : null,
+    },
+  };
+};
@@ -0,0 +1,88 @@
+
+import { describe, expect, it } from "vitest";
+import { RoutePoint } from "../types";
+import { DEFAULT_AUTO_PAUSE } from "./autoPause";
+import { DEFAULT_RIDER_PROFILE } from "./power";
+import { summarizeTrack } from "./rideSession";
+import { SPLIT_DISTANCES, computeLaps, computeSplits } from "./splits";
+import { DEFAULT_TRACK_FILTER } from "./trackFilter";
+import { syntheticTrack } from "./__fixtures__/syntheticTracks";
+
+const THRESHOLD = DEFAULT_TRACK_FILTER.elevationThreshold;
+
+const sum = (values: number[]) => values.reduce((total, v) => total + v, 0);
+
+// Riding, a minute stopped at the lights (as the recorder flags it), riding on
+const withStop = (): RoutePoint[] => {
+  const before = syntheticTrack({ seconds: 150, speed: 8 });
+  const stop = syntheticTrack({ seconds: 59, jitter: 1, startTime: before[150].timestamp + 1000, startOffset: 1200 })
+    .map((p) => ({ ...p, autoPaused: true }));
+  const after = syntheticTrack({ seconds: 150, speed: 8, startTime: stop[59].timestamp + 1000, startOffset: 1200 });
+  return [...before, ...stop, ...after];
+};
+
+describe("computeSplits", () => {
+  it("cuts the ride into full kilometres and a final partial split", () => {
+    const track = syntheticTrack({ seconds: 300, speed: 8 });
+    const splits = computeSplits(track, SPLIT_DISTANCES.km, THRESHOLD);
+    expect(splits.map((s) => s.index)).toEqual([1, 2, 3]);
+    expect(splits[0].distance).toBe(1000);
+    expect(splits[1].distance).toBe(1000);
+    expect(splits[2].distance).toBeGreaterThan(390);
+    expect(splits[0].duration).toBeCloseTo(1000 / 8, 0);
+    expect(splits[0].avgSpeed).toBeCloseTo(8, 1);
+  });
+
+  it("leaves auto-paused time out of the split it falls in", () => {
+    const splits = computeSplits(withStop(), SPLIT_DISTANCES.km, THRESHOLD);
+    // The stop is in the second kilometre; it takes about as long as the first
+    expect(Math.abs(splits[1].duration - splits[0].duration)).toBeLessThan(2);
+    expect(splits[1].avgSpeed).toBeCloseTo(8, 0);
+    expect(sum(splits.map((s) => s.duration))).toBeCloseTo(301, 0);
+  });
+
+  it("doesn't count climbing across a gap in the recording", () => {
+    const before = syntheticTrack({ seconds: 60, speed: 8, altitude: () => 100 });
+    // Driven up the pass between the two segments
+    const after = syntheticTrack({ seconds: 60, speed: 8, altitude: () => 400, startTime: before[60].timestamp + 3_600_000, startOffset: 20_000 });
+    after[0] = { ...after[0], segmentStart: true };
+    const splits = computeSplits([...before, ...after], SPLIT_DISTANCES.km, THRESHOLD);
+    expect(sum(splits.map((s) => s.elevationGain))).toBe(0);
+  });
+
+  it("gives each split only the climbing done in it", () => {
+    // 1 m every 10 s, 12.5 m per km, registered in 5 m steps
+    const track = syntheticTrack({ seconds: 250, speed: 8, altitude: (t) => Math.floor(t / 10) });
+    const splits = computeSplits(track, SPLIT_DISTANCES.km, THRESHOLD);
+    expect(splits[0].elevationGain).toBe(10);
+    expect(splits[1].elevationGain).toBe(15);
+  });
+
+  it("matches the moving time of a ride recorded with auto-pause", () => {
+    const ride = syntheticTrack({ seconds: 300, speed: 8, jitter: 2 });
+    const stop = syntheticTrack({ seconds: 120, jitter: 1, startTime: ride[300].timestamp + 1000, startOffset: 2400 });
+    const rest = syntheticTrack({ seconds: 300, speed: 8, jitter: 2, startTime: stop[120].timestamp + 1000, startOffset: 2400 });
+    const config = { autoPause: DEFAULT_AUTO_PAUSE, trackFilter: DEFAULT_TRACK_FILTER, profile: DEFAULT_RIDER_PROFILE };
+    const { route, stats } = summarizeTrack([...ride, ...stop, ...rest], config);
+
+    expect(route.some((p) => p.autoPaused)).toBe(true);
+    const splits = computeSplits(route, SPLIT_DISTANCES.km, THRESHOLD);
+    expect(sum(splits.map((s) => s.distance))).toBeCloseTo(stats.totalDistance, 6);
+    expect(Math.abs(sum(splits.map((s) => s.duration)) - stats.movingTime)).toBeLessThan(2);
+  });
+});
+
+describe("computeLaps", () => {
+  it("returns nothing without any lap presses", () => {
+    expect(computeLaps(syntheticTrack({ seconds: 60, speed: 8 }), THRESHOLD)).toEqual([]);
+  });
+
+  it("closes a lap at each press and leaves auto-paused time out", () => {
+    const track = withStop();
+    track[100] = { ...track[100], lapEnd: true };
+    const laps = computeLaps(track, THRESHOLD);
+    expect(laps).toHaveLength(2);
+    expect(laps[0].duration).toBe(100);
+    expect(laps[1].duration).toBe(201);
+  });
+});
@@ -0,0 +1,107 @@
+
+import { RoutePoint } from "../types";
+import { calculateDistance, accumulateElevation, INITIAL_ELEVATION } from "./geo";
+
+export type SplitUnit = "km" | "mi";
+
+export const SPLIT_DISTANCES: Record<SplitUnit, number> = {
+  km: 1000,
+  mi: 1609.344,
+};
+
+export interface Split {
+  index: number; // 1-based
+  distance: number; // metres
+  duration: number; // seconds; recording gaps and auto-pauses excluded
+  avgSpeed: number; // m/s
+  maxSpeed: number; // m/s
+  elevationGain: number; // metres
+}
+
+type SplitTotals = Omit<Split, "index" | "avgSpeed">;
+
+const emptyTotals = (): SplitTotals => ({ distance: 0, duration: 0, maxSpeed: 0, elevationGain: 0 });
+
+const toSplit = (totals: SplitTotals, index: number): Split => ({
+  index,
+  ...totals,
+  avgSpeed: totals.duration > 0 ? totals.distance / totals.duration : 0,
+});
+
+interface Interval {
+  point: RoutePoint;
+  distance: number; // 0 for the first point of a segment and auto-paused points
+  duration: number;
+  gain: number; // elevation registered at this point
+}
+
+// Walks the track once, yielding per-point distance/time/climb with the same
+// gap, auto-pause and elevation rules the ride stats use.
+const forEachInterval = (route: RoutePoint[], elevationThreshold: number, fn: (interval: Interval) => void) => {
+  let elevation = INITIAL_ELEVATION;
+  route.forEach((point, i) => {
+    const joined = i > 0 && !point.segmentStart;
+    // Climbing isn't measured across a gap; each segment starts a new reference
+    if (!joined) elevation = INITIAL_ELEVATION;
+    const prevGain = elevation.gain;
+    elevation = accumulateElevation(elevation, point.altitude, elevationThreshold);
+    const counted = joined && !point.autoPaused;
+    fn({
+      point,
+      distance: counted ? calculateDistance(route[i - 1], point) : 0,
+      duration: counted ? Math.max(point.timestamp - route[i - 1].timestamp, 0) / 1000 : 0,
+      gain: counted ? elevation.gain - prevGain : 0,
+    });
+  });
+};
+
+// Fixed-distance splits. The interval that crosses a boundary is shared out
+// in proportion, so every full split is exactly one km (or mile) long.
+export const computeSplits = (route: RoutePoint[], splitDistance: number, elevationThreshold: number): Split[] => {
+  const splits: Split[] = [];
+  let current = emptyTotals();
+
+  forEachInterval(route, elevationThreshold, ({ point, distance, duration, gain }) => {
+    current.elevationGain += gain;
+    if (distance === 0) return;
+    current.maxSpeed = Math.max(current.maxSpeed, point.speed);
+
+    let remaining = distance;
+    while (current.distance + remaining >= splitDistance) {
+      const share = (splitDistance - current.distance) / distance;
+      current.distance = splitDistance;
+      current.duration += duration * share;
+      remaining -= distance * share;
+      splits.push(toSplit(current, splits.length + 1));
+      current = { ...emptyTotals(), maxSpeed: point.speed };
+    }
+    current.distance += remaining;
+    current.duration += duration * (remaining / distance);
+  });
+
+  // The final partial split, unless it is just rounding left over
+  if (current.distance >= 1) splits.push(toSplit(current, splits.length + 1));
+  return splits;
+};
+
+// Manual laps: each point flagged `lapEnd` closes the current lap
+export const computeLaps = (route: RoutePoint[], elevationThreshold: number): Split[] => {
+  const laps: Split[] = [];
+  let current = emptyTotals();
+
+  forEachInterval(route, elevationThreshold, ({ point, distance, duration, gain }) => {
+    current.distance += distance;
+    current.duration += duration;
+    current.elevationGain += gain;
+    if (distance > 0) current.maxSpeed = Math.max(current.maxSpeed, point.speed);
+    if (point.lapEnd) {
+      laps.push(toSplit(current, laps.length + 1));
+      current = emptyTotals();
+    }
+  });
+
+  // Without any lap presses the whole ride is one lap, which adds nothing
+  if (laps.length === 0) return [];
+  laps.push(toSplit(current, laps.length + 1));
+  return laps;
+};
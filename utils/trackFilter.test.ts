@@ -0,0 +1,91 @@
+
+import { describe, expect, it } from "vitest";
+import { RoutePoint } from "../types";
+import { calculateDistance } from "./geo";
+import { DEFAULT_TRACK_FILTER, createTrackFilter } from "./trackFilter";
+import { syntheticTrack, withOutliers } from "./__fixtures__/syntheticTracks";
+
+const pathLength = (route: RoutePoint[]) =>
+  route.reduce((sum, p, i) => (i === 0 ? 0 : sum + calculateDistance(route[i - 1], p)), 0);
+
+const runFilter = (track: RoutePoint[], settings = DEFAULT_TRACK_FILTER) => {
+  const filter = createTrackFilter(settings);
+  return track.map((p) => filter.accept(p)).filter((p): p is RoutePoint => p !== null);
+};
+
+// 10 minutes at 8 m/s, one fix a second
+const RIDE = { seconds: 600, speed: 8 };
+const TRUE_DISTANCE = pathLength(syntheticTrack(RIDE));
+const TRUE_SPEED = TRUE_DISTANCE / RIDE.seconds;
+// Raw fixes with 4 m of jitter overstate the distance by ~30%
+const MAX_ERROR = 0.05;
+
+describe("createTrackFilter", () => {
+  it("passes a clean track through unchanged when smoothing is off", () => {
+    const track = syntheticTrack(RIDE);
+    const filtered = runFilter(track, { ...DEFAULT_TRACK_FILTER, smoothing: false });
+    expect(filtered).toEqual(track);
+  });
+
+  it("keeps distance and speed within 5% on a track with 4 m of jitter", () => {
+    const track = syntheticTrack({ ...RIDE, jitter: 4 });
+    // The raw zig-zag overstates the distance badly; that's what we're fixing
+    expect(pathLength(track)).toBeGreaterThan(TRUE_DISTANCE * 1.1);
+
+    const filtered = runFilter(track);
+    expect(filtered).toHaveLength(track.length);
+    const distance = pathLength(filtered);
+    expect(Math.abs(distance - TRUE_DISTANCE) / TRUE_DISTANCE).toBeLessThan(MAX_ERROR);
+    const speed = distance / RIDE.seconds;
+    expect(Math.abs(speed - TRUE_SPEED) / TRUE_SPEED).toBeLessThan(MAX_ERROR);
+  });
+
+  it("stays within 5% across different noise seeds", () => {
+    [2, 3, 4, 5].forEach((seed) => {
+      const distance = pathLength(runFilter(syntheticTrack({ ...RIDE, jitter: 4, seed })));
+      expect(Math.abs(distance - TRUE_DISTANCE) / TRUE_DISTANCE).toBeLessThan(MAX_ERROR);
+    });
+  });
+
+  it("drops single-fix jumps instead of adding them to the distance", () => {
+    const track = withOutliers(syntheticTrack({ ...RIDE, jitter: 2 }), 25, 400);
+    expect(pathLength(track)).toBeGreaterThan(TRUE_DISTANCE + 20 * 800);
+
+    const filtered = runFilter(track);
+    expect(filtered).toHaveLength(track.length - Math.floor(RIDE.seconds / 25));
+    expect(Math.abs(pathLength(filtered) - TRUE_DISTANCE) / TRUE_DISTANCE).toBeLessThan(MAX_ERROR);
+  });
+
+  it("drops fixes that report worse accuracy than allowed", () => {
+    const track = syntheticTrack({ seconds: 10, speed: 8 });
+    track[4] = { ...track[4], accuracy: DEFAULT_TRACK_FILTER.maxAccuracy + 1 };
+    const filtered = runFilter(track, { ...DEFAULT_TRACK_FILTER, smoothing: false });
+    expect(filtered).toHaveLength(track.length - 1);
+    expect(filtered).not.toContain(track[4]);
+  });
+
+  it("accepts a jump that persists, since the track really moved", () => {
+    const before = syntheticTrack({ seconds: 10, speed: 8 });
+    const after = syntheticTrack({ seconds: 10, speed: 8, startTime: before[10].timestamp + 1000, startOffset: 2000 });
+    const filtered = runFilter([...before, ...after], { ...DEFAULT_TRACK_FILTER, smoothing: false });
+    // The first two fixes after the jump are held back; the third restarts the filter
+    expect(filtered).toHaveLength(before.length + after.length - 2);
+    expect(filtered[before.length]).toEqual(after[2]);
+  });
+
+  it("starts over at a segment start instead of smoothing across the gap", () => {
+    const before = syntheticTrack({ seconds: 10, speed: 8 });
+    const after = syntheticTrack({ seconds: 10, speed: 8, startTime: before[10].timestamp + 600_000, startOffset: 5000 });
+    after[0] = { ...after[0], segmentStart: true };
+    const filtered = runFilter([...before, ...after]);
+    expect(filtered).toHaveLength(before.length + after.length);
+    expect(filtered[before.length]).toEqual(after[0]);
+  });
+
+  it("ignores fixes that go back in time", () => {
+    const track = syntheticTrack({ seconds: 5, speed: 8 });
+    const filter = createTrackFilter(DEFAULT_TRACK_FILTER);
+    track.forEach((p) => filter.accept(p));
+    expect(filter.accept({ ...track[2], timestamp: track[5].timestamp })).toBeNull();
+  });
+});
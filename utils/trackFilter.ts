@@ -0,0 +1,94 @@
+
+import { RoutePoint } from "../types";
+import { calculateDistance } from "./geo";
+
+export interface TrackFilterSettings {
+  maxAccuracy: number; // metres; fixes reporting worse accuracy are dropped
+  maxSpeed: number; // m/s; a jump implying more than this is treated as a teleport
+  smoothing: boolean; // Kalman-style position smoothing
+  processNoise: number; // m/s; how quickly we expect the true position to wander
+  elevationThreshold: number; // metres of climb/descent before it counts
+}
+
+export const DEFAULT_TRACK_FILTER: TrackFilterSettings = {
+  maxAccuracy: 30,
+  maxSpeed: 30, // ~108 km/h, beyond any descent we expect to record
+  smoothing: true,
+  processNoise: 3,
+  elevationThreshold: 5, // GPS altitude noise is typically several metres
+};
+
+// Imported files carry no accuracy; assume a typical consumer GPS fix
+const ASSUMED_ACCURACY = 10;
+// After this many rejected jumps in a row, the jump is probably real (or the
+// point we are comparing against was the bad one), so accept and start over.
+const MAX_CONSECUTIVE_REJECTS = 3;
+
+interface KalmanState {
+  latitude: number;
+  longitude: number;
+  variance: number; // metres²
+  timestamp: number;
+}
+
+const kalmanStep = (state: KalmanState | null, point: RoutePoint, processNoise: number): KalmanState => {
+  const accuracy = Math.max(point.accuracy ?? ASSUMED_ACCURACY, 1);
+  const measurementVariance = accuracy * accuracy;
+  if (!state) {
+    return { latitude: point.latitude, longitude: point.longitude, variance: measurementVariance, timestamp: point.timestamp };
+  }
+
+  const dt = Math.max(point.timestamp - state.timestamp, 0) / 1000;
+  const predicted = state.variance + dt * processNoise * processNoise;
+  const gain = predicted / (predicted + measurementVariance);
+  return {
+    latitude: state.latitude + gain * (point.latitude - state.latitude),
+    longitude: state.longitude + gain * (point.longitude - state.longitude),
+    variance: (1 - gain) * predicted,
+    timestamp: point.timestamp,
+  };
+};
+
+export interface TrackFilter {
+  // Returns the cleaned point, or null when the fix should be discarded
+  accept: (point: RoutePoint) => RoutePoint | null;
+  reset: () => void;
+}
+
+export const createTrackFilter = (settings: TrackFilterSettings): TrackFilter => {
+  let lastRaw: RoutePoint | null = null;
+  let kalman: KalmanState | null = null;
+  let rejects = 0;
+
+  const reset = () => {
+    lastRaw = null;
+    kalman = null;
+    rejects = 0;
+  };
+
+  const accept = (point: RoutePoint): RoutePoint | null => {
+    if (point.accuracy != null && point.accuracy > settings.maxAccuracy) return null;
+    if (point.segmentStart) reset();
+
+    if (lastRaw) {
+      const dt = (point.timestamp - lastRaw.timestamp) / 1000;
+      if (dt <= 0) return null;
+      // Allow for the fixes' own uncertainty so slow riding isn't flagged
+      const slack = (point.accuracy ?? ASSUMED_ACCURACY) + (lastRaw.accuracy ?? ASSUMED_ACCURACY);
+      const distance = Math.max(calculateDistance(lastRaw, point) - slack, 0);
+      if (distance / dt > settings.maxSpeed) {
+        rejects++;
+        if (rejects < MAX_CONSECUTIVE_REJECTS) return null;
+        reset();
+      }
+    }
+    rejects = 0;
+    lastRaw = point;
+
+    if (!settings.smoothing) return point;
+    kalman = kalmanStep(kalman, point, settings.processNoise);
+    return { ...point, latitude: kalman.latitude, longitude: kalman.longitude };
+  };
+
+  return { accept, reset };
+};
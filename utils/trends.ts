@@ -0,0 +1,92 @@
+
+import { SavedRide } from "../types";
+
+// Totals per calendar week or month across the ride history, for the trends
+// dashboard and the AI training review.
+
+export type TrendPeriod = "week" | "month";
+
+export interface TrendBucket {
+  start: number; // local midnight on the Monday / the 1st
+  rides: number;
+  distance: number; // metres
+  movingTime: number; // seconds
+  elevationGain: number; // metres
+  avgSpeed: number; // m/s over the moving time; 0 without timed rides
+  trainingLoad: number; // summed TSS-style load
+}
+
+// The per-ride numbers the trends and the training review work from
+export interface RideSummary {
+  date: number; // start of the ride
+  name: string;
+  distance: number; // metres
+  movingTime: number; // seconds
+  elevationGain: number; // metres
+  avgSpeed: number; // m/s
+  normalizedPower: number; // watts, estimated
+  trainingLoad: number;
+}
+
+export const rideDate = (ride: SavedRide): number => ride.stats.startTime ?? ride.createdAt;
+
+export const summarizeRide = (ride: SavedRide): RideSummary => ({
+  date: rideDate(ride),
+  name: ride.name,
+  distance: ride.stats.totalDistance,
+  movingTime: ride.stats.movingTime,
+  elevationGain: ride.stats.elevationGain,
+  avgSpeed: ride.stats.avgSpeed,
+  normalizedPower: ride.stats.normalizedPower,
+  trainingLoad: ride.stats.trainingLoad,
+});
+
+// Weeks start on Monday, in local time
+export const periodStart = (time: number, period: TrendPeriod): number => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  if (period === "month") date.setDate(1);
+  else date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return date.getTime();
+};
+
+const shiftPeriod = (start: number, period: TrendPeriod, by: number): number => {
+  const date = new Date(start);
+  if (period === "month") date.setMonth(date.getMonth() + by);
+  else date.setDate(date.getDate() + 7 * by);
+  return date.getTime();
+};
+
+// The last `count` periods up to and including the one containing `now`,
+// oldest first; periods without rides are kept as zeros
+export const buildTrends = (rides: RideSummary[], period: TrendPeriod, count: number, now = Date.now()): TrendBucket[] => {
+  const current = periodStart(now, period);
+  const buckets: TrendBucket[] = Array.from({ length: count }, (_, i) => ({
+    start: shiftPeriod(current, period, i - count + 1),
+    rides: 0,
+    distance: 0,
+    movingTime: 0,
+    elevationGain: 0,
+    avgSpeed: 0,
+    trainingLoad: 0,
+  }));
+  const byStart = new Map(buckets.map((bucket) => [bucket.start, { bucket, timedDistance: 0 }]));
+
+  rides.forEach((ride) => {
+    const entry = byStart.get(periodStart(ride.date, period));
+    if (!entry) return;
+    const { bucket } = entry;
+    bucket.rides++;
+    bucket.distance += ride.distance;
+    bucket.movingTime += ride.movingTime;
+    bucket.elevationGain += ride.elevationGain;
+    bucket.trainingLoad += ride.trainingLoad;
+    // Untimed imports (planned routes) add distance but no time, so they are
+    // left out of the speed
+    if (ride.movingTime > 0) entry.timedDistance += ride.distance;
+  });
+  byStart.forEach(({ bucket, timedDistance }) => {
+    bucket.avgSpeed = bucket.movingTime > 0 ? timedDistance / bucket.movingTime : 0;
+  });
+  return buckets;
+};
@@ -1,19 +1,98 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createHash } from 'crypto';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Server-only variables; never exposed to the client bundle
+const SERVER_ENV = [
+  'AI_PROVIDER',
+  'GEMINI_API_KEY',
+  'GEMINI_MODEL',
+  'OPENAI_BASE_URL',
+  'OPENAI_API_KEY',
+  'OPENAI_MODEL',
+  'AI_MOCK_DELAY_MS',
+];
+
+// `signal` fires when the browser drops the connection, like request.signal on Vercel
+const toWebRequest = async (req: IncomingMessage, signal: AbortSignal): Promise<Request> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const headers = new Headers();
+  Object.entries(req.headers).forEach(([name, value]) => {
+    if (value !== undefined) headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+  });
+  if (!headers.has('x-forwarded-for') && req.socket.remoteAddress) headers.set('x-forwarded-for', req.socket.remoteAddress);
+  const hasBody = req.method !== 'GET' && req.method !== 'HEAD';
+  return new Request(`http://${req.headers.host ?? 'localhost'}${req.url}`, {
+    method: req.method,
+    headers,
+    body: hasBody ? Buffer.concat(chunks) : undefined,
+    signal,
+  });
+};
+
+const sendWebResponse = async (response: Response, res: ServerResponse) => {
+  res.statusCode = response.status;
+  response.headers.forEach((value, name) => res.setHeader(name, value));
+  if (response.body) {
+    const reader = response.body.getReader();
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) res.write(chunk.value);
+  }
+  res.end();
+};
+
+// Serves the same handlers as the Vercel functions in api/ during `npm run dev`
+const apiRoutes = (): Plugin => ({
+  name: 'velo-ai-api-routes',
+  configureServer(server) {
+    server.middlewares.use(async (req, res, next) => {
+      const pathname = req.url?.split('?')[0] ?? '';
+      if (!pathname.startsWith('/api/')) return next();
+      try {
+        const { API_HANDLERS } = await server.ssrLoadModule('/server/routes.ts');
+        const handler = API_HANDLERS[pathname];
+        if (!handler) return next();
+        const controller = new AbortController();
+        res.on('close', () => {
+          if (!res.writableFinished) controller.abort();
+        });
+        await sendWebResponse(await handler(await toWebRequest(req, controller.signal)), res);
+      } catch (err) {
+        next(err);
+      }
+    });
+  },
+});
+
+// Lists the built assets for the service worker (public/sw.js) to cache on
+// install. The version changes with the list, so each deploy installs anew.
+const precacheManifest = (): Plugin => ({
+  name: 'velo-ai-precache-manifest',
+  apply: 'build',
+  generateBundle(_, bundle) {
+    const files = Object.keys(bundle).filter((name) => !name.endsWith('.html')).map((name) => `/${name}`);
+    const version = createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 12);
+    this.emitFile({
+      type: 'asset',
+      fileName: 'precache-manifest.js',
+      source: `self.PRECACHE_VERSION = ${JSON.stringify(version)};\nself.PRECACHE_FILES = ${JSON.stringify(files)};\n`,
+    });
+  },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    SERVER_ENV.forEach((name) => {
+      if (env[name] && !process.env[name]) process.env[name] = env[name];
+    });
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
+      plugins: [react(), apiRoutes(), precacheManifest()],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),